@@ -8,17 +8,10 @@ import {
   type DecryptFnParams,
   type Keyring,
   type SyncState,
+  type SyncStrategy,
   type UserWithSecrets,
 } from '@localfirst/crdx'
-import {
-  asymmetric,
-  randomKey,
-  symmetric,
-  type Base58,
-  type Hash,
-  type Payload,
-} from '@localfirst/crypto'
-import { deriveSharedKey } from 'connection/deriveSharedKey.js'
+import { keyExchange, signatures, symmetric, type Hash, type Payload } from '@localfirst/crypto'
 import {
   buildError,
   type ConnectionErrorType,
@@ -34,9 +27,9 @@ import {
   type ConnectionMessage,
   type DisconnectMessage,
   type EncryptedMessage,
+  type KeyExchangeMessage,
   type NumberedConnectionMessage,
   type ProveIdentityMessage,
-  type SeedMessage,
   type SyncMessage,
 } from 'connection/message.js'
 import { orderedDelivery } from 'connection/orderedDelivery.js'
@@ -55,7 +48,7 @@ import {
 } from 'team/index.js'
 import * as select from 'team/selectors/index.js'
 import { arraysAreEqual } from 'util/arraysAreEqual.js'
-import { KeyType, assert, debug, truncateHashes } from 'util/index.js'
+import { KeyType, SignaturePurpose, assert, debug, truncateHashes } from 'util/index.js'
 import { syncMessageSummary } from 'util/testing/messageSummary.js'
 import { assign, createMachine, interpret, type Interpreter } from 'xstate'
 import { protocolMachine } from './protocolMachine.js'
@@ -80,6 +73,9 @@ export class Connection extends EventEmitter<ConnectionEvents> {
   private peerUserId = '?'
 
   private readonly sendFn: SendFunction
+  private readonly syncStrategy?: SyncStrategy
+  private readonly maxSyncMessageSize?: number
+  private readonly maxSyncLinks?: number
   private readonly machine: Interpreter<ConnectionContext, ConnectionState, ConnectionMessage>
 
   private incomingMessageQueue: Record<number, NumberedConnectionMessage> = {}
@@ -374,7 +370,7 @@ export class Connection extends EventEmitter<ConnectionEvents> {
       assert(context.team)
       let { team } = context
 
-      const previousSyncState = context.syncState ?? initSyncState()
+      const previousSyncState = context.syncState ?? initSyncState(this.syncStrategy)
       const syncMessage = (event as SyncMessage).payload
 
       const teamKeys = team.teamKeys()
@@ -414,70 +410,55 @@ export class Connection extends EventEmitter<ConnectionEvents> {
 
     // NEGOTIATING
 
-    generateSeed: assign({ seed: _ => randomKey() }),
+    // Each peer generates a keypair that is only used for this session
+    generateEphemeralKeys: assign({ ephemeralKeys: _ => keyExchange.keyPair() }),
 
-    sendSeed: context => {
+    sendEphemeralPublicKey: context => {
       assert(context.user)
-      assert(context.peer)
-      assert(context.seed)
-
-      const recipientPublicKey = context.peer.keys.encryption
-      const senderPublicKey = context.user.keys.encryption.publicKey
-      const senderSecretKey = context.user.keys.encryption.secretKey
-      this.log('encrypting %o', { recipientPublicKey, senderPublicKey })
-      const encryptedSeed = asymmetric.encrypt({
-        secret: context.seed,
-        recipientPublicKey,
-        senderSecretKey,
-      })
+      assert(context.ephemeralKeys)
+
+      // We sign our ephemeral public key, so that our peer knows that it came from us
+      const { publicKey } = context.ephemeralKeys
+      const signature = signatures.sign(
+        publicKey,
+        context.user.keys.signature.secretKey,
+        SignaturePurpose.KEY_EXCHANGE
+      )
+      this.log('sending ephemeral public key %o', truncateHashes({ publicKey }))
 
       this.sendMessage({
-        type: 'SEED',
-        payload: { encryptedSeed },
+        type: 'KEY_EXCHANGE',
+        payload: { publicKey, signature },
       })
     },
 
-    receiveSeed: assign({
-      theirEncryptedSeed: (_, event) => (event as SeedMessage).payload.encryptedSeed,
+    receiveEphemeralPublicKey: assign({
+      theirEphemeralPublicKey: (_, event) => (event as KeyExchangeMessage).payload.publicKey,
     }),
 
-    deriveSharedKey: assign({
-      sessionKey: context => {
-        assert(context.user)
-        assert(context.theirEncryptedSeed)
-        assert(context.seed)
-        assert(context.peer)
-
-        // We saved our seed in context
-        const ourSeed = context.seed
-
-        // Their seed is encrypted and stored in context
-        const senderPublicKey = context.peer.keys.encryption
-        const recipientPublicKey = context.user.keys.encryption.publicKey
-        const recipientSecretKey = context.user.keys.encryption.secretKey
-        this.log('decrypting %o', truncateHashes({ senderPublicKey, recipientPublicKey }))
-        try {
-          const theirSeed = asymmetric.decrypt({
-            cipher: context.theirEncryptedSeed,
-            senderPublicKey,
-            recipientSecretKey,
-          }) as Base58
-
-          // With the two keys, we derive a shared key
-          return deriveSharedKey(ourSeed, theirSeed)
-        } catch (error: unknown) {
-          this.log('decryption failed %o', truncateHashes({ senderPublicKey, recipientPublicKey }))
-          throw error
-        }
+    deriveSessionKeys: assign({
+      sessionKeys(context) {
+        assert(context.ephemeralKeys)
+        assert(context.theirEphemeralPublicKey)
+
+        // We each derive a pair of session keys, one for each direction
+        return keyExchange.sessionKeys({
+          ourKeys: context.ephemeralKeys,
+          theirPublicKey: context.theirEphemeralPublicKey,
+        })
       },
+
+      // We don't need our ephemeral secret key any more, and we shouldn't keep it around: once it's
+      // gone, the session keys can't be recovered, even by someone who later gets our user keys.
+      ephemeralKeys: _ => undefined,
     }),
 
     // COMMUNICATING
 
     receiveEncryptedMessage: (context, event) => {
-      assert(context.sessionKey)
+      assert(context.sessionKeys)
       const encryptedMessage = (event as EncryptedMessage).payload
-      const decryptedMessage = symmetric.decrypt(encryptedMessage, context.sessionKey)
+      const decryptedMessage = symmetric.decrypt(encryptedMessage, context.sessionKeys.receiveKey)
       this.emit('message', decryptedMessage)
     },
 
@@ -517,6 +498,7 @@ export class Connection extends EventEmitter<ConnectionEvents> {
     failNeitherIsMember: this.fail('NEITHER_IS_MEMBER'),
     rejectInvitation: this.fail('INVITATION_PROOF_INVALID'),
     rejectTeam: this.fail('JOINED_WRONG_TEAM'),
+    rejectKeyExchange: this.fail('KEY_EXCHANGE_INVALID'),
     failPeerWasRemoved: this.fail('MEMBER_REMOVED'),
     failTimeout: this.fail('TIMEOUT'),
 
@@ -584,6 +566,19 @@ export class Connection extends EventEmitter<ConnectionEvents> {
       return context.team.verifyIdentityProof(challenge, proof)
     },
 
+    // NEGOTIATION
+
+    keyExchangeIsValid(context, event) {
+      assert(context.peer)
+      const { publicKey, signature } = (event as KeyExchangeMessage).payload
+      return signatures.verify({
+        payload: publicKey,
+        signature,
+        publicKey: context.peer.keys.signature,
+        context: SignaturePurpose.KEY_EXCHANGE,
+      })
+    },
+
     // SYNCHRONIZATION
 
     headsAreEqual(context) {
@@ -596,7 +591,14 @@ export class Connection extends EventEmitter<ConnectionEvents> {
     headsAreDifferent: (...args) => !this.guards.headsAreEqual(...args),
   }
 
-  constructor({ sendMessage, context, peerUserId }: ConnectionParams) {
+  constructor({
+    sendMessage,
+    context,
+    peerUserId,
+    syncStrategy,
+    maxSyncMessageSize,
+    maxSyncLinks,
+  }: ConnectionParams) {
     super()
 
     if (peerUserId) {
@@ -604,6 +606,9 @@ export class Connection extends EventEmitter<ConnectionEvents> {
     }
 
     this.sendFn = sendMessage
+    this.syncStrategy = syncStrategy
+    this.maxSyncMessageSize = maxSyncMessageSize
+    this.maxSyncLinks = maxSyncLinks
 
     this.setLogPrefix(context)
 
@@ -710,11 +715,12 @@ export class Connection extends EventEmitter<ConnectionEvents> {
     return this.context.team
   }
 
-  /** Returns the connection's session key when we are in a connected state.
-   * Otherwise, returns `undefined`.
+  /** Returns the connection's session keys (one for receiving, one for transmitting) when we are
+   * in a connected state. Otherwise, returns `undefined`. (This replaces `sessionKey`, which
+   * returned the single key that both peers used before; see `docs/connection.md`.)
    */
-  get sessionKey() {
-    return this.context.sessionKey
+  get sessionKeys() {
+    return this.context.sessionKeys
   }
 
   get peerName() {
@@ -728,14 +734,20 @@ export class Connection extends EventEmitter<ConnectionEvents> {
 
   /** Sends an encrypted message to the peer we're connected with */
   public send = (message: Payload) => {
-    assert(this.context.sessionKey)
+    assert(this.context.sessionKeys)
 
-    const encryptedMessage = symmetric.encrypt(message, this.context.sessionKey)
+    const encryptedMessage = symmetric.encrypt(message, this.context.sessionKeys.transmitKey)
     this.sendMessage({ type: 'ENCRYPTED_MESSAGE', payload: encryptedMessage })
   }
 
-  public sendSyncMessage(chain: TeamGraph, previousSyncState: SyncState = initSyncState()) {
-    const [syncState, syncMessage] = generateMessage(chain, previousSyncState)
+  public sendSyncMessage(
+    chain: TeamGraph,
+    previousSyncState: SyncState = initSyncState(this.syncStrategy)
+  ) {
+    const [syncState, syncMessage] = generateMessage(chain, previousSyncState, {
+      maxMessageSize: this.maxSyncMessageSize,
+      maxLinks: this.maxSyncLinks,
+    })
 
     // Undefined message means we're already synced
     if (syncMessage) {
@@ -31,6 +31,10 @@ export const connectionErrors: Record<string, ErrorDefinition> = {
     localMessage: "This isn't the team you were invited to",
     remoteMessage: "This isn't the team the peer was invited to",
   },
+  KEY_EXCHANGE_INVALID: {
+    localMessage: "The peer's key exchange message wasn't signed by them",
+    remoteMessage: "Your key exchange message wasn't accepted",
+  },
   TIMEOUT: {
     localMessage: "We didn't hear back from the peer; giving up",
     remoteMessage: "The peer didn't hear back from us, so they gave up",
@@ -7,7 +7,9 @@ import {
 } from '@localfirst/crdx'
 import { signatures, randomKey } from '@localfirst/crypto'
 import { type Challenge } from 'connection/types.js'
-import { VALID, type ValidationResult } from 'util/index.js'
+import { SignaturePurpose, VALID, type ValidationResult } from 'util/index.js'
+
+const { IDENTITY_PROOF } = SignaturePurpose
 
 export const challenge = (identityClaim: KeyScope): Challenge => ({
   ...identityClaim,
@@ -16,7 +18,7 @@ export const challenge = (identityClaim: KeyScope): Challenge => ({
 })
 
 export const prove = (challenge: Challenge, keys: KeysetWithSecrets): Base58 =>
-  signatures.sign(challenge, keys.signature.secretKey)
+  signatures.sign(challenge, keys.signature.secretKey, IDENTITY_PROOF)
 
 export const verify = (
   challenge: Challenge,
@@ -29,6 +31,7 @@ export const verify = (
     payload: challenge,
     signature,
     publicKey: publicKeys.signature,
+    context: IDENTITY_PROOF,
   })
   if (!signatureIsValid) {
     return fail('Signature is not valid', details)
@@ -102,10 +102,13 @@ export type LocalUpdateMessage = {
 
 // Negotiation
 
-export type SeedMessage = {
-  type: 'SEED'
+export type KeyExchangeMessage = {
+  type: 'KEY_EXCHANGE'
   payload: {
-    encryptedSeed: Base58
+    /** Our ephemeral key exchange public key */
+    publicKey: Base58
+    /** Our signature of the ephemeral public key, made with our user's signature keys */
+    signature: Base58
   }
 }
 
@@ -124,12 +127,12 @@ export type ConnectionMessage =
   | DisconnectMessage
   | EncryptedMessage
   | ErrorMessage
+  | KeyExchangeMessage
   | LocalErrorMessage
   | LocalUpdateMessage
   | ProveIdentityMessage
   | ReadyMessage
   | ReconnectMessage
-  | SeedMessage
   | SyncMessage
 
 export type NumberedConnectionMessage = ConnectionMessage & {
@@ -144,13 +147,13 @@ const messageTypes = new Set([
   'DISCONNECT',
   'ENCRYPTED_MESSAGE',
   'ERROR',
+  'KEY_EXCHANGE',
   'LOCAL_ERROR',
   'LOCAL_UPDATE',
   'PROVE_IDENTITY',
   'RECONNECT',
   'REJECT_IDENTITY',
   'REQUEST_IDENTITY',
-  'SEED',
   'SYNC',
 ])
 
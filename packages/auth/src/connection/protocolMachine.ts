@@ -200,15 +200,30 @@ export const protocolMachine: MachineConfig<ConnectionContext, ConnectionState,
 
       negotiating: {
         id: 'negotiating',
-        entry: ['generateSeed'],
-        initial: 'awaitingSeed',
+        entry: ['generateEphemeralKeys'],
+        initial: 'awaitingKeyExchange',
         states: {
-          awaitingSeed: {
-            entry: ['sendSeed'],
-            on: { SEED: { actions: 'receiveSeed', target: 'doneNegotiating' } },
+          awaitingKeyExchange: {
+            entry: ['sendEphemeralPublicKey'],
+            on: {
+              KEY_EXCHANGE: [
+                // If their ephemeral public key is signed by them, we can derive session keys
+                {
+                  cond: 'keyExchangeIsValid',
+                  actions: 'receiveEphemeralPublicKey',
+                  target: 'doneNegotiating',
+                },
+
+                // Otherwise someone might be trying to intercept our messages; disconnect with error
+                {
+                  actions: 'rejectKeyExchange',
+                  target: '#disconnected',
+                },
+              ],
+            },
             ...timeout,
           },
-          doneNegotiating: { entry: 'deriveSharedKey', type: 'final' },
+          doneNegotiating: { entry: 'deriveSessionKeys', type: 'final' },
         },
 
         onDone: {
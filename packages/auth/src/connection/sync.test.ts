@@ -129,6 +129,49 @@ describe('connection', () => {
         expect(alice.team.hasInvitation(id)).toBe(true)
       })
 
+      it('resolves concurrent changes using Bloom filters', async () => {
+        const { alice, bob } = setup('alice', 'bob')
+
+        // 👩🏾 Alice creates a new role
+        alice.team.addRole('MANAGERS')
+
+        // 👨🏻‍🦲 concurrently, Bob invites Charlie
+        const { id } = bob.team.inviteMember()
+
+        // 👩🏾<->👨🏻‍🦲 Alice and Bob connect, summarizing their graphs with Bloom filters
+        await connect(alice, bob, { syncStrategy: 'BLOOM' })
+
+        // ✅ they each see the other's changes
+        expect(bob.team.hasRole('MANAGERS')).toBe(true)
+        expect(alice.team.hasInvitation(id)).toBe(true)
+      })
+
+      it('syncs large changes in batches', async () => {
+        const { alice, bob } = setup('alice', 'bob')
+
+        // 👩🏾 Alice makes a lot of changes
+        for (let i = 0; i < 10; i++) alice.team.addRole(`role-${i}`)
+
+        // 👩🏾<->👨🏻‍🦲 Alice and Bob connect, limiting the size of their sync messages
+        await connect(alice, bob, { maxSyncMessageSize: 2000 })
+
+        // ✅ Bob gets all of Alice's changes
+        expect(bob.team.roles()).toHaveLength(alice.team.roles().length)
+      })
+
+      it('syncs a few links at a time', async () => {
+        const { alice, bob } = setup('alice', 'bob')
+
+        // 👩🏾 Alice makes a lot of changes
+        for (let i = 0; i < 10; i++) alice.team.addRole(`role-${i}`)
+
+        // 👩🏾<->👨🏻‍🦲 Alice and Bob connect, limiting the number of links in each sync message
+        await connect(alice, bob, { maxSyncLinks: 3 })
+
+        // ✅ Bob gets all of Alice's changes
+        expect(bob.team.roles()).toHaveLength(alice.team.roles().length)
+      })
+
       it('resolves concurrent duplicate changes when updating', async () => {
         const { alice, bob } = setup('alice', 'bob')
 
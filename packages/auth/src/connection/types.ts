@@ -4,9 +4,11 @@ import {
   type KeyScope,
   type Keyset,
   type SyncState,
+  type SyncStrategy,
   type UnixTimestamp,
   type UserWithSecrets,
 } from '@localfirst/crdx'
+import { type Base58Keypair, type SessionKeys } from '@localfirst/crypto'
 import { type DeviceWithSecrets } from 'device/index.js'
 import { type ProofOfInvitation } from 'invitation/index.js'
 import { type Member, type Team } from 'team/index.js'
@@ -31,11 +33,11 @@ export type ConnectionEvents = {
   connected: () => void
 
   /**
-  * We've successfully joined a team using an invitation. This event provides the team graph and
-  * the user's info (including keys). (When we're joining as a new device for an existing user,
-  * this is how we get the user's keys.) This event gives the application a chance to persist the
-  * team graph and the user's info.
-  */
+   * We've successfully joined a team using an invitation. This event provides the team graph and
+   * the user's info (including keys). (When we're joining as a new device for an existing user,
+   * this is how we get the user's keys.) This event gives the application a chance to persist the
+   * team graph and the user's info.
+   */
   joined: ({ team, user }: { team: Team; user: UserWithSecrets }) => void
 
   /** The team graph has been updated. This event gives the application a chance to persist the changes. */
@@ -94,6 +96,21 @@ export type ConnectionParams = {
 
   /** The peer's user id, if we know it */
   peerUserId?: string
+
+  /** How we tell the peer which links we have when syncing. Defaults to `PARENT_MAP`. */
+  syncStrategy?: SyncStrategy
+
+  /**
+   * The largest sync message we want to send, in bytes (approximately). If the peer needs more
+   * links than will fit, they're sent over several rounds. By default, there's no limit.
+   */
+  maxSyncMessageSize?: number
+
+  /**
+   * The largest number of links we want to send in one sync message. If the peer needs more than
+   * that, they're sent over several rounds. By default, there's no limit.
+   */
+  maxSyncLinks?: number
 }
 
 export type ErrorPayload = {
@@ -113,9 +130,9 @@ export type ConnectionContext = {
   challenge?: Challenge
   peer?: Member
   theirHead?: Hash
-  seed?: Base58
-  theirEncryptedSeed?: Base58
-  sessionKey?: Base58
+  ephemeralKeys?: Base58Keypair
+  theirEphemeralPublicKey?: Base58
+  sessionKeys?: SessionKeys
   error?: ErrorPayload
   device: DeviceWithSecrets
 
@@ -171,7 +188,7 @@ export type ConnectionState = {
 
     negotiating: {
       states: {
-        awaitingSeed: Record<string, unknown>
+        awaitingKeyExchange: Record<string, unknown>
         doneNegotiating: Record<string, unknown>
       }
     }
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+import { createDevice, exportDevice, importDevice } from 'device/index.js'
+
+const passphrase = 'correct horse battery staple'
+
+describe('device export', () => {
+  it('round-trips a device', () => {
+    const laptop = createDevice('alice', 'laptop')
+    const backup = exportDevice(laptop, passphrase)
+    expect(importDevice(backup, passphrase)).toEqual(laptop)
+  })
+
+  it('fails with the wrong passphrase', () => {
+    const laptop = createDevice('alice', 'laptop')
+    const backup = exportDevice(laptop, passphrase)
+    expect(() => importDevice(backup, 'nachopassphrase')).toThrow('passphrase is wrong')
+  })
+})
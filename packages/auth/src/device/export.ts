@@ -0,0 +1,30 @@
+import { exportSecrets, importSecrets, isValidKeyset } from '@localfirst/crdx'
+import { type Base58, type StretchOptions } from '@localfirst/crypto'
+import { type DeviceWithSecrets } from './types.js'
+
+/**
+ * Encrypts a device, including its secret keys, with a passphrase. See `exportKeyset`.
+ */
+export const exportDevice = (
+  device: DeviceWithSecrets,
+  passphrase: string,
+  /** (optional) Salt and Argon2id limits to use when stretching the passphrase */
+  options?: StretchOptions
+): Base58 => exportSecrets(DEVICE, device, passphrase, options)
+
+/**
+ * Decrypts a device exported using `exportDevice`. Throws if the passphrase is wrong or the backup
+ * has been tampered with.
+ */
+export const importDevice = (blob: Base58, passphrase: string): DeviceWithSecrets => {
+  const device = importSecrets(DEVICE, blob, passphrase) as DeviceWithSecrets
+  if (
+    typeof device?.userId !== 'string' ||
+    typeof device.deviceName !== 'string' ||
+    !isValidKeyset(device.keys)
+  )
+    throw new Error('This backup does not contain a valid device')
+  return device
+}
+
+const DEVICE = 'DEVICE'
@@ -1,4 +1,5 @@
 export * from './create.js'
+export * from './export.js'
 export * from './redact.js'
 export * from './getDeviceId.js'
 export * from './types.js'
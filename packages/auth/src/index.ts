@@ -1,5 +1,11 @@
 export { createTeam, load as loadTeam, Team } from './team/index.js'
-export { type Device, createDevice, redactDevice } from './device/index.js'
+export {
+  type Device,
+  createDevice,
+  exportDevice,
+  importDevice,
+  redactDevice,
+} from './device/index.js'
 export { Connection } from './connection/index.js'
 export { generateProof } from './invitation/index.js'
 
@@ -7,6 +13,7 @@ export * as connection from './connection/index.js'
 export * as context from './context/index.js'
 export * as device from './device/index.js'
 export * as invitation from './invitation/index.js'
+export * as recovery from './recovery/index.js'
 export * as role from './role/index.js'
 export * as team from './team/index.js'
 
@@ -20,6 +27,7 @@ export * from './connection/errors.js'
 export * from './context/types.js'
 export * from './device/types.js'
 export * from './invitation/types.js'
+export * from './recovery/types.js'
 export * from './role/types.js'
 export * from './team/types.js'
 
@@ -28,7 +36,11 @@ export {
   type Base58,
   createKeyset,
   createUser,
+  exportKeyset,
+  exportUser,
   type Hash,
+  importKeyset,
+  importUser,
   type Keyset,
   type KeysetWithSecrets,
   type Keyring,
@@ -3,7 +3,7 @@ import { generateStarterKeys } from './generateStarterKeys.js'
 import { normalize } from './normalize.js'
 import { deriveId } from 'invitation/deriveId.js'
 import { type ProofOfInvitation } from 'invitation/types.js'
-import { memoize } from 'util/index.js'
+import { memoize, SignaturePurpose } from 'util/index.js'
 
 export const generateProof = memoize((seed: string): ProofOfInvitation => {
   seed = normalize(seed)
@@ -14,7 +14,11 @@ export const generateProof = memoize((seed: string): ProofOfInvitation => {
 
   // Bob uses the ephemeral keys to sign a message consisting of the invitation id
   const payload = { id }
-  const signature = signatures.sign(payload, ephemeralKeys.signature.secretKey)
+  const signature = signatures.sign(
+    payload,
+    ephemeralKeys.signature.secretKey,
+    SignaturePurpose.INVITATION_PROOF
+  )
 
   // This signature will be shown to an existing team admin as proof that Bob knows the secret
   // invitation key.
@@ -1,6 +1,6 @@
 import { signatures } from '@localfirst/crypto'
 import { type Invitation, type InvitationState, type ProofOfInvitation } from 'invitation/types.js'
-import { memoize, VALID, type ValidationResult } from 'util/index.js'
+import { memoize, SignaturePurpose, VALID, type ValidationResult } from 'util/index.js'
 
 export const invitationCanBeUsed = (invitation: InvitationState, timeOfUse: number) => {
   const { revoked, maxUses, uses, expiration } = invitation
@@ -34,6 +34,7 @@ export const validate = memoize(
       payload: { id },
       signature,
       publicKey,
+      context: SignaturePurpose.INVITATION_PROOF,
     })
     if (!signatureIsValid) {
       return fail('Signature provided is not valid', { proof, invitation })
@@ -0,0 +1,46 @@
+import { createKeyset, type Keyset, type KeysetWithSecrets } from '@localfirst/crdx'
+import { base58, keyToBytes, secretSharing } from '@localfirst/crypto'
+import * as lockbox from 'lockbox/index.js'
+import { KeyType } from 'util/index.js'
+
+const { RECOVERY_SHARE } = KeyType
+
+/**
+ * Splits a member's seed into one share per trustee, any `threshold` of which can be used to
+ * recover it. Each share is put in a lockbox for that trustee.
+ *
+ * Lockboxes can only hold keysets, so each share is stored as the `secretKey` of a keyset scoped to
+ * `{ type: RECOVERY_SHARE, name: userId }`. The keyset's other keys aren't used.
+ */
+export const createShares = ({
+  userId,
+  seed,
+  threshold,
+  trusteeKeys,
+  generation,
+}: {
+  /** The member whose seed is being split */
+  userId: string
+  /** The seed that the member's user keys were generated from */
+  seed: string
+  /** The number of shares needed to recover the seed */
+  threshold: number
+  /** The public keys of each of the trustees */
+  trusteeKeys: Keyset[]
+  /** The generation of this set of shares */
+  generation: number
+}) => {
+  const shares = secretSharing.split(keyToBytes(seed, 'utf8'), {
+    shares: trusteeKeys.length,
+    threshold,
+  })
+
+  return trusteeKeys.map((recipientKeys, i) => {
+    const shareKeys: KeysetWithSecrets = {
+      ...createKeyset({ type: RECOVERY_SHARE, name: userId }),
+      generation,
+      secretKey: base58.encode(shares[i]),
+    }
+    return lockbox.create(shareKeys, recipientKeys)
+  })
+}
@@ -0,0 +1,3 @@
+export * from './createShares.js'
+export * from './recoverUser.js'
+export * from './types.js'
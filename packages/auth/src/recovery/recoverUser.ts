@@ -0,0 +1,45 @@
+import { createUser, type KeysetWithSecrets, type UserWithSecrets } from '@localfirst/crdx'
+import {
+  asymmetric,
+  keyToBytes,
+  secretSharing,
+  type Base58,
+  type Base58Keypair,
+} from '@localfirst/crypto'
+
+/**
+ * A trustee calls this to release their share of a member's seed. The share is sealed so that only
+ * the holder of the given public key can read it.
+ *
+ * The member trying to recover their keys has no keys that the team knows about, so they'll
+ * typically generate a temporary keypair with `asymmetric.keyPair()` and pass the public key to
+ * each trustee through a side channel. Trustees should make sure the request really comes from the
+ * member before releasing their share.
+ */
+export const releaseShare = (shareKeys: KeysetWithSecrets, recipientPublicKey: Base58) =>
+  asymmetric.seal({ secret: shareKeys.secretKey, recipientPublicKey })
+
+/**
+ * Once at least `threshold` trustees have released their shares, the member calls this to
+ * reassemble their seed and regenerate their user keys.
+ */
+export const recoverUser = ({
+  userId,
+  userName,
+  releasedShares,
+  recipientKeys,
+}: {
+  userId: string
+  userName: string
+  /** The shares released by the trustees using `releaseShare` */
+  releasedShares: Base58[]
+  /** The temporary keypair whose public key was given to the trustees */
+  recipientKeys: Base58Keypair
+}): UserWithSecrets => {
+  const shares = releasedShares.map(cipher => {
+    const share = asymmetric.unseal({ cipher, recipientKeys }) as Base58
+    return keyToBytes(share)
+  })
+  const seed = new TextDecoder().decode(secretSharing.combine(shares))
+  return createUser(userName, userId, seed)
+}
@@ -0,0 +1,11 @@
+/** Public record of how a member's recovery seed was split among their teammates */
+export type RecoveryConfig = {
+  /** The teammates that each hold one share */
+  trustees: string[]
+
+  /** The number of shares needed to recover the seed */
+  threshold: number
+
+  /** Incremented each time the member splits their seed again */
+  generation: number
+}
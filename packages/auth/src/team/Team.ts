@@ -1,4 +1,5 @@
 import type {
+  Hash,
   KeyMetadata,
   KeyScope,
   Keyring,
@@ -16,6 +17,7 @@ import {
   getLatestGeneration,
   isKeyset,
   redactKeys,
+  validate,
 } from '@localfirst/crdx'
 import { randomKey, signatures, symmetric, type Base58 } from '@localfirst/crypto'
 import * as identity from 'connection/identity.js'
@@ -34,16 +36,20 @@ import * as invitations from 'invitation/index.js'
 import { type ProofOfInvitation } from 'invitation/index.js'
 import { normalize } from 'invitation/normalize.js'
 import * as lockbox from 'lockbox/index.js'
+import * as recovery from 'recovery/index.js'
 import { ADMIN, type Role } from 'role/index.js'
 import { cast } from 'server/cast.js'
 import { type Host, type Server } from 'server/types.js'
-import { KeyType, VALID, assert, debug, scopesMatch } from 'util/index.js'
+import { KeyType, SignaturePurpose, VALID, assert, debug, scopesMatch } from 'util/index.js'
+import { getTeamChanges } from './changes.js'
+import { getEquivocations } from './equivocations.js'
+import { graphValidators } from './graphValidators.js'
 import { ADMIN_SCOPE, ALL, TEAM_SCOPE, initialState } from './constants.js'
 import { membershipResolver as resolver } from './membershipResolver.js'
 import { redactUser } from './redactUser.js'
 import { reducer } from './reducer.js'
 import * as select from './selectors/index.js'
-import { maybeDeserialize, serializeTeamGraph } from './serialize.js'
+import { maybeDeserialize, serializeTeamGraph, serializeTeamGraphBinary } from './serialize.js'
 import { isNewTeam } from './types.js'
 import type {
   EncryptedEnvelope,
@@ -123,23 +129,27 @@ export class Team extends EventEmitter {
       // Create CRDX store
       this.store = createStore({
         user,
+        context: { deviceId: getDeviceId(device) },
         reducer,
         resolver,
         initialState,
+        validators: graphValidators,
         rootPayload,
         keys: options.teamKeys,
       })
     } else {
       // Rehydrate a team from an existing graph
       const graph = maybeDeserialize(options.source, options.teamKeyring)
-      const { user } = this.context
+      const { device, user } = this.context
 
       // Create CRDX store
       this.store = createStore({
         user,
+        context: { deviceId: getDeviceId(device) },
         reducer,
         resolver,
         initialState,
+        validators: graphValidators,
         graph,
         keys: options.teamKeyring,
       })
@@ -207,14 +217,34 @@ export class Team extends EventEmitter {
   public save = () => serializeTeamGraph(this.graph)
 
   /**
-   * Merges another graph (e.g. from a peer) with ours.
+   * Returns the changes made to the team since the graph's head was `head`, in the order they were
+   * made; e.g. to tell the user what's new since they were last online.
+   */
+  public changesSince = (head: Hash[]) => getTeamChanges(this.graph, head)
+
+  /**
+   * Returns any links that a device created concurrently with another of its own links (see
+   * `getEquivocations`).
+   */
+  public equivocations = () => getEquivocations(this.graph)
+
+  /** Saves the team graph in a compact binary form. Both forms can be passed to `load`. */
+  public saveBinary = () => serializeTeamGraphBinary(this.graph)
+
+  /**
+   * Merges another graph (e.g. from a peer) with ours, and emits a `merged` event describing what
+   * changed (see `MergeReport`). Throws if their graph isn't valid (e.g. it redacts a team link).
    * @returns This `Team` instance.
    */
   public merge = (theirGraph: TeamGraph) => {
-    this.store.merge(theirGraph)
+    const validation = validate(theirGraph, graphValidators)
+    if (!validation.isValid) throw validation.error
+
+    const report = this.store.merge(theirGraph)
     this.state = this.store.getState()
 
     this.emit('updated', { head: this.graph.head })
+    this.emit('merged', report)
     return this
   }
 
@@ -754,6 +784,87 @@ export class Team extends EventEmitter {
 
   public hasServer = (host: Host) => select.hasServer(this.state, host)
 
+  /** ************** RECOVERY
+   *
+   * If a member loses all of their devices, their user keys are gone with them. To guard against
+   * this, a member can split the seed their user keys were generated from into shares, and give one
+   * share to each of several teammates (trustees). Any `threshold` of those trustees can then help
+   * the member recover their keys.
+   *
+   * Alice splits her seed among Bob, Charlie and Dwight, any two of whom can help her recover it:
+   *
+   * ```js
+   * alice.team.createRecoveryShares({ seed, trustees: ['bob', 'charlie', 'dwight'], threshold: 2 })
+   * ```
+   *
+   * Alice loses her laptop. On a new device, she generates a temporary keypair and sends the public
+   * key to Bob and Charlie through a side channel. Each of them releases their share to her:
+   *
+   * ```js
+   * const share = bob.team.releaseRecoveryShare('alice', temporaryKeys.publicKey)
+   * ```
+   *
+   * With two shares, Alice can regenerate her user keys using `recovery.recoverUser`.
+   */
+
+  /**
+   * Splits the seed that the current user's keys were generated from into one share per trustee,
+   * any `threshold` of which can be used to recover it. Each share is put in a lockbox for the
+   * corresponding trustee. Calling this again replaces any previous shares.
+   */
+  public createRecoveryShares = ({
+    seed,
+    trustees,
+    threshold,
+  }: {
+    /** The seed that was used to generate the current user's keys */
+    seed: string
+
+    /** The teammates who will each hold one share */
+    trustees: string[]
+
+    /** The number of trustees needed to recover the seed */
+    threshold: number
+  }) => {
+    const { userId } = this
+    assert(!this.isServer, "Server can't create recovery shares")
+    assert(new Set(trustees).size === trustees.length, 'Trustees must be unique')
+    assert(!trustees.includes(userId), "Can't be your own trustee")
+
+    // Make sure the seed will actually give us our keys back
+    const keys = createKeyset({ type: USER, name: userId }, seed)
+    assert(
+      keys.signature.publicKey === this.context.user.keys.signature.publicKey,
+      "The seed doesn't match the current user's keys"
+    )
+
+    const previous = this.state.recovery[userId]
+    const lockboxes = recovery.createShares({
+      userId,
+      seed,
+      threshold,
+      trusteeKeys: trustees.map(trusteeId => this.members(trusteeId).keys),
+      generation: previous ? previous.generation + 1 : 0,
+    })
+
+    this.dispatch({
+      type: 'ADD_RECOVERY_SHARES',
+      payload: { userId, trustees, threshold, lockboxes },
+    })
+  }
+
+  /** Returns the current recovery configuration for the given member, if they have one */
+  public recoveryConfig = (userId: string = this.userId) => this.state.recovery[userId]
+
+  /**
+   * A trustee calls this to release their share of a member's seed, sealed for the given public key.
+   * Make sure the request really comes from the member before doing this.
+   */
+  public releaseRecoveryShare = (userId: string, recipientPublicKey: Base58) => {
+    const shareKeys = this.keys({ type: KeyType.RECOVERY_SHARE, name: userId })
+    return recovery.releaseShare(shareKeys, recipientPublicKey)
+  }
+
   /** ************** CRYPTO */
 
   /**
@@ -792,7 +903,7 @@ export class Team extends EventEmitter {
 
     return {
       contents,
-      signature: signatures.sign(contents, secretKey),
+      signature: signatures.sign(contents, secretKey, SignaturePurpose.TEAM_MESSAGE),
       author: { type, name, generation },
     }
   }
@@ -803,6 +914,7 @@ export class Team extends EventEmitter {
       payload: message.contents,
       signature: message.signature,
       publicKey: this.members(message.author.name).keys.signature,
+      context: SignaturePurpose.TEAM_MESSAGE,
     })
 
   /** ************** KEYS
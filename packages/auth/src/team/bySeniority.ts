@@ -1,5 +1,5 @@
-import { isPredecessor } from '@localfirst/crdx'
-import { type TeamGraph, type TeamLink } from 'team/types.js'
+import { isPredecessor, queryLinks } from '@localfirst/crdx'
+import { type TeamGraph } from 'team/types.js'
 import assert from 'node:assert'
 
 export const bySeniority = (chain: TeamGraph) => (a: string, b: string) => {
@@ -13,9 +13,10 @@ export const bySeniority = (chain: TeamGraph) => (a: string, b: string) => {
   }
 
   const linkThatAddedMember = (userId: string) => {
-    const addedMember = (link: TeamLink) =>
-      link.body.type === 'ADD_MEMBER' && link.body.payload.member.userId === userId
-    const result = Object.values(chain.links).find(addedMember)
+    const [result] = queryLinks(chain, {
+      type: 'ADD_MEMBER',
+      where: link => link.body.payload.member.userId === userId,
+    })
     assert(result, `Could not find link that added member ${userId}`)
     return result
   }
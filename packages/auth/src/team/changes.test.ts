@@ -0,0 +1,66 @@
+import { type MergeReport } from '@localfirst/crdx'
+import { getTeamChanges } from 'team/index.js'
+import { setup } from 'util/testing/index.js'
+import { describe, expect, it } from 'vitest'
+
+describe('Team', () => {
+  describe('changes', () => {
+    it('lists the changes made since a given head', () => {
+      const { alice } = setup('alice', { user: 'bob', admin: false })
+      const { head } = alice.team.graph
+
+      alice.team.addRole('managers')
+      alice.team.addMemberRole('bob', 'managers')
+      alice.team.inviteMember()
+
+      const changes = alice.team.changesSince(head)
+      expect(changes.map(change => change.type)).toEqual([
+        'ADD_ROLE',
+        'ADD_MEMBER_ROLE',
+        'INVITE_MEMBER',
+      ])
+      expect(changes.map(change => change.description)).toEqual([
+        'alice created the role managers',
+        'alice added bob to the role managers',
+        'alice invited a new member',
+      ])
+      expect(changes[0].userId).toBe('alice')
+    })
+
+    it('lists the changes between two heads', () => {
+      const { alice } = setup('alice', 'bob')
+      const { graph } = alice.team
+      const changes = getTeamChanges(graph, [graph.root], graph.head)
+      expect(changes.map(change => change.description)).toEqual([
+        'alice added bob to the team as admin',
+        "alice added bob's device laptop",
+      ])
+
+      // only up to the point where Bob was added
+      const [addBob] = changes
+      const addBobOnly = getTeamChanges(graph, [graph.root], [addBob.hash])
+      expect(addBobOnly.map(change => change.type)).toEqual(['ADD_MEMBER'])
+    })
+
+    it('returns nothing if nothing has changed', () => {
+      const { alice } = setup('alice')
+      expect(alice.team.changesSince(alice.team.graph.head)).toEqual([])
+    })
+
+    it('emits a report when merging changes from a peer', () => {
+      const { alice, bob } = setup('alice', 'bob')
+      bob.team.addRole('managers')
+      bob.team.addMemberRole('alice', 'managers')
+
+      const reports: MergeReport[] = []
+      alice.team.on('merged', (report: MergeReport) => reports.push(report))
+      alice.team.merge(bob.team.graph)
+
+      expect(reports).toHaveLength(1)
+      const [{ added, isConcurrent, invalidated }] = reports
+      expect(added).toHaveLength(2)
+      expect(isConcurrent).toBe(false)
+      expect(invalidated).toEqual([])
+    })
+  })
+})
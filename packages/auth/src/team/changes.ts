@@ -0,0 +1,145 @@
+import { diff, type Hash, ROOT, type UnixTimestamp } from '@localfirst/crdx'
+import { type TeamAction, type TeamGraph, type TeamLink } from './types.js'
+
+/** A human-readable description of a change made to a team. */
+export type TeamChange = {
+  /** Hash of the link that made the change */
+  hash: Hash
+
+  /** The type of the action */
+  type: TeamAction['type']
+
+  /** The member who made the change */
+  userId: string
+
+  /** When the change was made, according to the device it was made on */
+  timestamp: UnixTimestamp
+
+  /** e.g. `alice added bob to the team` */
+  description: string
+}
+
+/**
+ * Returns the changes made to the team between two heads of its graph, in the order they were
+ * made. For example, if `fromHead` is the head of the graph when we were last online, this tells us
+ * what's new since then.
+ */
+export const getTeamChanges = (
+  graph: TeamGraph,
+  fromHead: Hash[],
+  toHead: Hash[] = graph.head
+): TeamChange[] =>
+  diff(graph, fromHead, toHead).map(link => {
+    const { type, userId, timestamp } = link.body
+    return { hash: link.hash, type, userId, timestamp, description: describeLink(link) }
+  })
+
+/** Returns a human-readable description of the change made by a link. */
+export const describeLink = (link: TeamLink) => {
+  const author = link.body.userId
+  const action = link.body as TeamAction
+  return `${author} ${describeAction(action)}`
+}
+
+// HELPERS
+
+const describeAction = (action: TeamAction): string => {
+  switch (action.type) {
+    case ROOT: {
+      return `created the team "${action.payload.name}"`
+    }
+
+    case 'ADD_MEMBER': {
+      const { member, roles = [] } = action.payload
+      const asRoles = roles.length > 0 ? ` as ${roles.join(', ')}` : ''
+      return `added ${member.userId} to the team${asRoles}`
+    }
+
+    case 'REMOVE_MEMBER': {
+      return `removed ${action.payload.userId} from the team`
+    }
+
+    case 'ADD_ROLE': {
+      return `created the role ${action.payload.roleName}`
+    }
+
+    case 'REMOVE_ROLE': {
+      return `removed the role ${action.payload.roleName}`
+    }
+
+    case 'ADD_MEMBER_ROLE': {
+      const { userId, roleName } = action.payload
+      return `added ${userId} to the role ${roleName}`
+    }
+
+    case 'REMOVE_MEMBER_ROLE': {
+      const { userId, roleName } = action.payload
+      return `removed ${userId} from the role ${roleName}`
+    }
+
+    case 'ADD_DEVICE': {
+      const { userId, deviceName } = action.payload.device
+      return `added ${userId}'s device ${deviceName}`
+    }
+
+    case 'REMOVE_DEVICE': {
+      const { userId, deviceName } = action.payload
+      return `removed ${userId}'s device ${deviceName}`
+    }
+
+    case 'INVITE_MEMBER': {
+      return 'invited a new member'
+    }
+
+    case 'INVITE_DEVICE': {
+      return 'invited a new device'
+    }
+
+    case 'REVOKE_INVITATION': {
+      return 'revoked an invitation'
+    }
+
+    case 'ADMIT_MEMBER': {
+      const { userName, memberKeys } = action.payload
+      return `admitted ${userName ?? memberKeys.name} to the team`
+    }
+
+    case 'ADMIT_DEVICE': {
+      const { userId, deviceName } = action.payload
+      return `admitted ${userId}'s device ${deviceName}`
+    }
+
+    case 'CHANGE_MEMBER_KEYS': {
+      return 'changed their keys'
+    }
+
+    case 'CHANGE_DEVICE_KEYS': {
+      return `changed the keys for the device ${action.payload.keys.name}`
+    }
+
+    case 'ROTATE_KEYS': {
+      return `rotated the keys that ${action.payload.userId} had access to`
+    }
+
+    case 'ADD_SERVER': {
+      return `added the server ${action.payload.server.host}`
+    }
+
+    case 'REMOVE_SERVER': {
+      return `removed the server ${action.payload.host}`
+    }
+
+    case 'CHANGE_SERVER_KEYS': {
+      return `changed the keys for the server ${action.payload.keys.name}`
+    }
+
+    case 'ADD_RECOVERY_SHARES': {
+      const { userId, trustees, threshold } = action.payload
+      return `set up account recovery for ${userId}, with ${threshold} of ${trustees.length} trustees`
+    }
+
+    default: {
+      return `made a change (${(action as { type: string }).type})`
+    }
+  }
+}
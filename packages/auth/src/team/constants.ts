@@ -13,6 +13,7 @@ export const initialState: TeamState = {
   roles: [],
   lockboxes: [],
   invitations: {},
+  recovery: {},
   removedMembers: [],
   removedDevices: [],
   removedServers: [],
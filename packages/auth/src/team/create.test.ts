@@ -18,6 +18,16 @@ describe('Team', () => {
       expect(restoredTeam.teamName).toBe('Spies Я Us')
     })
 
+    it('saves & loads in binary form', () => {
+      const { alice } = setup('alice', 'bob')
+      const savedChain = alice.team.saveBinary()
+      const savedKeys = alice.team.teamKeyring()
+
+      const restoredTeam = load(savedChain, alice.localContext, savedKeys)
+      expect(restoredTeam.teamName).toBe('Spies Я Us')
+      expect(restoredTeam.has('bob')).toBe(true)
+    })
+
     it('deserializes a team after key rotations', () => {
       const { alice } = setup('alice', 'bob')
 
@@ -1,5 +1,7 @@
 import { describe, expect, it } from 'vitest'
+import * as identity from 'connection/identity.js'
 import { ADMIN } from 'role/index.js'
+import { KeyType } from 'util/index.js'
 import { setup } from 'util/testing/index.js'
 
 describe('Team', () => {
@@ -49,6 +51,24 @@ describe('Team', () => {
         expect(signed.author.name).toBe('bob')
         expect(alice.team.verify(signed)).toBe(true)
       })
+
+      it('rejects a signature that was made for another purpose', () => {
+        const { alice, bob } = setup('alice', { user: 'bob', admin: true })
+
+        // 🦹‍♀️ Eve gets hold of a challenge that Bob signed to prove his identity
+        const challenge = identity.challenge({ type: KeyType.DEVICE, name: bob.deviceId })
+        const proof = identity.prove(challenge, bob.user.keys)
+
+        // 🦹‍♀️ She tries to pass it off as a message from Bob
+        const forged = {
+          contents: challenge,
+          signature: proof,
+          author: { type: KeyType.USER, name: 'bob', generation: 0 },
+        }
+
+        // 👩🏾 ❌ Alice is not fooled
+        expect(alice.team.verify(forged)).toBe(false)
+      })
     })
   })
 })
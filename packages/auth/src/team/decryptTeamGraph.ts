@@ -1,21 +1,15 @@
 import {
-  type Hash,
-  createKeyring,
-  decryptLink,
+  decryptGraph,
+  type DecryptProgress,
   type Keyring,
   type KeysetWithSecrets,
   type MaybePartlyDecryptedGraph,
 } from '@localfirst/crdx'
-import { initialState, TEAM_SCOPE } from './constants.js'
-import { reducer } from './reducer.js'
-import { keys } from './selectors/index.js'
-import {
-  type TeamAction,
-  type TeamContext,
-  type TeamGraph,
-  type TeamLink,
-  type TeamState,
-} from './types.js'
+import { initialState } from './constants.js'
+import { visibleKeys } from './selectors/index.js'
+import { type TeamAction, type TeamContext, type TeamGraph, type TeamLink } from './types.js'
+import { type Lockbox } from 'lockbox/index.js'
+import { KeyType } from 'util/index.js'
 
 /**
  * Decrypts a graph.
@@ -23,14 +17,15 @@ import {
  * This is a team-specific version of `decryptGraph` from crdx. When we're communicating with a
  * peer, we can't just use a single set of team keys to decrypt everything, because there might be
  * key rotations in links that we receive that we will need to decrypt subsequent links. When that
- * happens, each team member gets the new keys in a lockbox that's stored on the chain. So we need
- * to recurse through the chain, updating the keys if necessary before continuing to decrypt
- * further.
+ * happens, each team member gets the new keys in a lockbox that's stored on the chain. Since links
+ * are decrypted in topological order, we collect lockboxes as we go, and add any team keys we can
+ * get to with our device keys to the keyring before continuing to decrypt further.
  */
 export const decryptTeamGraph = ({
   encryptedGraph,
   teamKeys,
   deviceKeys,
+  onProgress,
 }: {
   encryptedGraph: MaybePartlyDecryptedGraph<TeamAction, TeamContext>
 
@@ -45,59 +40,27 @@ export const decryptTeamGraph = ({
    * rotated.
    */
   deviceKeys: KeysetWithSecrets
-}): TeamGraph => {
-  const keyring = createKeyring(teamKeys)
-
-  const { encryptedLinks, childMap, root } = encryptedGraph
-  const links = encryptedGraph.links ?? {}
-
-  /** Recursively decrypts a link and its children. */
-  const decrypt = (
-    hash: Hash,
-    previousKeys: KeysetWithSecrets,
-    previousDecryptedLinks: Record<Hash, TeamLink> = {},
-    previousState: TeamState = initialState
-  ): Record<Hash, TeamLink> => {
-    // Decrypt this link
-    const encryptedLink = encryptedLinks[hash]!
-    const decryptedLink =
-      links[hash] ?? // If it's already decrypted, don't bother decrypting it again
-      decryptLink<TeamAction, TeamContext>(encryptedLink, previousKeys)
-    let decryptedLinks = {
-      [hash]: decryptedLink,
-    }
 
-    // Reduce & see if there are new team keys
-    const newState = reducer(previousState, decryptedLink)
-    let newKeys: KeysetWithSecrets | undefined
-    try {
-      newKeys = keys(newState, deviceKeys, TEAM_SCOPE)
-      keyring[newKeys.encryption.publicKey] = newKeys
-    } catch {
-      newKeys = previousKeys
-    }
-
-    // Decrypt its children
-    const children = childMap![hash]
+  /** (optional) Called after each link is decrypted, to report progress on large graphs. */
+  onProgress?: (progress: DecryptProgress) => void
+}): TeamGraph => {
+  const lockboxes: Lockbox[] = []
 
-    if (children) {
-      for (const hash of children) {
-        decryptedLinks = {
-          ...decryptedLinks,
-          ...decrypt(hash, newKeys, decryptedLinks, newState),
-        }
-      }
-    }
+  /** If this link has new lockboxes, returns any team keys that they give us access to. */
+  const onDecrypt = (link: TeamLink) => {
+    const { payload } = link.body
+    const newLockboxes = (payload as { lockboxes?: Lockbox[] } | undefined)?.lockboxes
+    if (!newLockboxes?.length) return
 
-    return { ...previousDecryptedLinks, ...decryptedLinks }
+    lockboxes.push(...newLockboxes)
+    const state = { ...initialState, lockboxes }
+    return visibleKeys(state, deviceKeys).filter(({ type }) => type === KeyType.TEAM)
   }
 
-  const rootPublicKey = encryptedLinks[root]!.recipientPublicKey
-  const rootKeys = keyring[rootPublicKey]
-  const decryptedLinks = decrypt(root, rootKeys)
-
-  return {
-    ...encryptedGraph,
-    links: decryptedLinks,
-  }
+  return decryptGraph<TeamAction, TeamContext>({
+    encryptedGraph,
+    keys: teamKeys,
+    onDecrypt,
+    onProgress,
+  })
 }
@@ -0,0 +1,60 @@
+import { append } from '@localfirst/crdx'
+import { getDeviceId } from 'device/index.js'
+import { load } from 'team/index.js'
+import { setup } from 'util/testing/index.js'
+import { describe, expect, it } from 'vitest'
+
+describe('Team', () => {
+  describe('equivocations', () => {
+    it('records the device that created each link', () => {
+      const { alice } = setup('alice')
+      alice.team.addRole('managers')
+      const [head] = alice.team.graph.head
+      expect(alice.team.graph.links[head].body.deviceId).toBe(getDeviceId(alice.device))
+    })
+
+    it('allows a member to make concurrent changes from different devices', () => {
+      const { alice, bob } = setup('alice', 'bob')
+      alice.team.addRole('managers')
+      bob.team.addRole('cooks')
+      alice.team.merge(bob.team.graph)
+      expect(alice.team.equivocations()).toEqual([])
+    })
+
+    it('detects a device that forks its own history', () => {
+      const { alice, bob } = setup('alice', 'bob')
+
+      // 🦹‍♀️ Alice's device makes two contradictory changes, each on its own copy of the team
+      const fork = load(alice.team.save(), alice.localContext, alice.team.teamKeys())
+      alice.team.addRole('managers')
+      fork.addRole('cooks')
+
+      // 👨🏻‍🦲 Bob receives both
+      bob.team.merge(alice.team.graph)
+      bob.team.merge(fork.graph)
+
+      const [equivocation] = bob.team.equivocations()
+      expect(equivocation.author).toBe(getDeviceId(alice.device))
+      expect(equivocation.hashes).toHaveLength(2)
+      expect(equivocation.hashes).toEqual(
+        expect.arrayContaining([...alice.team.graph.head, ...fork.graph.head])
+      )
+    })
+
+    it("doesn't let a device record another member's device as the one that created a link", () => {
+      const { alice, bob } = setup('alice', 'bob')
+
+      // 🦹‍♀️ Alice's device makes a change, claiming that Bob's device made it
+      const graph = append({
+        graph: alice.team.graph,
+        action: { type: 'ADD_ROLE', payload: { roleName: 'cooks' } },
+        user: alice.user,
+        context: { deviceId: getDeviceId(bob.device) },
+        keys: alice.team.teamKeys(),
+      })
+
+      // 👨🏻‍🦲 ❌ Bob doesn't accept it
+      expect(() => bob.team.merge(graph)).toThrow("doesn't belong to 'alice'")
+    })
+  })
+})
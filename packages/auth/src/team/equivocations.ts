@@ -0,0 +1,18 @@
+import { findEquivocations, type GetAuthor } from '@localfirst/crdx'
+import { type TeamAction, type TeamContext, type TeamGraph } from './types.js'
+
+/**
+ * Each link in the team graph records the device that created it. A member can have several
+ * devices, and can legitimately make concurrent changes from different devices; but a single
+ * device should never create concurrent links. (Links created before devices were recorded are
+ * ignored.) The team's validators make sure that the device recorded on each link belongs to its
+ * author, so a device can't hide a fork by recording a different device on each branch.
+ */
+export const byDevice: GetAuthor<TeamAction, TeamContext> = link => link.body.deviceId
+
+/**
+ * Returns the links in the team graph that were created by a device concurrently with another of
+ * its own links, grouped by device. This means that the device has forked its own history, which
+ * could be a sign that it has been compromised.
+ */
+export const getEquivocations = (graph: TeamGraph) => findEquivocations(graph, byDevice)
@@ -0,0 +1,18 @@
+import { fail, isRedaction, VALID, type ValidatorSet } from '@localfirst/crdx'
+
+/**
+ * Validators for the team graph, in addition to the ones built into crdx (which check hashes,
+ * signatures, timestamps, etc.).
+ */
+export const graphValidators: ValidatorSet = {
+  /**
+   * Team links carry lockboxes that later members need in order to get the team's keys, and record
+   * changes to membership, roles and keys; erasing one would quietly rewrite the team's history. So
+   * for now, team links can't be redacted. (This replaces crdx's default `validateRedactor`, which
+   * lets authors redact their own links.)
+   */
+  validateRedactor(link) {
+    if (!isRedaction(link)) return VALID
+    return fail(`Team links can't be redacted.`, { link })
+  },
+}
@@ -1,7 +1,9 @@
 export * from './Team.js'
+export * from './changes.js'
 export * from './constants.js'
 export * from './createTeam.js'
 export * from './decryptTeamGraph.js'
+export * from './equivocations.js'
 export * from './getUserKeysForDeviceFromGraph.js'
 export * from './isAdminOnlyAction.js'
 export * from './load.js'
@@ -10,6 +10,7 @@ export const isAdminOnlyAction = (action: TeamLinkBody) => {
     'CHANGE_SERVER_KEYS',
     'ADMIT_MEMBER',
     'ADMIT_DEVICE',
+    'ADD_RECOVERY_SHARES',
   ]
 
   return !nonAdminActions.includes(action.type)
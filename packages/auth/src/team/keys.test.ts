@@ -2,8 +2,16 @@ import { getDeviceId } from 'device/index.js'
 import { ADMIN } from 'role/index.js'
 import { KeyType } from 'util/index.js'
 import { setup } from 'util/testing/index.js'
+import { type TeamContext, type TeamGraph } from 'team/index.js'
 import 'util/testing/expect/toLookLikeKeyset.js'
-import { createKeyset, redactKeys } from '@localfirst/crdx'
+import {
+  append,
+  applyRedactions,
+  createKeyset,
+  createRedactAction,
+  type Graph,
+  redactKeys,
+} from '@localfirst/crdx'
 import { describe, expect, it } from 'vitest'
 
 const { USER, DEVICE } = KeyType
@@ -175,5 +183,28 @@ describe('Team', () => {
 
       expect(tryToChangeBobsKeys).toThrow()
     })
+
+    it("a link that rotates keys can't be redacted", () => {
+      const { alice, bob } = setup('alice', 'bob')
+
+      // 👩🏾 Alice rotates her keys
+      // @ts-expect-error - rotateKeys is private
+      const lockboxes = alice.team.rotateKeys({ type: USER, name: 'alice' })
+      alice.team.dispatch({ type: 'ROTATE_KEYS', payload: { userId: 'alice', lockboxes } })
+      const link = alice.team.graph.links[alice.team.graph.head[0]]
+
+      // 👩🏾 then tries to erase that link, with the lockboxes it carries
+      const graph = append({
+        graph: alice.team.graph as Graph<any, TeamContext>,
+        action: createRedactAction(link),
+        user: alice.user,
+        context: alice.graphContext,
+        keys: alice.team.teamKeys(),
+      })
+      const redactedGraph = applyRedactions(graph) as TeamGraph
+
+      // 👨🏻‍🦲 ❌ Bob doesn't accept it
+      expect(() => bob.team.merge(redactedGraph)).toThrow("Team links can't be redacted")
+    })
   })
 })
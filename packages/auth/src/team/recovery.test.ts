@@ -0,0 +1,115 @@
+import { asymmetric } from '@localfirst/crypto'
+import { recoverUser } from 'recovery/index.js'
+import { setup } from 'util/testing/index.js'
+import { describe, expect, it } from 'vitest'
+
+describe('Team', () => {
+  describe('recovery', () => {
+    const setupTrustees = () => {
+      const { alice, bob, charlie, dwight } = setup('alice', 'bob', 'charlie', {
+        user: 'dwight',
+        admin: false,
+      })
+
+      // In tests, each user's keys are generated from their userId
+      alice.team.createRecoveryShares({
+        seed: 'alice',
+        trustees: ['bob', 'charlie', 'dwight'],
+        threshold: 2,
+      })
+      for (const trustee of [bob, charlie, dwight]) trustee.team.merge(alice.team.graph)
+
+      return { alice, bob, charlie, dwight }
+    }
+
+    it('records who holds the shares', () => {
+      const { alice, bob } = setupTrustees()
+      expect(bob.team.recoveryConfig('alice')).toEqual({
+        trustees: ['bob', 'charlie', 'dwight'],
+        threshold: 2,
+        generation: 0,
+      })
+      expect(alice.team.recoveryConfig()?.threshold).toBe(2)
+    })
+
+    it('Alice can recover her keys with shares from two trustees', () => {
+      const { alice, bob, dwight } = setupTrustees()
+
+      // Alice has lost her devices; on a new device she makes a temporary keypair
+      const temporaryKeys = asymmetric.keyPair()
+
+      // Bob and Dwight release their shares to her
+      const releasedShares = [bob, dwight].map(({ team }) =>
+        team.releaseRecoveryShare('alice', temporaryKeys.publicKey)
+      )
+
+      const recovered = recoverUser({
+        userId: 'alice',
+        userName: alice.user.userName,
+        releasedShares,
+        recipientKeys: temporaryKeys,
+      })
+      expect(recovered).toEqual(alice.user)
+    })
+
+    it('one share is not enough', () => {
+      const { alice, bob } = setupTrustees()
+      const temporaryKeys = asymmetric.keyPair()
+      const releasedShares = [bob.team.releaseRecoveryShare('alice', temporaryKeys.publicKey)]
+
+      const recovered = recoverUser({
+        userId: 'alice',
+        userName: alice.user.userName,
+        releasedShares,
+        recipientKeys: temporaryKeys,
+      })
+      expect(recovered.keys).not.toEqual(alice.user.keys)
+    })
+
+    it('non-trustees do not get a share', () => {
+      const { alice } = setupTrustees()
+      const temporaryKeys = asymmetric.keyPair()
+      expect(() => alice.team.releaseRecoveryShare('alice', temporaryKeys.publicKey)).toThrow()
+    })
+
+    it('splitting again replaces the previous shares', () => {
+      const { alice, bob } = setupTrustees()
+      alice.team.createRecoveryShares({ seed: 'alice', trustees: ['bob'], threshold: 1 })
+      bob.team.merge(alice.team.graph)
+      expect(bob.team.recoveryConfig('alice')?.generation).toBe(1)
+
+      const temporaryKeys = asymmetric.keyPair()
+      const recovered = recoverUser({
+        userId: 'alice',
+        userName: alice.user.userName,
+        releasedShares: [bob.team.releaseRecoveryShare('alice', temporaryKeys.publicKey)],
+        recipientKeys: temporaryKeys,
+      })
+      expect(recovered).toEqual(alice.user)
+    })
+
+    it('rejects a seed that does not match the current keys', () => {
+      const { alice } = setup('alice', 'bob')
+      const split = () =>
+        alice.team.createRecoveryShares({ seed: 'not alice', trustees: ['bob'], threshold: 1 })
+      expect(split).toThrow("The seed doesn't match")
+    })
+
+    it('removing a trustee does not rotate the shares', () => {
+      const { alice, bob, dwight } = setupTrustees()
+      alice.team.remove('charlie')
+      for (const trustee of [bob, dwight]) trustee.team.merge(alice.team.graph)
+
+      const temporaryKeys = asymmetric.keyPair()
+      const recovered = recoverUser({
+        userId: 'alice',
+        userName: alice.user.userName,
+        releasedShares: [bob, dwight].map(({ team }) =>
+          team.releaseRecoveryShare('alice', temporaryKeys.publicKey)
+        ),
+        recipientKeys: temporaryKeys,
+      })
+      expect(recovered).toEqual(alice.user)
+    })
+  })
+})
@@ -19,6 +19,7 @@ import {
   removeServer,
   revokeInvitation,
   rotateKeys,
+  setRecoveryConfig,
   setTeamName,
   useInvitation,
 } from './transforms/index.js'
@@ -248,6 +249,13 @@ const getTransforms = (action: TeamAction): Transform[] => {
       ]
     }
 
+    case 'ADD_RECOVERY_SHARES': {
+      const { userId, trustees, threshold } = action.payload
+      return [
+        setRecoveryConfig(userId, { trustees, threshold }), // Record who holds this member's shares
+      ]
+    }
+
     default: {
       throw unrecognizedLinkType(action)
     }
@@ -1,11 +1,14 @@
 import { type KeyScope } from '@localfirst/crdx'
 import { type TeamState } from 'team/types.js'
+import { KeyType } from 'util/types.js'
 import { unique } from 'util/unique.js'
 
 export const visibleScopes = (state: TeamState, { type, name }: KeyScope): KeyScope[] => {
   // Find the keys that the given key can see
   const scopes = state.lockboxes
     .filter(({ recipient }) => recipient.type === type && recipient.name === name)
+    // Recovery shares are pieces of a member's seed, not keys that could be rotated
+    .filter(({ contents }) => contents.type !== KeyType.RECOVERY_SHARE)
     .map(({ contents: { type, name } }) => ({ type, name }) as KeyScope)
 
   // Recursively find all the keys that _those_ keys can see
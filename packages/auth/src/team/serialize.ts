@@ -1,7 +1,8 @@
 import {
+  decodeGraph,
   decryptGraph,
+  encodeGraph,
   getChildMap,
-  type EncryptedGraph,
   type Keyring,
   type LinkMap,
 } from '@localfirst/crdx'
@@ -10,22 +11,32 @@ import { type TeamGraph } from './types.js'
 export const EMPTY: LinkMap = {}
 
 export const serializeTeamGraph = (graph: TeamGraph): string => {
-  const childMap = getChildMap(graph)
-
-  // Leave out the unencrypted `links` element
-  const { encryptedLinks, head, root } = graph
-  const encryptedGraph = { encryptedLinks, childMap, head, root }
-
-  const serialized = JSON.stringify(encryptedGraph)
+  const serialized = JSON.stringify(redactTeamGraph(graph))
   return serialized
 }
 
-export const deserializeTeamGraph = (serialized: string, keys: Keyring): TeamGraph => {
-  const encryptedGraph = JSON.parse(serialized) as EncryptedGraph
+/** Serializes the team graph in crdx's compact binary format */
+export const serializeTeamGraphBinary = (graph: TeamGraph): Uint8Array =>
+  encodeGraph(redactTeamGraph(graph))
+
+/** Deserializes a team graph serialized as JSON or in binary form */
+export const deserializeTeamGraph = (serialized: string | Uint8Array, keys: Keyring): TeamGraph => {
+  const encryptedGraph = decodeGraph(serialized)
   return decryptGraph({ encryptedGraph, keys })
 }
 
-export const maybeDeserialize = (source: string | TeamGraph, teamKeyring: Keyring): TeamGraph =>
-  isGraph(source) ? source : deserializeTeamGraph(source, teamKeyring)
+export const maybeDeserialize = (
+  source: string | Uint8Array | TeamGraph,
+  teamKeyring: Keyring
+): TeamGraph => (isGraph(source) ? source : deserializeTeamGraph(source, teamKeyring))
 
-const isGraph = (source: string | TeamGraph): source is TeamGraph => source?.hasOwnProperty('root')
+const isGraph = (source: string | Uint8Array | TeamGraph): source is TeamGraph =>
+  source?.hasOwnProperty('root')
+
+const redactTeamGraph = (graph: TeamGraph) => {
+  const childMap = getChildMap(graph)
+
+  // Leave out the unencrypted `links` element
+  const { encryptedLinks, head, root } = graph
+  return { encryptedLinks, childMap, head, root }
+}
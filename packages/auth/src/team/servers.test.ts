@@ -220,12 +220,14 @@ const connectionPromise = async (a: Connection, b: Connection) => {
   // ✅ They're both connected
   await all(connections, 'connected')
 
-  const sharedKey = connections[0].sessionKey
-  for (const connection of connections) {
-    expect(connection.state).toEqual('connected')
-    // ✅ They've converged on a shared secret key
-    expect(connection.sessionKey).toEqual(sharedKey)
-  }
+  for (const connection of connections) expect(connection.state).toEqual('connected')
+
+  // ✅ They've converged on a pair of session keys: what one sends with, the other receives with
+  const [ours, theirs] = connections.map(c => c.sessionKeys)
+  expect(ours).toBeDefined()
+  expect(ours?.transmitKey).toEqual(theirs?.receiveKey)
+  expect(ours?.receiveKey).toEqual(theirs?.transmitKey)
+  expect(ours?.transmitKey).not.toEqual(ours?.receiveKey)
 }
 
 const connectWithServer = async (user: UserStuff, server: ServerStuff) => {
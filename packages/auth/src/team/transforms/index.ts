@@ -15,5 +15,6 @@ export * from './removeRole.js'
 export * from './removeServer.js'
 export * from './revokeInvitation.js'
 export * from './rotateKeys.js'
+export * from './setRecoveryConfig.js'
 export * from './setTeamName.js'
 export * from './useInvitation.js'
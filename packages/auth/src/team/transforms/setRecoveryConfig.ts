@@ -0,0 +1,15 @@
+import { type Transform } from 'team/types.js'
+
+export const setRecoveryConfig =
+  (userId: string, { trustees, threshold }: { trustees: string[]; threshold: number }): Transform =>
+  state => {
+    const previous = state.recovery[userId]
+    const generation = previous ? previous.generation + 1 : 0
+    return {
+      ...state,
+      recovery: {
+        ...state.recovery,
+        [userId]: { trustees, threshold, generation },
+      },
+    }
+  }
@@ -16,6 +16,7 @@ import type { Client, LocalContext } from 'context/index.js'
 import type { Device } from 'device/index.js'
 import type { Invitation, InvitationState } from 'invitation/types.js'
 import type { Lockbox } from 'lockbox/index.js'
+import type { RecoveryConfig } from 'recovery/index.js'
 import type { PermissionsMap, Role } from 'role/index.js'
 import type { Host, Server } from 'server/index.js'
 import type { ValidationResult } from 'util/index.js'
@@ -62,7 +63,7 @@ export type NewTeamOptions = {
 export type ExistingTeamOptions = {
   /** The `TeamGraph` representing the team's state, to be rehydrated.
    *  Can be serialized or not. */
-  source: string | TeamGraph
+  source: string | Uint8Array | TeamGraph
 
   /** The team keys need to be provided for encryption and decryption. It's up to the application to persist these somewhere.  */
   teamKeyring: Keyring
@@ -243,6 +244,15 @@ export type ChangeServerKeysAction = {
   }
 }
 
+export type AddRecoverySharesAction = {
+  type: 'ADD_RECOVERY_SHARES'
+  payload: BasePayload & {
+    userId: string
+    trustees: string[]
+    threshold: number
+  }
+}
+
 export type TeamAction =
   | RootAction
   | AddMemberAction
@@ -264,6 +274,7 @@ export type TeamAction =
   | AddServerAction
   | RemoveServerAction
   | ChangeServerKeysAction
+  | AddRecoverySharesAction
 
 export type TeamContext = {
   deviceId: string
@@ -295,6 +306,9 @@ export type TeamState = {
   lockboxes: Lockbox[]
   invitations: InvitationMap
 
+  // For each member who has split their seed among teammates, who holds the shares
+  recovery: Record<string, RecoveryConfig>
+
   // We keep track of removed members and devices primarily so that we deliver the correct message
   // to them when we refuse to connect
   removedMembers: Member[]
@@ -8,7 +8,7 @@ import {
   type TeamStateValidatorSet,
   type ValidationArgs,
 } from './types.js'
-import { parseDeviceId } from 'device/index.js'
+import { getDeviceId, parseDeviceId } from 'device/index.js'
 import { invitationCanBeUsed } from 'invitation/index.js'
 import { actionFingerprint, debug, truncateHashes, VALID, ValidationError } from 'util/index.js'
 
@@ -48,6 +48,42 @@ const validators: TeamStateValidatorSet = {
     return VALID
   },
 
+  /**
+   * The device that created this link belongs to its author. (Otherwise a device could fork its
+   * history without being caught, by recording a different device on each branch; see
+   * `getEquivocations`.)
+   */
+  mustBeAuthorsDevice(...args) {
+    const [previousState, link] = args
+    const { type, userId, deviceId } = link.body
+
+    // At root link, team doesn't yet have members; and links created before devices were recorded
+    // don't say which device created them
+    if (type === ROOT || deviceId === undefined) {
+      return VALID
+    }
+
+    // A server is its own device
+    if (select.hasServer(previousState, userId) && deviceId === userId) {
+      return VALID
+    }
+
+    // A new device adds itself to the team
+    if (link.body.type === 'ADD_DEVICE') {
+      const { device } = link.body.payload
+      if (device.userId === userId && getDeviceId(device) === deviceId) {
+        return VALID
+      }
+    }
+
+    const { userId: owner, deviceName } = parseDeviceId(deviceId)
+    if (owner !== userId || !select.hasDevice(previousState, userId, deviceName)) {
+      return fail(`Device '${deviceId}' doesn't belong to '${userId}'`, ...args)
+    }
+
+    return VALID
+  },
+
   // TODO: the public key that this is encrypted with should be the author's public encryption key at that time.
   // signatureKeyIsCorrect: (...args) => {
   //   const [prevState, link] = args
@@ -89,6 +125,19 @@ const validators: TeamStateValidatorSet = {
     return VALID
   },
 
+  canOnlySplitYourOwnSeed(...args) {
+    const [, link] = args
+    if (link.body.type === 'ADD_RECOVERY_SHARES') {
+      const author = link.body.userId
+      const target = link.body.payload.userId
+      if (author !== target) {
+        return fail("Can't create recovery shares for another user.", ...args)
+      }
+    }
+
+    return VALID
+  },
+
   // Check for ADMIT with invitations that are revoked OR have been used more than maxUses OR are expired
   cantAdmitWithInvalidInvitation(...args) {
     const [previousState, link] = args
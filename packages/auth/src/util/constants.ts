@@ -21,4 +21,18 @@ export const HashPurpose = {
   SHARED_KEY,
 } as const
 
+export const IDENTITY_PROOF = 'IDENTITY_PROOF'
+export const INVITATION_PROOF = 'INVITATION_PROOF'
+export const KEY_EXCHANGE = 'KEY_EXCHANGE'
+export const TEAM_MESSAGE = 'TEAM_MESSAGE'
+
+/** Signatures made for different purposes are bound to a distinct context, so that a signature
+ * made for one purpose can't be passed off as another */
+export const SignaturePurpose = {
+  IDENTITY_PROOF,
+  INVITATION_PROOF,
+  KEY_EXCHANGE,
+  TEAM_MESSAGE,
+} as const
+
 export const VALID: ValidationResult = { isValid: true }
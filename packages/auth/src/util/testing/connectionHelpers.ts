@@ -7,21 +7,21 @@ import {
 import type { EventEmitter } from 'eventemitter3'
 import { expect } from 'vitest'
 import { TestChannel } from './TestChannel.js'
-import { joinTestChannel } from './joinTestChannel.js'
+import { joinTestChannel, type SyncParams } from './joinTestChannel.js'
 import { type UserStuff } from './setup.js'
 
 // HELPERS
 
-export const tryToConnect = async (a: UserStuff, b: UserStuff) => {
-  const join = joinTestChannel(new TestChannel())
+export const tryToConnect = async (a: UserStuff, b: UserStuff, syncParams?: SyncParams) => {
+  const join = joinTestChannel(new TestChannel(), syncParams)
 
   a.connection[b.deviceId] = join(a.connectionContext).start()
   b.connection[a.deviceId] = join(b.connectionContext).start()
 }
 
 /** Connects the two members and waits for them to be connected */
-export const connect = async (a: UserStuff, b: UserStuff) => {
-  void tryToConnect(a, b)
+export const connect = async (a: UserStuff, b: UserStuff, syncParams?: SyncParams) => {
+  void tryToConnect(a, b, syncParams)
   await connection(a, b)
 }
 
@@ -84,12 +84,14 @@ export const connection = async (a: UserStuff, b: UserStuff) => {
   // ✅ They're both connected
   await all(connections, 'connected')
 
-  const sharedKey = connections[0].sessionKey
-  for (const connection of connections) {
-    expect(connection.state).toEqual('connected')
-    // ✅ They've converged on a shared secret key
-    expect(connection.sessionKey).toEqual(sharedKey)
-  }
+  for (const connection of connections) expect(connection.state).toEqual('connected')
+
+  // ✅ They've converged on a pair of session keys: what one sends with, the other receives with
+  const [ours, theirs] = connections.map(c => c.sessionKeys)
+  expect(ours).toBeDefined()
+  expect(ours?.transmitKey).toEqual(theirs?.receiveKey)
+  expect(ours?.receiveKey).toEqual(theirs?.transmitKey)
+  expect(ours?.transmitKey).not.toEqual(ours?.receiveKey)
 }
 
 export const updated = async (a: UserStuff, b: UserStuff) => {
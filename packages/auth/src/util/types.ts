@@ -10,6 +10,7 @@ export const KeyType = {
   DEVICE: 'DEVICE',
   SERVER: 'SERVER',
   EPHEMERAL: 'EPHEMERAL',
+  RECOVERY_SHARE: 'RECOVERY_SHARE',
 } as const
 export type KeyType = (typeof KeyType)[keyof typeof KeyType]
 
@@ -1,9 +1,21 @@
+import process from 'node:process'
+import { asymmetric } from '@localfirst/crypto'
 import { TEST_GRAPH_KEYS } from '_test/helpers/setup.js'
 import { describe, expect, it } from 'vitest'
-import { append, createGraph, decryptGraph, decryptLink, redactGraph } from 'graph/index.js'
+import {
+  append,
+  createGraph,
+  decryptGraph,
+  decryptLink,
+  redactGraph,
+  type EncryptedGraph,
+  type EncryptedLink,
+  type LinkMap,
+} from 'graph/index.js'
+import { hashEncryptedLink } from 'graph/hashLink.js'
 import { createKeyset } from 'keyset/index.js'
 import { createUser } from 'user/index.js'
-import { type Hash } from 'util/index.js'
+import { type Hash, type UnixTimestamp } from 'util/index.js'
 
 const keys = TEST_GRAPH_KEYS
 
@@ -69,4 +81,132 @@ describe('decrypt', () => {
       expect(decrypted.hash).toEqual(original.hash)
     }
   })
+
+  it('decryptGraph reports progress', () => {
+    const alice = createUser('alice')
+    let graph = createGraph<any>({ user: alice, name: 'test graph', keys })
+    graph = append({ graph, action: { type: 'FOO' }, user: alice, keys })
+    graph = append({ graph, action: { type: 'BAR' }, user: alice, keys })
+
+    const progress: number[] = []
+    decryptGraph({
+      encryptedGraph: redactGraph(graph),
+      keys,
+      onProgress({ decrypted, total }) {
+        expect(total).toBe(3)
+        progress.push(decrypted)
+      },
+    })
+    expect(progress).toEqual([1, 2, 3])
+  })
+
+  it('decryptGraph reuses links that are already decrypted', () => {
+    const alice = createUser('alice')
+    let graph = createGraph<any>({ user: alice, name: 'test graph', keys })
+    graph = append({ graph, action: { type: 'FOO' }, user: alice, keys })
+
+    // we don't have the keys for the root, but we already have it decrypted
+    const keys2 = createKeyset({ type: 'TEAM', name: 'TEAM' })
+    graph = append({ graph, action: { type: 'BAR' }, user: alice, keys: keys2 })
+    const encryptedGraph = {
+      ...redactGraph(graph),
+      links: { [graph.root]: graph.links[graph.root] },
+    }
+
+    const decryptedGraph = decryptGraph({ encryptedGraph, keys: [keys, keys2] })
+    expect(decryptedGraph.links[graph.root]).toBe(graph.links[graph.root])
+    expect(Object.keys(decryptedGraph.links)).toHaveLength(3)
+  })
+
+  it('decryptGraph uses keys revealed by earlier links', () => {
+    const alice = createUser('alice')
+    const keys2 = createKeyset({ type: 'TEAM', name: 'TEAM' })
+
+    let graph = createGraph<any>({ user: alice, name: 'test graph', keys })
+    graph = append({ graph, action: { type: 'ROTATE', payload: keys2 }, user: alice, keys })
+    graph = append({ graph, action: { type: 'FOO' }, user: alice, keys: keys2 })
+
+    // we only pass the original keys; the new keys are found along the way
+    const decryptedGraph = decryptGraph<any, any>({
+      encryptedGraph: redactGraph(graph),
+      keys,
+      onDecrypt: link => (link.body.type === 'ROTATE' ? [link.body.payload] : []),
+    })
+    expect(decryptedGraph.links[graph.head[0]].body.type).toBe('FOO')
+  })
+
+  describe('benchmark', () => {
+    /**
+     * Builds a large encrypted graph directly, without using `append`, which copies the whole
+     * graph each time. The graph is mostly linear, with a concurrent branch every few links.
+     */
+    const createLargeGraph = (size: number) => {
+      const alice = createUser('alice')
+      const { publicKey: senderPublicKey, secretKey: senderSecretKey } = alice.keys.encryption
+      const { publicKey: recipientPublicKey } = keys.encryption
+
+      const encryptedLinks: Record<Hash, EncryptedLink> = {}
+      const childMap: LinkMap = {}
+
+      const addLink = (prev: Hash[], i: number) => {
+        const body = {
+          type: 'FOO',
+          payload: i,
+          userId: alice.userId,
+          timestamp: i as UnixTimestamp,
+          prev,
+        }
+        const encryptedBody = asymmetric.encrypt({
+          secret: body,
+          recipientPublicKey,
+          senderSecretKey,
+        })
+        const hash = hashEncryptedLink(encryptedBody)
+        encryptedLinks[hash] = { senderPublicKey, recipientPublicKey, encryptedBody }
+        for (const parent of prev) (childMap[parent] ??= []).push(hash)
+        return hash
+      }
+
+      const root = addLink([], 0)
+      let head = [root]
+      for (let i = 1; i < size; i++) {
+        // every tenth link starts a branch, which is merged again by the link after it
+        head = i % 10 === 1 ? [addLink(head, i), addLink(head, ++i)] : [addLink(head, i)]
+      }
+
+      const graph: EncryptedGraph = { root, head, encryptedLinks, childMap }
+      return graph
+    }
+
+    // this takes about a minute, so we don't run it in CI
+    it.skipIf(process.env.CI)(
+      'decrypts a graph with 50,000 links',
+      () => {
+        const size = 50_000
+        const encryptedGraph = createLargeGraph(size)
+
+        let progressCount = 0
+        const graph = decryptGraph({
+          encryptedGraph,
+          keys,
+          onProgress({ decrypted, total }) {
+            progressCount++
+            expect(decrypted).toBe(progressCount)
+            expect(total).toBe(size)
+          },
+        })
+
+        // every link was decrypted exactly once
+        expect(progressCount).toBe(size)
+        expect(Object.keys(graph.links)).toHaveLength(size)
+
+        // every link comes after its parents
+        const position = new Map(Object.keys(graph.links).map((hash, i) => [hash, i]))
+        for (const [hash, link] of Object.entries(graph.links))
+          for (const parent of link.body.prev)
+            expect(position.get(parent)).toBeLessThan(position.get(hash)!)
+      },
+      { timeout: 120_000 }
+    )
+  })
 })
@@ -0,0 +1,40 @@
+import { describe, expect, test } from 'vitest'
+import { buildGraph, findByPayload, getPayloads } from '../helpers/graph.js'
+import { diff } from 'graph/index.js'
+
+describe('graphs', () => {
+  describe('diff', () => {
+    const graph = buildGraph(`
+                          ┌─ e ─ g ─┐
+                ┌─ c ─ d ─┤         ├─ o ─┐
+         a ─ b ─┤         └─── f ───┤     ├─ n
+                ├──── h ──── i ─────┘     │
+                └───── j ─── k ── l ──────┘
+      `)
+
+    const hashes = (payloads: string) => payloads.split('').map(p => findByPayload(graph, p).hash)
+
+    const testCase = (from: string, to?: string) => {
+      const links = diff(graph, hashes(from), to === undefined ? undefined : hashes(to))
+
+      // links always come after their parents
+      const seen = new Set(links.map(link => link.hash))
+      for (const [i, link] of links.entries())
+        for (const parent of link.body.prev)
+          if (seen.has(parent)) expect(links.findIndex(l => l.hash === parent)).toBeLessThan(i)
+
+      return getPayloads(links).split('').sort().join('') // ignore order
+    }
+
+    test('from the root to the head', () => expect(testCase('a')).toBe('bcdefghijklno'))
+    test('from one link to another', () => expect(testCase('d', 'o')).toBe('efghio'))
+    test('from a head with several links', () => expect(testCase('gf', 'o')).toBe('hio'))
+    test('from a concurrent link', () => expect(testCase('l', 'o')).toBe('cdefghio'))
+    test('from the head', () => expect(testCase('n')).toBe(''))
+    test('backwards', () => expect(testCase('o', 'd')).toBe(''))
+
+    test('unknown hash', () => {
+      expect(() => diff(graph, ['foo' as any])).toThrow('not in the graph')
+    })
+  })
+})
@@ -0,0 +1,89 @@
+import { TEST_GRAPH_KEYS as keys, setup } from '_test/helpers/setup.js'
+import { describe, expect, test } from 'vitest'
+import {
+  append,
+  createGraph,
+  findEquivocations,
+  type Graph,
+  getSequence,
+  isEquivocation,
+  type Link,
+  merge,
+  type Resolver,
+} from 'graph/index.js'
+import { createEquivocationValidator, validate } from 'validator/index.js'
+import '_test/helpers/expect/toBeValid'
+
+const { alice, bob } = setup('alice', 'bob')
+
+type DeviceContext = { deviceId: string }
+
+const appendFoo = (
+  graph: Graph<any, DeviceContext>,
+  user: typeof alice,
+  payload: string,
+  deviceId = 'laptop'
+) => append({ graph, action: { type: 'FOO', payload }, user, keys, context: { deviceId } })
+
+describe('graphs', () => {
+  describe('equivocation', () => {
+    const root = createGraph<any, DeviceContext>({ user: alice, name: 'test', keys })
+
+    test('links by different authors can be concurrent', () => {
+      const graph = merge(appendFoo(root, alice, 'a'), appendFoo(root, bob, 'b'))
+      expect(findEquivocations(graph)).toEqual([])
+      expect(validate(graph, { noEquivocation: createEquivocationValidator() })).toBeValid()
+    })
+
+    test('an author who forks their own history is detected', () => {
+      const a1 = appendFoo(root, alice, 'a1')
+      const a2 = appendFoo(root, alice, 'a2')
+      const graph = appendFoo(merge(a1, a2), bob, 'b')
+
+      const hashes = [...a1.head, ...a2.head].sort()
+      expect(findEquivocations(graph)).toEqual([{ author: alice.userId, hashes }])
+      expect(isEquivocation(graph, graph.links[a1.head[0]])).toBe(true)
+
+      // Bob's link comes after both of Alice's
+      expect(isEquivocation(graph, graph.links[graph.head[0]])).toBe(false)
+
+      expect(validate(graph, { noEquivocation: createEquivocationValidator() })).not.toBeValid(
+        'concurrently'
+      )
+    })
+
+    test('authors can be identified by device', () => {
+      const byDevice = (link: Link<any, DeviceContext>) => link.body.deviceId
+      const laptop = appendFoo(root, alice, 'laptop', 'laptop')
+      const phone = appendFoo(root, alice, 'phone', 'phone')
+
+      // Alice has two devices, so she can create concurrent links
+      expect(findEquivocations(merge(laptop, phone), byDevice)).toEqual([])
+
+      // ...but each device can't: this link is by the phone, but it doesn't come after the phone's
+      // first link
+      const forked = appendFoo(laptop, alice, 'phone again', 'phone')
+      const graph = merge(forked, phone)
+
+      const hashes = [...phone.head, ...forked.head].sort()
+      expect(findEquivocations(graph, byDevice)).toEqual([{ author: 'phone', hashes }])
+    })
+
+    test('a resolver can discard equivocating links', () => {
+      const graph = appendFoo(
+        merge(appendFoo(root, alice, 'a1'), appendFoo(root, alice, 'a2')),
+        bob,
+        'b'
+      )
+      const resolver: Resolver<any, any> = graph => {
+        const suspicious = new Set(findEquivocations(graph).flatMap(({ hashes }) => hashes))
+        return { filter: link => !suspicious.has(link.hash) }
+      }
+
+      const payloads = getSequence(graph, resolver)
+        .filter(link => !link.isInvalid)
+        .map(link => link.body.payload as string)
+      expect(payloads).toEqual([expect.anything(), 'b'])
+    })
+  })
+})
@@ -1,6 +1,24 @@
 import { describe, expect, test } from 'vitest'
-import { buildGraph, byPayload, findByPayload, getPayloads } from '../helpers/graph.js'
-import { type Graph, getConcurrentBubbles, getConcurrentLinks } from 'graph/index.js'
+import {
+  appendLink,
+  buildGraph,
+  byPayload,
+  findByPayload,
+  getPayloads,
+  type XAction,
+} from '../helpers/graph.js'
+import { TEST_GRAPH_KEYS as keys, setup } from '_test/helpers/setup.js'
+import {
+  type Graph,
+  type Link,
+  calculateConcurrency,
+  createGraph,
+  getConcurrentBubbles,
+  getConcurrentLinks,
+  isConcurrent,
+  merge,
+} from 'graph/index.js'
+import { type Hash, type UnixTimestamp } from 'util/index.js'
 
 describe('graphs', () => {
   describe('getConcurrentLinks', () => {
@@ -167,4 +185,89 @@ describe('graphs', () => {
       testBubbles(graph, 'cdefghijo')
     })
   })
+
+  describe('incremental updates', () => {
+    test('appending and merging gives the same results as starting from scratch', () => {
+      const { alice } = setup('alice')
+
+      // a predictable sequence of pseudo-random numbers
+      let seed = 42
+      const random = (n: number) => {
+        seed = (seed * 16_807) % 2_147_483_647
+        return seed % n
+      }
+
+      // Build up some branches, sometimes appending to one and sometimes merging two of them
+      let branches = [createGraph<XAction>({ user: alice, name: 'root', keys })]
+      for (let i = 0; i < 60; i++) {
+        const a = random(branches.length)
+        const b = random(branches.length)
+        const choice = random(4)
+        let graph: Graph<XAction, any>
+        if (choice === 0) {
+          graph = appendLink(branches[a], `${i}`, keys)
+          branches.push(graph) // new branch
+        } else if (choice === 1 && a !== b) {
+          graph = merge(branches[a], branches[b])
+          branches[a] = graph
+          branches = branches.filter((_, j) => j !== b)
+        } else {
+          graph = appendLink(branches[a], `${i}`, keys)
+          branches[a] = graph
+        }
+
+        // Use the concurrency information along the way, so that it's updated incrementally
+        getConcurrentBubbles(graph)
+      }
+
+      const graph = branches.reduce((result, branch) => merge(result, branch))
+
+      expect(getConcurrentBubbles(graph).length).toBeGreaterThan(0)
+
+      // A copy of the graph has nothing cached, so everything is calculated from scratch
+      const copy = { ...graph }
+      expect(getConcurrentBubbles(graph).map(b => b.sort())).toEqual(
+        getConcurrentBubbles(copy).map(b => b.sort())
+      )
+      expect(calculateConcurrency(graph)).toEqual(calculateConcurrency(copy))
+    })
+  })
+
+  describe('large graphs', () => {
+    /** Builds a graph (without encryption) with a three-way branch every few links */
+    const buildLargeGraph = (size: number) => {
+      const links: Record<Hash, Link<XAction, any>> = {}
+      const addLink = (hash: string, prev: Hash[]) => {
+        links[hash as Hash] = {
+          hash: hash as Hash,
+          body: { type: 'X', payload: hash, userId: 'alice', timestamp: 0 as UnixTimestamp, prev },
+        }
+        return hash as Hash
+      }
+
+      const root = addLink('root', [])
+      let head = [root]
+      while (Object.keys(links).length < size) {
+        const i = Object.keys(links).length
+        const prev = head
+        const branches = [0, 1, 2].map(b => addLink(`${i}-${b}`, prev))
+        head = [addLink(`${i}-merge`, branches)]
+      }
+
+      const graph: Graph<XAction, any> = { root, head, links, encryptedLinks: {} }
+      return graph
+    }
+
+    test('finds bubbles in a graph with 20,000 links', () => {
+      const graph = buildLargeGraph(20_000)
+
+      const bubbles = getConcurrentBubbles(graph)
+      expect(bubbles).toHaveLength(5000)
+      expect(bubbles[0].sort()).toEqual(['1-0', '1-1', '1-2'])
+
+      expect(isConcurrent(graph, '1-0' as Hash, '1-1' as Hash)).toBe(true)
+      expect(isConcurrent(graph, '1-0' as Hash, '1-merge' as Hash)).toBe(false)
+      expect(isConcurrent(graph, '1-0' as Hash, '5-0' as Hash)).toBe(false)
+    })
+  })
 })
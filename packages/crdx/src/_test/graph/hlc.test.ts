@@ -0,0 +1,143 @@
+import { TEST_GRAPH_KEYS as keys, setup } from '_test/helpers/setup.js'
+import { describe, expect, test, vitest } from 'vitest'
+import {
+  append,
+  byClock,
+  createGraph,
+  getClock,
+  getGraphClock,
+  getSequence,
+  type Graph,
+  merge,
+  tickClock,
+} from 'graph/index.js'
+import { type UnixTimestamp } from 'util/index.js'
+import { validate } from 'validator/index.js'
+import '_test/helpers/expect/toBeValid'
+
+const { setSystemTime } = vitest.useFakeTimers()
+
+const { alice, bob } = setup('alice', 'bob')
+
+const T = 1_700_000_000_000 as UnixTimestamp
+
+const appendAt = (graph: Graph<any, any>, time: number, payload: string) => {
+  setSystemTime(time)
+  return append({ graph, action: { type: 'FOO', payload }, user: alice, keys })
+}
+
+const headLink = (graph: Graph<any, any>) => graph.links[graph.head[0]]
+
+describe('graphs', () => {
+  describe('hybrid logical clock', () => {
+    test('a new link gets the current time', () => {
+      setSystemTime(T)
+      const graph = createGraph({ user: alice, name: 'test', keys })
+      expect(headLink(graph).body.hlc).toEqual({ time: T, counter: 0 })
+
+      const graph2 = appendAt(graph, T + 10, 'a')
+      expect(headLink(graph2).body.hlc).toEqual({ time: T + 10, counter: 0 })
+    })
+
+    test(`a link's clock is later than its parents', even if the wall clock is behind`, () => {
+      setSystemTime(T)
+      const graph = createGraph({ user: alice, name: 'test', keys })
+      const ahead = appendAt(graph, T + 1000, 'ahead')
+
+      // Bob's clock is behind Alice's
+      setSystemTime(T + 500)
+      const behind = append({
+        graph: ahead,
+        action: { type: 'FOO', payload: 'behind' },
+        user: bob,
+        keys,
+      })
+      expect(headLink(behind).body.hlc).toEqual({ time: T + 1000, counter: 1 })
+    })
+
+    test(`a peer can append to a link from a device whose clock is ahead`, () => {
+      setSystemTime(T)
+      const graph = createGraph({ user: alice, name: 'test', keys })
+
+      // Alice's clock is two minutes fast
+      const ahead = appendAt(graph, T + 2 * 60 * 1000, 'ahead')
+
+      // Bob's clock is correct
+      setSystemTime(T + 1000)
+      const next = append({
+        graph: ahead,
+        action: { type: 'FOO', payload: 'next' },
+        user: bob,
+        keys,
+      })
+
+      // Bob's link has an earlier timestamp than Alice's, but a later clock
+      expect(headLink(next).body.timestamp).toBeLessThan(headLink(ahead).body.timestamp)
+      expect(validate(next)).toBeValid()
+    })
+
+    test('ticking a clock', () => {
+      setSystemTime(T)
+      const graph = createGraph({ user: alice, name: 'test', keys })
+      const root = headLink(graph)
+      expect(tickClock([], T)).toEqual({ time: T, counter: 0 })
+      expect(tickClock([root], T)).toEqual({ time: T, counter: 1 })
+      expect(tickClock([root], (T + 1) as UnixTimestamp)).toEqual({ time: T + 1, counter: 0 })
+    })
+
+    test('links without a clock use their timestamp', () => {
+      setSystemTime(T)
+      const graph = createGraph({ user: alice, name: 'test', keys })
+      const { hlc: _hlc, ...body } = headLink(graph).body
+      expect(getClock({ ...headLink(graph), body })).toEqual({ time: T, counter: 0 })
+    })
+
+    test('merging advances the clock', () => {
+      setSystemTime(T)
+      const graph = createGraph({ user: alice, name: 'test', keys })
+      const aliceGraph = appendAt(graph, T + 10, 'alice')
+      const bobGraph = appendAt(graph, T + 20, 'bob')
+      expect(getGraphClock(aliceGraph)).toEqual({ time: T + 10, counter: 0 })
+
+      const merged = merge(aliceGraph, bobGraph)
+      expect(getGraphClock(merged)).toEqual({ time: T + 20, counter: 0 })
+
+      // a link appended after the merge is later than both branches
+      setSystemTime(T + 15)
+      const next = append({
+        graph: merged,
+        action: { type: 'FOO', payload: 'next' },
+        user: alice,
+        keys,
+      })
+      expect(headLink(next).body.hlc).toEqual({ time: T + 20, counter: 1 })
+    })
+
+    test('concurrent branches can be ordered by their clocks', () => {
+      setSystemTime(T)
+      const graph = createGraph({ user: alice, name: 'test', keys })
+
+      // the later branch is created first
+      const later = appendAt(graph, T + 20, 'later')
+      const earlier = appendAt(graph, T + 10, 'earlier')
+      const merged = merge(later, earlier)
+
+      const payloads = getSequence(merged, () => ({ sort: byClock }))
+        .slice(1)
+        .map(link => link.body.payload as string)
+      expect(payloads).toEqual(['earlier', 'later'])
+    })
+
+    test(`a link's clock can't be earlier than its parents'`, () => {
+      setSystemTime(T)
+      const graph = createGraph({ user: alice, name: 'test', keys })
+      const graph2 = appendAt(graph, T + 10, 'a')
+      const graph3 = appendAt(graph2, T + 20, 'b')
+      setSystemTime(T + 30)
+
+      // 🦹‍♀️ tamper with the clock of the parent, so that it is later than the child's
+      headLink(graph2).body.hlc = { time: (T + 25) as UnixTimestamp, counter: 0 }
+      expect(validate(graph3)).not.toBeValid('later than the clocks of previous links')
+    })
+  })
+})
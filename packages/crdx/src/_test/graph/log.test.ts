@@ -0,0 +1,135 @@
+import { TEST_GRAPH_KEYS as keys } from '_test/helpers/setup.js'
+import { describe, expect, it } from 'vitest'
+import {
+  append,
+  createGraph,
+  deserialize,
+  exportLog,
+  importLog,
+  isLog,
+  LOG_FORMAT_VERSION,
+  merge,
+  redactGraph,
+} from 'graph/index.js'
+import { createStore } from 'store/index.js'
+import { createUser } from 'user/index.js'
+import { concat } from 'util/index.js'
+
+const alice = createUser('alice')
+const bob = createUser('bob')
+
+const setupGraph = () => {
+  let graph = createGraph<any>({ user: alice, name: 'test graph', keys })
+  graph = append({ graph, action: { type: 'FOO', payload: 1 }, user: alice, keys })
+  graph = append({ graph, action: { type: 'BAR', payload: 2 }, user: bob, keys })
+  return graph
+}
+
+describe('log', () => {
+  it('rebuilds a graph from its log', () => {
+    const graph = setupGraph()
+    const log = exportLog(graph)
+    expect(isLog(log)).toBe(true)
+
+    const { graph: imported, length, truncated } = importLog(log)
+    expect(imported).toEqual(redactGraph(graph))
+    expect(length).toBe(log.length)
+    expect(truncated).toBe(false)
+  })
+
+  it('appends new links to a log', () => {
+    const graph = setupGraph()
+    const log = exportLog(graph)
+
+    // Alice and Bob make concurrent changes, which are then merged
+    const aliceGraph = append({ graph, action: { type: 'FOO', payload: 3 }, user: alice, keys })
+    const bobGraph = append({ graph, action: { type: 'BAR', payload: 4 }, user: bob, keys })
+    const merged = merge(aliceGraph, bobGraph)
+
+    // Only the new links are written
+    const delta = exportLog(merged, graph)
+    expect(isLog(delta)).toBe(false)
+
+    const { graph: imported } = importLog(concat([log, delta]))
+    expect(imported.root).toEqual(merged.root)
+    expect(imported.head).toEqual(merged.head)
+    expect(imported.encryptedLinks).toEqual(merged.encryptedLinks)
+    expect(deserialize(concat([log, delta]), keys).links).toEqual(merged.links)
+  })
+
+  it('exports links in topological order', () => {
+    let graph = setupGraph()
+    for (let i = 0; i < 10; i++)
+      graph = append({ graph, action: { type: 'FOO', payload: i }, user: alice, keys })
+
+    // exporting the log of an encrypted graph works the same way
+    const log = exportLog(redactGraph(graph))
+    const { graph: imported } = importLog(log)
+    expect(imported).toEqual(redactGraph(graph))
+  })
+
+  it('ignores a truncated record at the end of the log', () => {
+    const graph = setupGraph()
+    const log = exportLog(graph)
+    const newGraph = append({ graph, action: { type: 'FOO', payload: 3 }, user: alice, keys })
+    const delta = exportLog(newGraph, graph)
+
+    // the last write was interrupted halfway through
+    const truncatedLog = concat([log, delta.subarray(0, delta.length / 2)])
+
+    const { graph: imported, length, truncated } = importLog(truncatedLog)
+    expect(truncated).toBe(true)
+    expect(length).toBe(log.length)
+    expect(imported).toEqual(redactGraph(graph))
+
+    // after truncating the log to the length that was read, we can append to it again
+    const recovered = concat([truncatedLog.subarray(0, length), delta])
+    expect(importLog(recovered).graph).toEqual(redactGraph(newGraph))
+  })
+
+  it('ignores a corrupted record at the end of the log', () => {
+    const graph = setupGraph()
+    const log = exportLog(graph)
+    // (without a signature, the encrypted body comes last in the record)
+    const action = { type: 'FOO', payload: 3 }
+    const newGraph = append({ graph, action, user: alice, keys, sign: false })
+    const delta = exportLog(newGraph, graph).slice()
+    delta[delta.length - 1] ^= 0xff // eslint-disable-line no-bitwise
+
+    const { graph: imported, truncated } = importLog(concat([log, delta]))
+    expect(truncated).toBe(true)
+    expect(imported).toEqual(redactGraph(graph))
+  })
+
+  it('ignores records that were appended twice', () => {
+    const graph = setupGraph()
+    const newGraph = append({ graph, action: { type: 'FOO', payload: 3 }, user: alice, keys })
+    const delta = exportLog(newGraph, graph)
+
+    const { graph: imported } = importLog(concat([exportLog(graph), delta, delta]))
+    expect(imported).toEqual(redactGraph(newGraph))
+  })
+
+  it('rehydrates a store from its log', () => {
+    const reducer = (state: { count: number }) => ({ count: state.count + 1 })
+    const initialState = { count: 0 }
+    const store = createStore({ user: alice, reducer, initialState, keys })
+    let log = store.saveLog()
+
+    let saved = store.getGraph()
+    for (let i = 0; i < 3; i++) {
+      store.dispatch({ type: 'INCREMENT' })
+      log = concat([log, store.saveLog(saved)])
+      saved = store.getGraph()
+    }
+
+    const rehydrated = createStore({ user: alice, graph: log, reducer, initialState, keys })
+    expect(rehydrated.getState()).toEqual(store.getState())
+  })
+
+  it('rejects a log from a newer version', () => {
+    const log = exportLog(setupGraph())
+    log[4] = LOG_FORMAT_VERSION + 1
+    expect(() => importLog(log)).toThrow('Unsupported log format version')
+  })
+})
@@ -2,7 +2,15 @@ import { TEST_GRAPH_KEYS as keys, setup } from '_test/helpers/setup.js'
 import { clone } from 'lodash-es'
 import '_test/helpers/expect/toBeValid'
 import { describe, expect, test } from 'vitest'
-import { append, createGraph, merge } from 'graph/index.js'
+import {
+  append,
+  createGraph,
+  getMergeReport,
+  type Graph,
+  merge,
+  type Resolver,
+} from 'graph/index.js'
+import { type Hash } from 'util/index.js'
 
 const { alice, bob } = setup('alice', 'bob')
 const defaultUser = alice
@@ -105,5 +113,74 @@ describe('graphs', () => {
       const tryToMerge = () => merge(aliceGraph, bobGraph)
       expect(tryToMerge).toThrow()
     })
+
+    describe('merge report', () => {
+      const setupGraphs = () => {
+        const graph = createGraph({ user: alice, name: 'a', keys })
+        const aliceGraph = append({
+          graph,
+          action: { type: 'FOO', payload: 'alice' },
+          user: alice,
+          keys,
+        })
+        let bobGraph = append({ graph, action: { type: 'FOO', payload: 'bob 1' }, user: bob, keys })
+        bobGraph = append({
+          graph: bobGraph,
+          action: { type: 'FOO', payload: 'bob 2' },
+          user: bob,
+          keys,
+        })
+        return { graph, aliceGraph, bobGraph }
+      }
+
+      const payloads = (graph: Graph<any, any>, hashes: Hash[]) =>
+        hashes.map(hash => graph.links[hash].body.payload as string)
+
+      test('no changes', () => {
+        const { aliceGraph } = setupGraphs()
+        const report = getMergeReport(aliceGraph, merge(aliceGraph, clone(aliceGraph)))
+        expect(report).toEqual({
+          added: [],
+          previousHead: aliceGraph.head,
+          head: aliceGraph.head,
+          isConcurrent: false,
+          invalidated: [],
+        })
+      })
+
+      test('edits on one side', () => {
+        const { graph, bobGraph } = setupGraphs()
+        const merged = merge(graph, bobGraph)
+        const report = getMergeReport(graph, merged)
+        expect(payloads(merged, report.added)).toEqual(['bob 1', 'bob 2'])
+        expect(report.previousHead).toEqual(graph.head)
+        expect(report.head).toEqual(bobGraph.head)
+        expect(report.isConcurrent).toBe(false)
+      })
+
+      test('concurrent edits', () => {
+        const { aliceGraph, bobGraph } = setupGraphs()
+        const merged = merge(aliceGraph, bobGraph)
+        const report = getMergeReport(aliceGraph, merged)
+        expect(payloads(merged, report.added)).toEqual(['bob 1', 'bob 2'])
+        expect(report.head).toHaveLength(2)
+        expect(report.isConcurrent).toBe(true)
+      })
+
+      test('links invalidated by the resolver', () => {
+        // Alice's changes are invalid if Bob made changes at the same time
+        const resolver: Resolver<any, any> = graph => ({
+          filter(link) {
+            const bobWasHere = Object.values(graph.links).some(l => l.body.userId === bob.userId)
+            return !(bobWasHere && link.body.userId === alice.userId && link.body.type === 'FOO')
+          },
+        })
+
+        const { aliceGraph, bobGraph } = setupGraphs()
+        const merged = merge(aliceGraph, bobGraph)
+        const report = getMergeReport(aliceGraph, merged, resolver)
+        expect(payloads(merged, report.invalidated)).toEqual(['alice'])
+      })
+    })
   })
 })
@@ -0,0 +1,127 @@
+import { TEST_GRAPH_KEYS as keys } from '_test/helpers/setup.js'
+import { afterAll, describe, expect, test, vitest } from 'vitest'
+import { append, createGraph, type Graph, merge, queryLinks } from 'graph/index.js'
+import { createUser } from 'user/index.js'
+
+const { setSystemTime, useRealTimers } = vitest.useFakeTimers()
+afterAll(() => {
+  useRealTimers()
+})
+
+const alice = createUser('alice', 'alice')
+const bob = createUser('bob', 'bob')
+
+type TestAction =
+  | { type: 'ROOT'; payload: any }
+  | { type: 'ADD_ITEM'; payload: { item: string } }
+  | { type: 'REMOVE_ITEM'; payload: { item: string } }
+
+const setupGraph = () => {
+  setSystemTime(1000)
+  let graph = createGraph<TestAction>({ user: alice, name: 'test graph', keys })
+  const steps = [
+    { user: alice, type: 'ADD_ITEM', item: 'apple' },
+    { user: bob, type: 'ADD_ITEM', item: 'banana' },
+    { user: alice, type: 'REMOVE_ITEM', item: 'apple' },
+    { user: bob, type: 'ADD_ITEM', item: 'cherry' },
+  ] as const
+  for (const [i, { user, type, item }] of steps.entries()) {
+    setSystemTime(2000 + i * 1000)
+    graph = append({ graph, action: { type, payload: { item } }, user, keys })
+  }
+
+  return graph
+}
+
+const items = (links: Array<{ body: { payload: any } }>) =>
+  links.map(link => link.body.payload.item ?? 'root')
+
+describe('graphs', () => {
+  describe('queryLinks', () => {
+    const graph = setupGraph()
+
+    test('all links', () => {
+      expect(items(queryLinks(graph))).toEqual(['root', 'apple', 'banana', 'apple', 'cherry'])
+    })
+
+    test('by author', () => {
+      expect(items(queryLinks(graph, { userId: 'bob' }))).toEqual(['banana', 'cherry'])
+    })
+
+    test('by action type', () => {
+      expect(items(queryLinks(graph, { type: 'ADD_ITEM' }))).toEqual(['apple', 'banana', 'cherry'])
+      expect(items(queryLinks(graph, { type: ['ROOT', 'REMOVE_ITEM'] }))).toEqual(['root', 'apple'])
+    })
+
+    test('by time', () => {
+      expect(items(queryLinks(graph, { from: 3000, to: 4000 }))).toEqual(['banana', 'apple'])
+      expect(items(queryLinks(graph, { from: 4500 }))).toEqual(['cherry'])
+      expect(items(queryLinks(graph, { to: 1000 }))).toEqual(['root'])
+    })
+
+    test('by payload', () => {
+      const result = queryLinks(graph, {
+        type: 'ADD_ITEM',
+        where: link => link.body.payload.item.startsWith('b'),
+      })
+      expect(items(result)).toEqual(['banana'])
+    })
+
+    test('combined', () => {
+      const result = queryLinks(graph, { userId: 'alice', type: 'ADD_ITEM', from: 2000 })
+      expect(items(result)).toEqual(['apple'])
+    })
+
+    test('after appending', () => {
+      setSystemTime(10_000)
+      const graph2 = append({
+        graph,
+        action: { type: 'ADD_ITEM', payload: { item: 'durian' } },
+        user: alice,
+        keys,
+      })
+      expect(items(queryLinks(graph2, { userId: 'alice', type: 'ADD_ITEM' }))).toEqual([
+        'apple',
+        'durian',
+      ])
+
+      // the original graph doesn't include the new link
+      expect(items(queryLinks(graph, { userId: 'alice', type: 'ADD_ITEM' }))).toEqual(['apple'])
+    })
+
+    test('after merging', () => {
+      // the index for `graph` is extended by both branches
+      const add = (g: Graph<TestAction, any>, item: string, time: number) => {
+        setSystemTime(time)
+        return append({
+          graph: g,
+          action: { type: 'ADD_ITEM', payload: { item } },
+          user: bob,
+          keys,
+        })
+      }
+
+      const aliceGraph = add(graph, 'elderberry', 20_000)
+      const bobGraph = add(graph, 'fig', 15_000)
+      expect(items(queryLinks(bobGraph, { from: 10_000 }))).toEqual(['fig'])
+
+      const merged = merge(aliceGraph, bobGraph)
+      expect(items(queryLinks(merged, { from: 10_000 }))).toEqual(['fig', 'elderberry'])
+    })
+
+    test('the index is kept up to date', () => {
+      // query a merged graph whose parents were both indexed separately
+      const g1 = setupGraph()
+      setSystemTime(50_000)
+      const g2 = append({
+        graph: g1,
+        action: { type: 'REMOVE_ITEM', payload: { item: 'banana' } },
+        user: bob,
+        keys,
+      })
+      queryLinks(g1)
+      const merged = merge(g1, g2)
+      expect(items(queryLinks(merged, { type: 'REMOVE_ITEM' }))).toEqual(['apple', 'banana'])
+    })
+  })
+})
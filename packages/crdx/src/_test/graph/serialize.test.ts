@@ -0,0 +1,71 @@
+import { TEST_GRAPH_KEYS as keys } from '_test/helpers/setup.js'
+import { describe, expect, it } from 'vitest'
+import {
+  append,
+  createGraph,
+  decodeGraph,
+  deserialize,
+  encodeGraph,
+  GRAPH_FORMAT_VERSION,
+  isBinaryGraph,
+  redactGraph,
+  serialize,
+  serializeBinary,
+} from 'graph/index.js'
+import { createUser } from 'user/index.js'
+
+const alice = createUser('alice')
+const bob = createUser('bob')
+
+const setupGraph = () => {
+  let graph = createGraph<any>({ user: alice, name: 'test graph', keys })
+  graph = append({ graph, action: { type: 'FOO', payload: 1 }, user: alice, keys })
+  graph = append({ graph, action: { type: 'BAR', payload: 2 }, user: bob, keys })
+  return graph
+}
+
+describe('serialize', () => {
+  it('round-trips a graph as JSON', () => {
+    const graph = setupGraph()
+    const deserialized = deserialize(serialize(graph), keys)
+    expect(deserialized.links).toEqual(graph.links)
+  })
+
+  it('round-trips a graph in binary form', () => {
+    const graph = setupGraph()
+    const serialized = serializeBinary(graph)
+    expect(isBinaryGraph(serialized)).toBe(true)
+
+    const deserialized = deserialize(serialized, keys)
+    expect(deserialized.root).toEqual(graph.root)
+    expect(deserialized.head).toEqual(graph.head)
+    expect(deserialized.encryptedLinks).toEqual(graph.encryptedLinks)
+    expect(deserialized.links).toEqual(graph.links)
+  })
+
+  it('preserves the graph structure', () => {
+    const graph = setupGraph()
+    const encryptedGraph = redactGraph(graph)
+    expect(decodeGraph(encodeGraph(encryptedGraph))).toEqual(encryptedGraph)
+  })
+
+  it('the binary form is much smaller than JSON', () => {
+    const graph = setupGraph()
+    const json = new TextEncoder().encode(serialize(graph))
+    const binary = serializeBinary(graph)
+    expect(binary.length).toBeLessThan(json.length * 0.75)
+  })
+
+  it('detects JSON passed as bytes', () => {
+    const graph = setupGraph()
+    const json = new TextEncoder().encode(serialize(graph))
+    expect(isBinaryGraph(json)).toBe(false)
+    expect(deserialize(json, keys).links).toEqual(graph.links)
+  })
+
+  it('rejects graphs written by a later version', () => {
+    const serialized = serializeBinary(setupGraph())
+    serialized[4] = GRAPH_FORMAT_VERSION + 1
+    expect(() => deserialize(serialized, keys)).toThrow('Unsupported graph format version')
+  })
+})
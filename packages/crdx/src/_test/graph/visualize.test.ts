@@ -0,0 +1,91 @@
+import { describe, expect, test } from 'vitest'
+import { buildGraph, findByPayload, type XAction } from '../helpers/graph.js'
+import { type Link, type Resolver, toDot, toGraphJson, toMermaid } from 'graph/index.js'
+
+const label = (link: Link<XAction, any>) =>
+  link.body.type === 'ROOT' ? 'root' : (link.body.payload as string)
+
+describe('graphs', () => {
+  describe('visualize', () => {
+    const graph = buildGraph(`
+            ┌─ b ─ c ─┐
+         a ─┤         ├─ e
+            └─── d ───┘
+      `)
+
+    // Concurrent links come in no particular order, so we sort the labels
+    const labels = (json: ReturnType<typeof toGraphJson>) =>
+      json.nodes.map(node => node.label).sort()
+    const edges = (json: ReturnType<typeof toGraphJson>) => {
+      const labelOf = new Map(json.nodes.map(node => [node.id, node.label]))
+      return json.edges.map(({ from, to }) => `${labelOf.get(from)!}>${labelOf.get(to)!}`).sort()
+    }
+
+    /** Returns the id used in diagrams for the node with the given label */
+    const idOf = (json: ReturnType<typeof toGraphJson>, label: string) =>
+      `n${json.nodes.findIndex(node => node.label === label)}`
+
+    test('json', () => {
+      const json = toGraphJson(graph, { label })
+      expect(labels(json)).toEqual(['a', 'b', 'c', 'd', 'e', 'root'])
+      expect(json.nodes[0].label).toBe('root')
+      expect(json.nodes.at(-1)!.label).toBe('e')
+      expect(edges(json)).toEqual(['a>b', 'a>d', 'b>c', 'c>e', 'd>e', 'root>a'])
+
+      const [root] = json.nodes
+      expect(root.isRoot).toBe(true)
+      expect(json.nodes.filter(node => node.isHead).map(node => node.label)).toEqual(['e'])
+    })
+
+    test('default labels', () => {
+      const json = toGraphJson(graph, { label: ['type', 'hash'], hashLength: 8 })
+      const e = findByPayload(graph, 'e')
+      expect(json.nodes.at(-1)!.label).toEqual(`${e.body.type}\n${e.hash.slice(0, 8)}`)
+    })
+
+    test('collapsing linear runs', () => {
+      const json = toGraphJson(graph, { label, collapse: true })
+      expect(labels(json)).toEqual(['b\n… 2 links …\nc', 'd', 'e', 'root\n… 2 links …\na'])
+      expect(json.nodes[0].hashes).toHaveLength(2)
+      expect(json.edges).toHaveLength(4)
+    })
+
+    test('invalid links', () => {
+      const d = findByPayload(graph, 'd')
+      const resolver: Resolver<XAction, any> = () => ({ filter: link => link.hash !== d.hash })
+      const json = toGraphJson(graph, { label, resolver })
+      expect(json.nodes.filter(node => node.isInvalid).map(node => node.label)).toEqual(['d'])
+
+      const mermaid = toMermaid(graph, { label, resolver })
+      expect(mermaid).toContain(`class ${idOf(json, 'd')} invalid`)
+      expect(mermaid).toContain('class n5 head')
+    })
+
+    test('mermaid', () => {
+      const json = toGraphJson(graph, { label })
+      const mermaid = toMermaid(graph, { label })
+      const lines = mermaid.split('\n')
+      expect(lines[0]).toBe('flowchart TD')
+      expect(lines).toContain('n0["root"]')
+      expect(lines).toContain('n0 --> n1')
+      expect(lines).toContain(`${idOf(json, 'c')} --> n5`)
+      expect(lines).toContain(`${idOf(json, 'd')} --> n5`)
+    })
+
+    test('dot', () => {
+      const dot = toDot(graph, { label: ['type', 'author'] })
+      const lines = dot.split('\n')
+      expect(lines[0]).toBe('digraph {')
+      expect(lines.at(-1)).toBe('}')
+      expect(lines.some(line => line.startsWith('  n0 [label="ROOT\\n'))).toBe(true)
+      expect(lines).toContain('  n0 -> n1')
+      expect(dot).toMatch(/n5 \[label=".*" penwidth=3]/)
+    })
+
+    test('escaping', () => {
+      const quoted = () => 'say "hi"'
+      expect(toMermaid(graph, { label: quoted })).toContain('["say #quot;hi#quot;"]')
+      expect(toDot(graph, { label: quoted })).toContain('[label="say \\"hi\\""')
+    })
+  })
+})
@@ -7,7 +7,7 @@ import { type KeysetWithSecrets } from 'keyset/index.js'
 import { generateMessage } from 'sync/generateMessage.js'
 import { initSyncState } from 'sync/initSyncState.js'
 import { receiveMessage } from 'sync/receiveMessage.js'
-import { type SyncMessage, type SyncState } from 'sync/types.js'
+import { type SyncMessage, type SyncState, type SyncStrategy } from 'sync/types.js'
 import { type UserWithSecrets } from 'user/index.js'
 
 /** Simulates a peer-to-peer network. */
@@ -25,12 +25,12 @@ export class Network {
     this.peers[peer.userName] = peer
   }
 
-  /** Establishes a bidirectionial connection between two peers */
-  connect(a: Peer, b: Peer) {
+  /** Establishes a bidirectionial connection between two peers (optionally using the given sync strategies) */
+  connect(a: Peer, b: Peer, aStrategy?: SyncStrategy, bStrategy = aStrategy) {
     this.registerPeer(a)
     this.registerPeer(b)
-    a.connect(b.userName)
-    b.connect(a.userName)
+    a.connect(b.userName, aStrategy)
+    b.connect(a.userName, bStrategy)
   }
 
   /** Enqueues one message to be sent from fromPeer to toPeer */
@@ -77,8 +77,8 @@ export class Peer {
   }
 
   /**  Called by Network.connect when a connection is established with a remote peer */
-  connect(userName: string) {
-    this.syncStates[userName] = initSyncState()
+  connect(userName: string, strategy?: SyncStrategy) {
+    this.syncStates[userName] = initSyncState(strategy)
   }
 
   /**  Generates and enqueues messages to the named peer (or if none given, to all peers we're connected to) (unless there is nothing to send) */
@@ -3,7 +3,7 @@
 import type { Assertion, AsymmetricMatchersContaining } from 'vitest'
 
 interface CustomMatchers<R = unknown> {
-  toBeValid(): R
+  toBeValid(expectedMessage?: string): R
   toLookLikeKeyset(): R
 }
 
@@ -0,0 +1,63 @@
+import { type Base58 } from '@localfirst/crypto'
+import { describe, expect, it } from 'vitest'
+import { createKeyset, exportKeyset, importKeyset, KeyType } from 'keyset/index.js'
+import { createUser, exportUser, importUser } from 'user/index.js'
+
+const passphrase = 'correct horse battery staple'
+
+describe('export', () => {
+  describe('keysets', () => {
+    it('round-trips a keyset', () => {
+      const keys = createKeyset({ type: KeyType.USER, name: 'alice' })
+      const backup = exportKeyset(keys, passphrase)
+      expect(importKeyset(backup, passphrase)).toEqual(keys)
+    })
+
+    it('preserves the generation, type and name', () => {
+      const keys = { ...createKeyset({ type: 'ROLE', name: 'admin' }), generation: 3 }
+      const { type, name, generation } = importKeyset(exportKeyset(keys, passphrase), passphrase)
+      expect({ type, name, generation }).toEqual({ type: 'ROLE', name: 'admin', generation: 3 })
+    })
+
+    it('does not include the secrets in the clear', () => {
+      const keys = createKeyset({ type: KeyType.USER, name: 'alice' })
+      const backup = exportKeyset(keys, passphrase)
+      expect(backup).not.toContain(keys.secretKey)
+    })
+
+    it('uses a different salt each time', () => {
+      const keys = createKeyset({ type: KeyType.USER, name: 'alice' })
+      expect(exportKeyset(keys, passphrase)).not.toEqual(exportKeyset(keys, passphrase))
+    })
+
+    it('fails with the wrong passphrase', () => {
+      const keys = createKeyset({ type: KeyType.USER, name: 'alice' })
+      const backup = exportKeyset(keys, passphrase)
+      expect(() => importKeyset(backup, 'nachopassphrase')).toThrow('passphrase is wrong')
+    })
+
+    it('detects a tampered backup', () => {
+      const keys = createKeyset({ type: KeyType.USER, name: 'alice' })
+      const backup = exportKeyset(keys, passphrase)
+      const i = backup.length - 5
+      const tampered = (backup.slice(0, i) +
+        (backup[i] === 'a' ? 'b' : 'a') +
+        backup.slice(i + 1)) as Base58
+      expect(() => importKeyset(tampered, passphrase)).toThrow('corrupted')
+    })
+  })
+
+  describe('users', () => {
+    it('round-trips a user', () => {
+      const alice = createUser('alice')
+      const backup = exportUser(alice, passphrase)
+      expect(importUser(backup, passphrase)).toEqual(alice)
+    })
+
+    it('will not import a keyset backup as a user', () => {
+      const keys = createKeyset({ type: KeyType.USER, name: 'alice' })
+      const backup = exportKeyset(keys, passphrase)
+      expect(() => importUser(backup, passphrase)).toThrow('Expected a backup of type USER')
+    })
+  })
+})
@@ -0,0 +1,239 @@
+import { TEST_GRAPH_KEYS as keys } from '_test/helpers/setup.js'
+import { describe, expect, test } from 'vitest'
+import { createCheckpointAction, isCheckpoint, type RootAction } from 'graph/index.js'
+import { createStore } from 'store/index.js'
+import { type Reducer } from 'store/types.js'
+import { createUser } from 'user/index.js'
+
+const alice = createUser('alice')
+const bob = createUser('bob')
+
+/** Wraps the counter reducer so we can tell how many links were reduced */
+const countingReducer = () => {
+  const counter = { calls: 0 }
+  const reducer: Reducer<CounterState, CounterAction> = (state, link) => {
+    counter.calls++
+    return counterReducer(state, link)
+  }
+
+  return { reducer, counter }
+}
+
+const setup = () => {
+  const aliceStore = createStore({ user: alice, reducer: counterReducer, keys })
+  for (let i = 0; i < 5; i++) aliceStore.dispatch({ type: 'INCREMENT' })
+  return { aliceStore }
+}
+
+const trustAlice = {
+  isTrusted: (link: any) => link.body.payload.publicKey === alice.keys.signature.publicKey,
+}
+
+describe('checkpoints', () => {
+  test('adding a checkpoint does not change the state', () => {
+    const { aliceStore } = setup()
+    const hash = aliceStore.checkpoint()
+    expect(isCheckpoint(aliceStore.getGraph().links[hash])).toBe(true)
+    expect(aliceStore.getState().value).toBe(5)
+    expect(aliceStore.validate().isValid).toBe(true)
+  })
+
+  test('a trusted checkpoint is used as a starting point', () => {
+    const { aliceStore } = setup()
+    aliceStore.checkpoint({ includeState: true })
+    aliceStore.dispatch({ type: 'INCREMENT' })
+    aliceStore.dispatch({ type: 'INCREMENT' })
+
+    // Bob trusts Alice's checkpoints
+    const { reducer, counter } = countingReducer()
+    const bobStore = createStore({
+      user: bob,
+      graph: aliceStore.getGraph(),
+      reducer,
+      keys,
+      checkpoints: trustAlice,
+    })
+
+    // Bob only needs to reduce the two links after the checkpoint
+    expect(bobStore.getState().value).toBe(7)
+    expect(counter.calls).toBe(2)
+
+    expect(bobStore.verifyCheckpoints().isValid).toBe(true)
+  })
+
+  test('an untrusted checkpoint is ignored', () => {
+    const { aliceStore } = setup()
+    aliceStore.checkpoint({ includeState: true })
+    aliceStore.dispatch({ type: 'INCREMENT' })
+
+    // By default, Bob only trusts his own checkpoints
+    const { reducer, counter } = countingReducer()
+    const bobStore = createStore({ user: bob, graph: aliceStore.getGraph(), reducer, keys })
+
+    // Bob replays everything: ROOT plus six increments
+    expect(bobStore.getState().value).toBe(6)
+    expect(counter.calls).toBe(7)
+  })
+
+  test('the state can be provided separately', () => {
+    const { aliceStore } = setup()
+    const hash = aliceStore.checkpoint()
+    const checkpointState = aliceStore.getState()
+    aliceStore.dispatch({ type: 'INCREMENT' })
+
+    const loadStore = (states = {}) => {
+      const { reducer, counter } = countingReducer()
+      const store = createStore({
+        user: bob,
+        graph: aliceStore.getGraph(),
+        reducer,
+        keys,
+        checkpoints: { ...trustAlice, states },
+      })
+      return { store, counter }
+    }
+
+    // Without the state, the checkpoint can't be used
+    {
+      const { store, counter } = loadStore()
+      expect(store.getState().value).toBe(6)
+      expect(counter.calls).toBe(7)
+    }
+
+    // With the state, it can
+    {
+      const { store, counter } = loadStore({ [hash]: checkpointState })
+      expect(store.getState().value).toBe(6)
+      expect(counter.calls).toBe(1)
+    }
+
+    // A state that doesn't match the checkpoint's hash is ignored
+    {
+      const { store, counter } = loadStore({ [hash]: { value: 42 } })
+      expect(store.getState().value).toBe(6)
+      expect(counter.calls).toBe(7)
+    }
+  })
+
+  test('a checkpoint that is concurrent with other links is not used', () => {
+    const { aliceStore } = setup()
+
+    const bobStore = createStore({
+      user: bob,
+      graph: aliceStore.getGraph(),
+      reducer: counterReducer,
+      keys,
+      checkpoints: trustAlice,
+    })
+
+    // Alice adds a checkpoint, while Bob concurrently increments the counter
+    aliceStore.checkpoint({ includeState: true })
+    aliceStore.dispatch({ type: 'INCREMENT' })
+    bobStore.dispatch({ type: 'INCREMENT' })
+
+    // When they sync up, Bob can't use the checkpoint, since his link straddles it
+    const { reducer, counter } = countingReducer()
+    const store = createStore({
+      user: bob,
+      graph: bobStore.getGraph(),
+      reducer,
+      keys,
+      checkpoints: trustAlice,
+    })
+    store.merge(aliceStore.getGraph())
+    expect(store.getState().value).toBe(7)
+    expect(counter.calls).toBe(7 + 8) // Bob's own graph, then the merged graph from scratch
+
+    // Once the branches are merged, a new checkpoint can be used
+    store.dispatch({ type: 'INCREMENT' })
+    store.checkpoint({ includeState: true })
+    store.dispatch({ type: 'INCREMENT' })
+
+    const { reducer: reducer2, counter: counter2 } = countingReducer()
+    const bobStore2 = createStore({ user: bob, graph: store.getGraph(), reducer: reducer2, keys })
+    expect(bobStore2.getState().value).toBe(9)
+    expect(counter2.calls).toBe(1)
+  })
+
+  test('a dishonest checkpoint is caught by replaying the graph', () => {
+    const { aliceStore } = setup()
+
+    // Alice signs a checkpoint with the wrong state
+    const action = createCheckpointAction({
+      head: aliceStore.getGraph().head,
+      state: { value: 100 },
+      user: alice,
+      includeState: true,
+    })
+    aliceStore.dispatch(action as any)
+
+    // Bob trusts Alice, so he starts from the wrong state
+    const bobStore = createStore({
+      user: bob,
+      graph: aliceStore.getGraph(),
+      reducer: counterReducer,
+      keys,
+      checkpoints: trustAlice,
+    })
+    expect(bobStore.getState().value).toBe(100)
+
+    // Replaying the whole graph shows that the checkpoint is wrong
+    const result = bobStore.verifyCheckpoints()
+    expect(result.isValid).toBe(false)
+  })
+
+  test('a checkpoint with a forged signature is invalid', () => {
+    const { aliceStore } = setup()
+
+    // Eve tries to pass off a checkpoint as Alice's
+    const eve = createUser('eve')
+    const action = createCheckpointAction({
+      head: aliceStore.getGraph().head,
+      state: { value: 100 },
+      user: eve,
+      includeState: true,
+    })
+    action.payload.publicKey = alice.keys.signature.publicKey
+    aliceStore.dispatch(action as any)
+
+    const bobStore = createStore({
+      user: bob,
+      graph: aliceStore.getGraph(),
+      reducer: counterReducer,
+      keys,
+      checkpoints: trustAlice,
+    })
+    expect(bobStore.getState().value).toBe(5)
+    expect(bobStore.validate().isValid).toBe(false)
+  })
+})
+
+// Counter
+
+type CounterAction =
+  | RootAction
+  | {
+      type: 'INCREMENT'
+      payload: number
+    }
+
+type CounterState = {
+  value: number
+}
+
+const counterReducer: Reducer<CounterState, CounterAction> = (state, link) => {
+  const action = link.body
+  switch (action.type) {
+    case 'ROOT': {
+      return { value: 0 }
+    }
+
+    case 'INCREMENT': {
+      return { ...state, value: state.value + (action.payload ?? 1) }
+    }
+
+    default: {
+      return state
+    }
+  }
+}
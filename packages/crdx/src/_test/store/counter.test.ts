@@ -1,6 +1,6 @@
 import { TEST_GRAPH_KEYS as keys } from '_test/helpers/setup.js'
 import { describe, expect, test } from 'vitest'
-import { type RootAction } from 'graph/index.js'
+import { type MergeReport, type RootAction } from 'graph/index.js'
 import { createStore } from 'store/index.js'
 import { type Reducer } from 'store/types.js'
 import { createUser } from 'user/index.js'
@@ -69,6 +69,28 @@ describe('counter', () => {
       expect(aliceStore.getState().value).toEqual(2)
       expect(bobStore.getState().value).toEqual(2)
     })
+
+    test('merging returns a report of what changed', () => {
+      const { aliceStore, bobStore } = setupCounter()
+      aliceStore.dispatch({ type: 'INCREMENT' })
+      bobStore.dispatch({ type: 'INCREMENT' })
+      bobStore.dispatch({ type: 'INCREMENT' })
+
+      const reports: MergeReport[] = []
+      aliceStore.on('merged', (report: MergeReport) => reports.push(report))
+
+      const previousHead = aliceStore.getGraph().head
+      const report = aliceStore.merge(bobStore.getGraph())
+      expect(report.added).toHaveLength(2)
+      expect(report.previousHead).toEqual(previousHead)
+      expect(report.head).toEqual(aliceStore.getGraph().head)
+      expect(report.isConcurrent).toBe(true)
+      expect(report.invalidated).toEqual([])
+      expect(reports).toEqual([report])
+
+      // Nothing new the second time around
+      expect(aliceStore.merge(bobStore.getGraph()).added).toEqual([])
+    })
   })
 })
 
@@ -0,0 +1,255 @@
+import { TEST_GRAPH_KEYS as keys } from '_test/helpers/setup.js'
+import { describe, expect, test } from 'vitest'
+import {
+  append,
+  applyRedactions,
+  decodeGraph,
+  isRedacted,
+  isRedaction,
+  redactGraph,
+  type RootAction,
+} from 'graph/index.js'
+import { createStore } from 'store/index.js'
+import { type Reducer } from 'store/types.js'
+import { createUser } from 'user/index.js'
+import { type Base58, type Hash } from 'util/index.js'
+import { fail, validate, validateEncryptedGraph, type ValidatorSet } from 'validator/index.js'
+import { REDACT, VALID } from 'constants.js'
+import '_test/helpers/expect/toBeValid'
+
+const alice = createUser('alice', 'alice')
+const bob = createUser('bob', 'bob')
+
+const setup = () => {
+  const aliceStore = createStore({ user: alice, reducer: notesReducer, keys })
+  aliceStore.dispatch({ type: 'ADD_NOTE', payload: 'hello' })
+  aliceStore.dispatch({ type: 'ADD_NOTE', payload: 'my password is hunter2' })
+  const [secret] = aliceStore.getGraph().head
+  aliceStore.dispatch({ type: 'ADD_NOTE', payload: 'goodbye' })
+  aliceStore.dispatch({ type: 'ADD_NOTE', payload: 'see you' })
+  return { aliceStore, secret }
+}
+
+describe('redaction', () => {
+  test('redacting a link erases its body', () => {
+    const { aliceStore, secret } = setup()
+    const hash = aliceStore.redact(secret)
+
+    const graph = aliceStore.getGraph()
+    expect(isRedaction(graph.links[hash])).toBe(true)
+    expect(isRedacted(graph.links[secret])).toBe(true)
+    expect(graph.links[secret].body.payload).toBeUndefined()
+    expect(graph.encryptedLinks[secret].encryptedBody).toBe('')
+
+    // the hash and the link's place in the graph are kept
+    expect(graph.links[secret].body.prev).toHaveLength(1)
+    expect(redactGraph(graph).childMap[secret]).toHaveLength(1)
+
+    // the redacted link no longer affects the state
+    expect(aliceStore.getState().notes).toEqual(['hello', 'goodbye', 'see you'])
+    expect(aliceStore.validate()).toBeValid()
+  })
+
+  test('the redacted link keeps its author, timestamp and clock', () => {
+    const { aliceStore, secret } = setup()
+    const { userId, timestamp, hlc } = aliceStore.getGraph().links[secret].body
+    aliceStore.redact(secret)
+    const { body } = aliceStore.getGraph().links[secret]
+    expect(body.userId).toBe(userId)
+    expect(body.timestamp).toBe(timestamp)
+    expect(hlc).toBeDefined()
+    expect(body.hlc).toEqual(hlc)
+  })
+
+  test('the erased body is not saved', () => {
+    const { aliceStore, secret } = setup()
+    aliceStore.redact(secret)
+    const saved = aliceStore.save()
+
+    const encrypted = decodeGraph(saved)
+    expect(encrypted.encryptedLinks[secret].encryptedBody).toBe('')
+
+    // the graph can still be verified without decrypting it
+    expect(validateEncryptedGraph(encrypted)).toBeValid()
+
+    // someone loading the graph gets the same state
+    const bobStore = createStore({ user: bob, graph: saved, reducer: notesReducer, keys })
+    expect(bobStore.getState()).toEqual(aliceStore.getState())
+    expect(bobStore.validate()).toBeValid()
+  })
+
+  test('a peer who already has the link erases it when they receive the redaction', () => {
+    const { aliceStore, secret } = setup()
+    const bobStore = createStore({
+      user: bob,
+      graph: aliceStore.getGraph(),
+      reducer: notesReducer,
+      keys,
+    })
+    expect(bobStore.getState().notes).toContain('my password is hunter2')
+
+    aliceStore.redact(secret)
+    bobStore.merge(aliceStore.getGraph())
+
+    const graph = bobStore.getGraph()
+    expect(isRedacted(graph.links[secret])).toBe(true)
+    expect(graph.encryptedLinks[secret].encryptedBody).toBe('')
+    expect(bobStore.getState()).toEqual(aliceStore.getState())
+  })
+
+  test('redacted links are appended to a log', () => {
+    const { aliceStore, secret } = setup()
+    const log = aliceStore.saveLog()
+    const previous = aliceStore.getGraph()
+    aliceStore.redact(secret)
+
+    // the appended records include the redaction and the redacted link
+    const appended = aliceStore.saveLog(previous)
+    const bobStore = createStore({
+      user: bob,
+      graph: new Uint8Array([...log, ...appended]),
+      reducer: notesReducer,
+      keys,
+    })
+    expect(bobStore.getGraph().encryptedLinks[secret].encryptedBody).toBe('')
+    expect(bobStore.getState()).toEqual(aliceStore.getState())
+  })
+
+  test('checkpoints made before a redaction are not used', () => {
+    const { aliceStore, secret } = setup()
+    aliceStore.checkpoint({ includeState: true })
+    aliceStore.redact(secret)
+
+    const bobStore = createStore({
+      user: bob,
+      graph: aliceStore.getGraph(),
+      reducer: notesReducer,
+      keys,
+      checkpoints: { isTrusted: () => true },
+    })
+    expect(bobStore.getState().notes).not.toContain('my password is hunter2')
+    expect(bobStore.verifyCheckpoints()).toBeValid()
+  })
+
+  describe('invalid redactions', () => {
+    test(`a link's body can't be erased without a redaction`, () => {
+      const { aliceStore, secret } = setup()
+      const graph = aliceStore.getGraph()
+      graph.encryptedLinks[secret] = {
+        ...graph.encryptedLinks[secret],
+        encryptedBody: '' as Base58,
+      }
+
+      const bobStore = createStore({
+        user: bob,
+        graph: aliceStore.save(),
+        reducer: notesReducer,
+        keys,
+      })
+      expect(bobStore.validate()).not.toBeValid('no redaction')
+    })
+
+    test(`a redaction has to match the link it erases`, () => {
+      const { aliceStore, secret } = setup()
+      const { timestamp } = aliceStore.getGraph().links[secret].body
+      const graph = append({
+        graph: aliceStore.getGraph(),
+        action: { type: REDACT, payload: { hash: secret, userId: 'bob', timestamp } },
+        user: alice,
+        keys,
+      })
+      expect(validate(graph)).not.toBeValid(`doesn't match`)
+    })
+
+    test(`the root can't be redacted`, () => {
+      const { aliceStore } = setup()
+      expect(() => aliceStore.redact(aliceStore.getGraph().root)).toThrow()
+    })
+
+    test(`by default, only a link's author can redact it`, () => {
+      const { aliceStore, secret } = setup()
+      const bobStore = createStore({
+        user: bob,
+        graph: aliceStore.getGraph(),
+        reducer: notesReducer,
+        keys,
+      })
+      bobStore.redact(secret)
+      expect(bobStore.validate()).not.toBeValid('Only the author')
+    })
+
+    test(`a redaction can't claim to be by the author of the link it erases`, () => {
+      const { aliceStore, secret } = setup()
+
+      // 🦹‍♀️ Bob says that he wrote Alice's link
+      const { timestamp } = aliceStore.getGraph().links[secret].body
+      const graph = append({
+        graph: aliceStore.getGraph(),
+        action: { type: REDACT, payload: { hash: secret, userId: 'bob', timestamp } },
+        user: bob,
+        keys,
+      })
+
+      // ❌ Alice's link isn't erased, and the redaction is rejected
+      const redacted = applyRedactions(graph)
+      expect(isRedacted(redacted.links[secret])).toBe(false)
+      expect(validate(redacted)).not.toBeValid(`doesn't match`)
+    })
+
+    test('the application decides who else can redact links', () => {
+      // in this application, Bob is an admin, and can redact anyone's links
+      const validators: ValidatorSet = {
+        validateRedactor(link) {
+          if (!isRedaction(link) || link.body.userId === 'bob') return VALID
+          return fail('Only admins can redact links')
+        },
+      }
+
+      const { aliceStore, secret } = setup()
+      const bobStore = createStore({
+        user: bob,
+        graph: aliceStore.getGraph(),
+        reducer: notesReducer,
+        keys,
+        validators,
+      })
+      bobStore.redact(secret)
+      expect(bobStore.validate()).toBeValid()
+      expect(isRedacted(bobStore.getGraph().links[secret])).toBe(true)
+    })
+  })
+})
+
+// Notes
+
+type NotesAction =
+  | RootAction
+  | {
+      type: 'ADD_NOTE'
+      payload: string
+    }
+  | {
+      type: typeof REDACT
+      payload: { hash: Hash; userId: string; timestamp: number }
+    }
+
+type NotesState = {
+  notes: string[]
+}
+
+const notesReducer: Reducer<NotesState, NotesAction> = (state, link) => {
+  const action = link.body
+  switch (action.type) {
+    case 'ROOT': {
+      return { notes: [] }
+    }
+
+    case 'ADD_NOTE': {
+      return { ...state, notes: [...state.notes, action.payload] }
+    }
+
+    default: {
+      return state
+    }
+  }
+}
@@ -0,0 +1,214 @@
+import { base58, hash } from '@localfirst/crypto'
+import {
+  type TestUserStuff,
+  expectNotToBeSynced,
+  expectToBeSynced,
+  setupWithNetwork,
+} from '_test/helpers/Network.js'
+import { TEST_GRAPH_KEYS as keys } from '_test/helpers/setup.js'
+import { describe, expect, it } from 'vitest'
+import { type Graph, append, createGraph } from 'graph/index.js'
+import { createBloomFilter, readBloomFilter } from 'sync/bloomFilter.js'
+import { generateMessage, initSyncState, receiveMessage } from 'sync/index.js'
+import { createUser } from 'user/index.js'
+import { assert, type Hash } from 'util/index.js'
+import { BLOOM, PARENT_MAP } from 'constants.js'
+
+const setup = setupWithNetwork(keys)
+
+describe('sync', () => {
+  describe('Bloom filters', () => {
+    const hashes = (n: number, seed = 'test') =>
+      Array.from({ length: n }, (_, i) => hash(seed, i) as Hash)
+
+    it('contains every hash added to it', () => {
+      const added = hashes(100)
+      const mightHave = readBloomFilter(createBloomFilter(added))
+      expect(added.every(mightHave)).toBe(true)
+    })
+
+    it('rarely contains hashes that were not added to it', () => {
+      const mightHave = readBloomFilter(createBloomFilter(hashes(100)))
+      const falsePositives = hashes(1000, 'other').filter(mightHave)
+      expect(falsePositives.length).toBeLessThan(50)
+    })
+
+    it('an empty filter contains nothing', () => {
+      const mightHave = readBloomFilter(createBloomFilter([]))
+      expect(hashes(10).some(mightHave)).toBe(false)
+    })
+  })
+
+  describe('using Bloom filters', () => {
+    const N = 15 // "many"
+
+    const makeChanges = (
+      { peer, user }: TestUserStuff,
+      count: number,
+      type: string = user.userName
+    ) => {
+      for (let i = 0; i < count; i++) {
+        peer.graph = append({ graph: peer.graph, action: { type, payload: i }, user, keys })
+      }
+    }
+
+    it('one change', () => {
+      const {
+        userRecords: { alice, bob },
+        network,
+      } = setup('alice', 'bob')
+      network.connect(alice.peer, bob.peer, BLOOM)
+
+      makeChanges(alice, 1)
+      expectNotToBeSynced(alice, bob)
+
+      alice.peer.sync()
+      network.deliverAll()
+      expectToBeSynced(alice, bob)
+    })
+
+    it('many concurrent changes', () => {
+      const {
+        userRecords: { alice, bob },
+        network,
+      } = setup('alice', 'bob')
+      network.connect(alice.peer, bob.peer, BLOOM)
+
+      makeChanges(alice, N)
+      makeChanges(bob, N)
+      expectNotToBeSynced(alice, bob)
+
+      alice.peer.sync()
+      network.deliverAll()
+      expectToBeSynced(alice, bob)
+      expect(Object.keys(alice.peer.graph.links)).toHaveLength(2 * N + 1) // + root
+    })
+
+    it('repeated sets of concurrent changes', () => {
+      const {
+        userRecords: { alice, bob },
+        network,
+      } = setup('alice', 'bob')
+      network.connect(alice.peer, bob.peer, BLOOM)
+
+      for (let i = 0; i < 3; i++) {
+        makeChanges(alice, 3)
+        makeChanges(bob, 3)
+        alice.peer.sync()
+        network.deliverAll()
+        expectToBeSynced(alice, bob)
+      }
+    })
+
+    it('three peers, concurrent changes', () => {
+      const {
+        userRecords: { alice, bob, charlie },
+        network,
+      } = setup('alice', 'bob', 'charlie')
+      network.connect(alice.peer, bob.peer, BLOOM)
+      network.connect(alice.peer, charlie.peer, BLOOM)
+      network.connect(bob.peer, charlie.peer, BLOOM)
+
+      makeChanges(alice, 1)
+      alice.peer.sync()
+      network.deliverAll()
+      expectToBeSynced(alice, bob)
+      expectToBeSynced(bob, charlie)
+
+      // everyone makes changes while offline
+      makeChanges(alice, 1)
+      makeChanges(bob, 1)
+      makeChanges(charlie, 1)
+
+      alice.peer.sync()
+      network.deliverAll()
+      expectToBeSynced(alice, bob)
+      expectToBeSynced(bob, charlie)
+    })
+
+    it('peers using different strategies can sync', () => {
+      const {
+        userRecords: { alice, bob },
+        network,
+      } = setup('alice', 'bob')
+      network.connect(alice.peer, bob.peer, BLOOM, PARENT_MAP)
+
+      makeChanges(alice, N)
+      makeChanges(bob, N)
+
+      alice.peer.sync()
+      network.deliverAll()
+      expectToBeSynced(alice, bob)
+    })
+
+    it('describes a large graph more compactly than a parent map', () => {
+      const alice = createUser('alice')
+      let graph: Graph<any, any> = createGraph({ user: alice, keys })
+      for (let i = 0; i < 100; i++)
+        graph = append({ graph, action: { type: 'FOO', payload: i }, user: alice, keys })
+
+      // we send a description of our graph along with our first message, but no links
+      const [, bloomMessage] = generateMessage(graph, initSyncState(BLOOM))
+      assert(bloomMessage?.have)
+      expect(bloomMessage.links).toBeUndefined()
+
+      const [, parentMapMessage] = generateMessage(graph, initSyncState(PARENT_MAP))
+      const { length } = JSON.stringify(bloomMessage)
+      expect(length).toBeLessThan(JSON.stringify(parentMapMessage?.parentMap).length / 10)
+    })
+
+    it('asks for links that are missing because of false positives', () => {
+      const alice = createUser('alice')
+      const bob = createUser('bob')
+
+      let aliceGraph: Graph<any, any> = createGraph({ user: alice, keys })
+      let bobGraph = { ...aliceGraph }
+      for (let i = 0; i < 3; i++) {
+        aliceGraph = append({
+          graph: aliceGraph,
+          action: { type: 'FOO', payload: i },
+          user: alice,
+          keys,
+        })
+        bobGraph = append({ graph: bobGraph, action: { type: 'BAR', payload: i }, user: bob, keys })
+      }
+
+      let aliceSyncState = initSyncState(BLOOM)
+      let bobSyncState = initSyncState(BLOOM)
+
+      // 👩🏾 Alice sends a Bloom filter that (falsely) claims she has every link
+      let msg
+      ;[aliceSyncState, msg] = generateMessage(aliceGraph, aliceSyncState)
+      assert(msg?.have)
+      const everything = base58.encode(base58.decode(msg.have.bloom).fill(0xff))
+      msg = { ...msg, have: { ...msg.have, bloom: everything } }
+      ;[bobGraph, bobSyncState] = receiveMessage(bobGraph, bobSyncState, msg, keys)
+
+      // 👨🏻‍🦲 Bob doesn't send her any links, but he sends her his head
+      ;[bobSyncState, msg] = generateMessage(bobGraph, bobSyncState)
+      assert(msg)
+      expect(msg.links).toBeUndefined()
+      ;[aliceGraph, aliceSyncState] = receiveMessage(aliceGraph, aliceSyncState, msg, keys)
+
+      // 👩🏾 Alice doesn't have Bob's head, so she asks for it
+      ;[aliceSyncState, msg] = generateMessage(aliceGraph, aliceSyncState)
+      assert(msg)
+      expect(msg.need).toEqual(bobGraph.head)
+
+      // They go back and forth until 👩🏾 Alice has everything
+      let messages = 0
+      while (msg) {
+        ;[bobGraph, bobSyncState] = receiveMessage(bobGraph, bobSyncState, msg, keys)
+        ;[bobSyncState, msg] = generateMessage(bobGraph, bobSyncState)
+        if (!msg) break
+        ;[aliceGraph, aliceSyncState] = receiveMessage(aliceGraph, aliceSyncState, msg, keys)
+        ;[aliceSyncState, msg] = generateMessage(aliceGraph, aliceSyncState)
+        if (messages++ > 20) throw new Error('loop detected')
+      }
+
+      expect(aliceGraph.head).toEqual(bobGraph.head)
+      expect(aliceSyncState.failedSyncCount).toBe(0)
+      expect(bobSyncState.failedSyncCount).toBe(0)
+    })
+  })
+})
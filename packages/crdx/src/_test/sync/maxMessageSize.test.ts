@@ -0,0 +1,248 @@
+import { TEST_GRAPH_KEYS as keys } from '_test/helpers/setup.js'
+import { describe, expect, it } from 'vitest'
+import {
+  type Graph,
+  append,
+  applyRedactions,
+  createGraph,
+  createRedactAction,
+  headsAreEqual,
+  isRedacted,
+} from 'graph/index.js'
+import {
+  generateMessage,
+  initSyncState,
+  receiveMessage,
+  type SyncMessage,
+  type SyncOptions,
+  type SyncState,
+  type SyncStrategy,
+} from 'sync/index.js'
+import { type UserWithSecrets, createUser } from 'user/index.js'
+import { type Base58 } from 'util/index.js'
+import { BLOOM } from 'constants.js'
+
+const alice = createUser('alice')
+const bob = createUser('bob')
+
+describe('sync', () => {
+  describe('maxMessageSize', () => {
+    it('sends links in batches that fit within the limit', () => {
+      const root = createGraph<any>({ user: alice, name: 'test graph', keys })
+      const aliceGraph = appendMany(root, alice, 20)
+      const maxMessageSize = 3 * linkSize(aliceGraph)
+
+      const alicePeer = createPeer(aliceGraph, { maxMessageSize })
+      const bobPeer = createPeer(root, { maxMessageSize })
+
+      // 👨🏻‍🦲 Bob adds each batch as it arrives
+      const bobLinkCounts: number[] = []
+      const messages = syncUp(alicePeer, bobPeer, () => {
+        bobLinkCounts.push(Object.keys(bobPeer.graph.links).length)
+      })
+
+      expect(headsAreEqual(alicePeer.graph.head, bobPeer.graph.head)).toBe(true)
+
+      for (const message of messages)
+        expect(JSON.stringify(message).length).toBeLessThanOrEqual(maxMessageSize)
+
+      // it took several rounds, and Bob's graph grew with each one
+      expect(messages.filter(m => m.links).length).toBeGreaterThan(5)
+      expect(new Set(bobLinkCounts).size).toBeGreaterThan(5)
+      expect(bobPeer.state.failedSyncCount).toBe(0)
+
+      // once Bob has everything, he no longer needs to keep track of the links Alice sent him
+      expect(bobPeer.state.their.sentLinks).toEqual([])
+    })
+
+    it('sends links one at a time if each one is bigger than the limit', () => {
+      const root = createGraph<any>({ user: alice, name: 'test graph', keys })
+      const alicePeer = createPeer(appendMany(root, alice, 5), { maxMessageSize: 1 })
+      const bobPeer = createPeer(root, { maxMessageSize: 1 })
+
+      const messages = syncUp(alicePeer, bobPeer)
+
+      expect(headsAreEqual(alicePeer.graph.head, bobPeer.graph.head)).toBe(true)
+      for (const { links = {} } of messages)
+        expect(Object.keys(links).length).toBeLessThanOrEqual(1)
+    })
+
+    it('sends part of the parent map if all of it would be too big', () => {
+      const root = createGraph<any>({ user: alice, name: 'test graph', keys })
+      const maxMessageSize = 5000
+      const alicePeer = createPeer(appendMany(root, alice, 100), { maxMessageSize })
+      const bobPeer = createPeer(root, { maxMessageSize })
+
+      const messages = syncUp(alicePeer, bobPeer)
+
+      expect(headsAreEqual(alicePeer.graph.head, bobPeer.graph.head)).toBe(true)
+      for (const message of messages)
+        expect(JSON.stringify(message).length).toBeLessThanOrEqual(maxMessageSize)
+
+      // 👩🏾 Alice's first message only described the most recent part of her graph
+      const [{ parentMap = {} }] = messages
+      expect(Object.keys(parentMap).length).toBeGreaterThan(0)
+      expect(Object.keys(parentMap).length).toBeLessThan(100)
+      expect(bobPeer.state.failedSyncCount).toBe(0)
+    })
+
+    it('sends no more than `maxLinks` links at a time', () => {
+      const root = createGraph<any>({ user: alice, name: 'test graph', keys })
+      const alicePeer = createPeer(appendMany(root, alice, 10), { maxLinks: 3 })
+      const bobPeer = createPeer(root, { maxLinks: 3 })
+
+      const messages = syncUp(alicePeer, bobPeer)
+
+      expect(headsAreEqual(alicePeer.graph.head, bobPeer.graph.head)).toBe(true)
+      for (const { links = {} } of messages)
+        expect(Object.keys(links).length).toBeLessThanOrEqual(3)
+      expect(messages.filter(m => m.links).length).toBe(4)
+    })
+
+    it('syncs graphs that have diverged', () => {
+      const root = createGraph<any>({ user: alice, name: 'test graph', keys })
+      const maxMessageSize = 2 * linkSize(root)
+
+      const alicePeer = createPeer(appendMany(root, alice, 10), { maxMessageSize })
+      const bobPeer = createPeer(appendMany(root, bob, 10), { maxMessageSize })
+
+      syncUp(alicePeer, bobPeer)
+
+      expect(headsAreEqual(alicePeer.graph.head, bobPeer.graph.head)).toBe(true)
+      expect(Object.keys(alicePeer.graph.links)).toHaveLength(21)
+    })
+
+    it('works with Bloom filters', () => {
+      const root = createGraph<any>({ user: alice, name: 'test graph', keys })
+      const maxMessageSize = 2 * linkSize(root)
+
+      const alicePeer = createPeer(appendMany(root, alice, 10), { maxMessageSize }, BLOOM)
+      const bobPeer = createPeer(appendMany(root, bob, 10), { maxMessageSize }, BLOOM)
+
+      syncUp(alicePeer, bobPeer)
+
+      expect(headsAreEqual(alicePeer.graph.head, bobPeer.graph.head)).toBe(true)
+      expect(Object.keys(alicePeer.graph.links)).toHaveLength(21)
+    })
+
+    it('holds on to erased links until their redaction arrives', () => {
+      const root = createGraph<any>({ user: alice, name: 'test graph', keys })
+      let aliceGraph = append({
+        graph: root,
+        action: { type: 'FOO', payload: 'secret' },
+        user: alice,
+        keys,
+      })
+      const [secret] = aliceGraph.head
+      aliceGraph = appendMany(aliceGraph, alice, 5)
+
+      // 👩🏾 Alice erases the secret link, so its body is gone by the time she syncs with Bob
+      const action = createRedactAction(aliceGraph.links[secret])
+      aliceGraph = applyRedactions(append({ graph: aliceGraph, action, user: alice, keys }))
+      expect(isRedacted(aliceGraph.links[secret])).toBe(true)
+
+      const maxMessageSize = 2 * linkSize(root)
+      const alicePeer = createPeer(aliceGraph, { maxMessageSize })
+      const bobPeer = createPeer(root, { maxMessageSize })
+
+      // 👨🏻‍🦲 Bob gets the erased link long before the redaction
+      syncUp(alicePeer, bobPeer)
+
+      expect(headsAreEqual(alicePeer.graph.head, bobPeer.graph.head)).toBe(true)
+      expect(isRedacted(bobPeer.graph.links[secret])).toBe(true)
+      expect(bobPeer.state.failedSyncCount).toBe(0)
+    })
+
+    it('gives up on erased links if their redaction never arrives', () => {
+      const root = createGraph<any>({ user: alice, name: 'test graph', keys })
+      let aliceGraph = append({
+        graph: root,
+        action: { type: 'FOO', payload: 'secret' },
+        user: alice,
+        keys,
+      })
+      const [secret] = aliceGraph.head
+      aliceGraph = appendMany(aliceGraph, alice, 5)
+
+      // 🦹‍♀️ Alice sends the secret link without its body, but there's no redaction for it
+      const erasedLink = { ...aliceGraph.encryptedLinks[secret], encryptedBody: '' as Base58 }
+      aliceGraph = {
+        ...aliceGraph,
+        encryptedLinks: { ...aliceGraph.encryptedLinks, [secret]: erasedLink },
+      }
+
+      const maxMessageSize = 2 * linkSize(root)
+      const alicePeer = createPeer(aliceGraph, { maxMessageSize })
+      const bobPeer = createPeer(root, { maxMessageSize })
+
+      // 👨🏻‍🦲 Bob gets everything up to Alice's head, but never a redaction
+      let [sender, receiver] = [alicePeer, bobPeer]
+      for (let i = 0; bobPeer.state.failedSyncCount === 0; i++) {
+        if (i > 100) throw new Error('loop detected')
+        send(sender, receiver)
+        ;[sender, receiver] = [receiver, sender]
+      }
+
+      // 👨🏻‍🦲 so he doesn't hold on to the erased link, or the ones that depend on it, any longer
+      expect(bobPeer.graph.links).not.toHaveProperty(secret)
+      expect(bobPeer.state.their.encryptedLinks).toEqual({})
+      expect(bobPeer.state.failedSyncCount).toBe(1)
+      expect(bobPeer.state.our.reportedError?.message).toContain('without their redaction')
+    })
+  })
+})
+
+// HELPERS
+
+type TestPeer = {
+  graph: Graph<any, any>
+  state: SyncState
+  options: SyncOptions
+}
+
+const createPeer = (
+  graph: Graph<any, any>,
+  options: SyncOptions,
+  strategy?: SyncStrategy
+): TestPeer => ({ graph, state: initSyncState(strategy), options })
+
+const appendMany = (graph: Graph<any, any>, user: UserWithSecrets, count: number) => {
+  for (let i = 0; i < count; i++)
+    graph = append({ graph, action: { type: 'FOO', payload: i }, user, keys })
+  return graph
+}
+
+/** The size of one of the graph's links (they're all about the same size) */
+const linkSize = (graph: Graph<any, any>) =>
+  JSON.stringify(graph.encryptedLinks[graph.head[0]]).length
+
+/** Sends a message from one peer to the other, if the sender has anything to say */
+const send = (sender: TestPeer, receiver: TestPeer) => {
+  let message
+  ;[sender.state, message] = generateMessage(sender.graph, sender.state, sender.options)
+  if (message)
+    [receiver.graph, receiver.state] = receiveMessage(receiver.graph, receiver.state, message, keys)
+  return message
+}
+
+/** Exchanges messages between the two peers until neither has anything more to say */
+const syncUp = (a: TestPeer, b: TestPeer, onReceive?: () => void) => {
+  const messages: SyncMessage[] = []
+  let [sender, receiver] = [a, b]
+  let done = 0
+  while (done < 2) {
+    const message = send(sender, receiver)
+    if (message) {
+      messages.push(message)
+      onReceive?.()
+      done = 0
+    } else {
+      done++
+    }
+
+    ;[sender, receiver] = [receiver, sender]
+    if (messages.length > 100) throw new Error('loop detected')
+  }
+
+  return messages
+}
@@ -1,7 +1,7 @@
-import { asymmetric, signatures, symmetric } from '@localfirst/crypto'
+import { asymmetric, mnemonic, signatures, symmetric } from '@localfirst/crypto'
 import { describe, expect, it } from 'vitest'
 import '_test/helpers/expect/toLookLikeKeyset'
-import { createUser } from 'user/index.js'
+import { createUser, createUserFromMnemonic } from 'user/index.js'
 
 describe('user', () => {
   it('creates a new user', () => {
@@ -10,6 +10,16 @@ describe('user', () => {
     expect(bob).toHaveProperty('keys')
   })
 
+  it('regenerates the same keys from a mnemonic', () => {
+    const words = mnemonic.generate()
+    const bob = createUserFromMnemonic('bob', 'bob-id', words)
+    const bobAgain = createUserFromMnemonic('bob', 'bob-id', words.toUpperCase())
+    expect(bobAgain).toEqual(bob)
+
+    const eve = createUserFromMnemonic('bob', 'bob-id', mnemonic.generate())
+    expect(eve.keys).not.toEqual(bob.keys)
+  })
+
   describe('working keys', () => {
     const message = 'the crocodile lunges at dawn'
 
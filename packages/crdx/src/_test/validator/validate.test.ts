@@ -27,6 +27,18 @@ describe('graphs', () => {
         const newGraph = append({ graph, action: newLink, user: alice, keys })
         expect(validate(newGraph)).toBeValid()
       })
+
+      test(`clock slightly ahead of ours`, () => {
+        const graph = createGraph({ user: alice, name: 'Spies Я Us', keys })
+
+        // Alice's clock is a minute ahead of ours
+        const now = Date.now()
+        setSystemTime(now + 60 * 1000)
+        const newGraph = append({ graph, action: { type: 'FOO', payload: 1 }, user: alice, keys })
+        setSystemTime(now)
+
+        expect(validate(newGraph)).toBeValid()
+      })
     })
 
     describe('invalid graphs', () => {
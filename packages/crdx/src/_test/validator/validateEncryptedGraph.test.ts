@@ -0,0 +1,157 @@
+import { buildGraph } from '_test/helpers/graph.js'
+import { TEST_GRAPH_KEYS as keys, setup } from '_test/helpers/setup.js'
+import { describe, expect, test } from 'vitest'
+import { append, createGraph, type EncryptedGraph, redactGraph, signLink } from 'graph/index.js'
+import { type Hash } from 'util/index.js'
+import { validate } from 'validator/validate.js'
+import { validateEncryptedGraph } from 'validator/validateEncryptedGraph.js'
+import '_test/helpers/expect/toBeValid'
+
+const { alice, bob, eve } = setup('alice', 'bob', 'eve')
+
+describe('graphs', () => {
+  describe('validateEncryptedGraph', () => {
+    const setupGraph = (): EncryptedGraph => {
+      const graph = buildGraph(`
+                           ┌─ e ─ g ─┐
+                 ┌─ c ─ d ─┤         ├─ o ─┐
+          a ─ b ─┤         └─── f ───┤     ├─ n
+                 ├──── h ──── i ─────┘     │
+                 └───── j ─── k ── l ──────┘
+      `)
+
+      // we clone the graph so we can tamper with it
+      return structuredClone(redactGraph(graph))
+    }
+
+    const nonRootHash = (graph: EncryptedGraph) =>
+      (Object.keys(graph.encryptedLinks) as Hash[]).find(
+        hash => hash !== graph.root && !graph.head.includes(hash)
+      )!
+
+    describe('valid graphs', () => {
+      test('a graph with signed links', () => {
+        expect(validateEncryptedGraph(setupGraph())).toBeValid()
+      })
+
+      test('a graph with links by several authors', () => {
+        let graph = createGraph({ user: alice, name: 'test', keys })
+        graph = append({ graph, action: { type: 'FOO', payload: 1 }, user: bob, keys })
+        expect(validateEncryptedGraph(redactGraph(graph))).toBeValid()
+      })
+
+      test('unsigned links, if signatures are not required', () => {
+        let graph = createGraph({ user: alice, name: 'test', keys })
+        graph = append({ graph, action: { type: 'FOO', payload: 1 }, user: bob, keys, sign: false })
+        const encrypted = redactGraph(graph)
+        expect(validateEncryptedGraph(encrypted)).not.toBeValid()
+        expect(validateEncryptedGraph(encrypted, { requireSignatures: false })).toBeValid()
+      })
+    })
+
+    describe('invalid graphs', () => {
+      test('tampered encrypted body', () => {
+        const graph = setupGraph()
+        const link = graph.encryptedLinks[nonRootHash(graph)]
+        link.encryptedBody = graph.encryptedLinks[graph.root].encryptedBody
+        expect(validateEncryptedGraph(graph)).not.toBeValid()
+      })
+
+      test('tampered structure', () => {
+        const graph = setupGraph()
+
+        // Make the head a child of the root as well
+        const [head] = graph.head
+        graph.childMap[graph.root].push(head)
+        expect(validateEncryptedGraph(graph)).not.toBeValid('signature is not valid')
+      })
+
+      test('missing link', () => {
+        const graph = setupGraph()
+        const { [nonRootHash(graph)]: _missing, ...encryptedLinks } = graph.encryptedLinks
+        graph.encryptedLinks = encryptedLinks
+        expect(validateEncryptedGraph(graph)).not.toBeValid('missing')
+      })
+
+      test('wrong head', () => {
+        const graph = setupGraph()
+        graph.head = [nonRootHash(graph)]
+        expect(validateEncryptedGraph(graph)).not.toBeValid('head')
+      })
+
+      test('root with parents', () => {
+        const graph = setupGraph()
+        const hash = nonRootHash(graph)
+        graph.childMap[hash] = [...(graph.childMap[hash] ?? []), graph.root]
+        expect(validateEncryptedGraph(graph)).not.toBeValid('root link cannot have parents')
+      })
+
+      test('cycle', () => {
+        const graph = setupGraph()
+        const [head] = graph.head
+        const hash = nonRootHash(graph)
+        graph.childMap[head] = [hash]
+        expect(validateEncryptedGraph(graph)).not.toBeValid()
+      })
+
+      test('forged signature', () => {
+        const graph = setupGraph()
+        const link = graph.encryptedLinks[nonRootHash(graph)]
+        link.signature = graph.encryptedLinks[graph.root].signature
+        expect(validateEncryptedGraph(graph)).not.toBeValid('signature is not valid')
+      })
+
+      test('signed by someone who is not allowed to author links', () => {
+        let graph = createGraph({ user: alice, name: 'test', keys })
+        graph = append({ graph, action: { type: 'FOO', payload: 1 }, user: eve, keys })
+        const isValidSigner = (publicKey: string) => publicKey !== eve.keys.signature.publicKey
+        expect(validateEncryptedGraph(redactGraph(graph), { isValidSigner })).not.toBeValid(
+          'not allowed'
+        )
+      })
+    })
+
+    test('the signature is checked when validating a decrypted graph', () => {
+      let graph = createGraph({ user: alice, name: 'test', keys })
+      graph = append({ graph, action: { type: 'FOO', payload: 1 }, user: bob, keys })
+
+      const [head] = graph.head
+      graph.encryptedLinks[head].signature = graph.encryptedLinks[graph.root].signature
+      expect(validate(graph)).not.toBeValid('signature is not valid')
+    })
+
+    test(`a link can't be re-signed by someone other than its author`, () => {
+      let graph = createGraph({ user: alice, name: 'test', keys })
+      graph = append({ graph, action: { type: 'FOO', payload: 1 }, user: bob, keys })
+
+      // 🦹‍♀️ Eve replaces Bob's signature with her own
+      const [head] = graph.head
+      const encryptedLink = graph.encryptedLinks[head]
+      encryptedLink.signerPublicKey = eve.keys.signature.publicKey
+      encryptedLink.signature = signLink(
+        head,
+        graph.links[head].body.prev,
+        eve.keys.signature.secretKey
+      )
+
+      // the signature itself is valid, and Eve is allowed to author links
+      expect(validateEncryptedGraph(redactGraph(graph))).toBeValid()
+
+      // but she didn't write this link
+      expect(validate(graph)).not.toBeValid('not signed by its author')
+    })
+
+    test(`a link's signature can't be stripped`, () => {
+      let graph = createGraph({ user: alice, name: 'test', keys })
+      graph = append({ graph, action: { type: 'FOO', payload: 1 }, user: bob, keys })
+
+      // 🦹‍♀️ Eve removes Bob's signature, so that the link no longer says who wrote it
+      const [head] = graph.head
+      delete graph.encryptedLinks[head].signerPublicKey
+      delete graph.encryptedLinks[head].signature
+
+      // but Bob recorded his signature key in the link's body
+      expect(validate(graph)).not.toBeValid('signature is missing')
+    })
+  })
+})
@@ -6,18 +6,29 @@ export const SIGNATURE = 'SIGNATURE'
 export const ENCRYPTION = 'ENCRYPTION'
 export const SYMMETRIC = 'SYMMETRIC'
 export const LINK_HASH = 'LINK_HASH'
+export const STATE_HASH = 'STATE_HASH'
 
 export const HashPurpose = {
   SIGNATURE,
   ENCRYPTION,
   SYMMETRIC,
   LINK_HASH,
+  STATE_HASH,
 } as const
 
 export const ROOT = 'ROOT'
 export const MERGE = 'MERGE'
+export const CHECKPOINT = 'CHECKPOINT'
+export const LINK_SIGNATURE = 'LINK_SIGNATURE'
+export const REDACT = 'REDACT'
+export const REDACTED = 'REDACTED'
+export const PARENT_MAP = 'PARENT_MAP'
+export const BLOOM = 'BLOOM'
 export const VALID = { isValid: true } as ValidationResult
 
+/** How far ahead of our clock another device's clock can be, in milliseconds */
+export const MAX_CLOCK_SKEW = 5 * 60 * 1000 // five minutes
+
 export const EPHEMERAL_SCOPE: KeyScope = {
   type: 'EPHEMERAL',
   name: 'EPHEMERAL',
@@ -1,6 +1,10 @@
 ﻿import { asymmetric } from '@localfirst/crypto'
+import { inheritConcurrencyIndex } from './concurrencyIndex.js'
 import { type EMPTY_GRAPH } from './createGraph.js'
 import { hashEncryptedLink } from './hashLink.js'
+import { tickClock } from './hlc.js'
+import { inheritLinkIndex } from './linkIndex.js'
+import { signLink } from './signLink.js'
 import type { Action, EncryptedLink, Graph, Link, LinkBody } from './types.js'
 import type { KeysetWithSecrets } from 'keyset/index.js'
 import type { UserWithSecrets } from 'user/index.js'
@@ -21,6 +25,12 @@ type AppendParams<A extends Action, C> = {
 
   /** Keyset used to encrypt & decrypt the link. */
   keys: KeysetWithSecrets
+
+  /**
+   * If true (the default), the link is signed with the author's signature keys, so that its
+   * integrity and authorship can be checked without decrypting it.
+   */
+  sign?: boolean
 }
 
 export const append = <A extends Action, C>({
@@ -29,6 +39,7 @@ export const append = <A extends Action, C>({
   user,
   context = {} as C,
   keys,
+  sign = true,
 }: AppendParams<A, C>): Graph<A, C> => {
   // the "sender" of this encrypted link is the user authoring the link
   const { publicKey: senderPublicKey, secretKey: senderSecretKey } = user.keys.encryption
@@ -37,13 +48,18 @@ export const append = <A extends Action, C>({
   const { publicKey: recipientPublicKey } = keys.encryption
 
   // create unencrypted body
+  const timestamp = Date.now() as UnixTimestamp
+  const prev = graph.head ?? [] // If there are no previous heads, this is the root node
+  const parents = graph.root === undefined ? [] : prev.map(hash => graph.links[hash])
   const body: LinkBody<A, C> = {
     ...action,
     ...context,
     userId: user.userId,
-    timestamp: Date.now() as UnixTimestamp,
-    prev: graph.head ?? [], // If there are no previous heads, this is the root node
+    timestamp,
+    prev,
+    hlc: tickClock(parents, timestamp),
   }
+  if (sign) body.signerPublicKey = user.keys.signature.publicKey
 
   // create encrypted body
   const encryptedBody = asymmetric.encrypt({
@@ -66,8 +82,14 @@ export const append = <A extends Action, C>({
     encryptedBody,
   }
 
+  // sign the link so that it can be verified without decrypting it
+  if (sign) {
+    encryptedLink.signerPublicKey = body.signerPublicKey
+    encryptedLink.signature = signLink(hash, body.prev, user.keys.signature.secretKey)
+  }
+
   // return new graph
-  return {
+  const newGraph: Graph<A, C> = {
     // if the graph didn't already have a root, this is it
     root: graph.root ?? hash,
 
@@ -86,4 +108,13 @@ export const append = <A extends Action, C>({
       [hash]: link,
     },
   }
+
+  // if we've already worked out which links are concurrent, or indexed the links, we only need to
+  // update that
+  if (graph.root !== undefined) {
+    inheritConcurrencyIndex(graph, newGraph)
+    inheritLinkIndex(graph, newGraph, [link])
+  }
+
+  return newGraph
 }
@@ -0,0 +1,96 @@
+import { hash, signatures, type Base58 } from '@localfirst/crypto'
+import { type Link } from './types.js'
+import { CHECKPOINT, HashPurpose } from 'constants.js'
+import { type UserWithSecrets } from 'user/index.js'
+import { type Hash } from 'util/index.js'
+
+/**
+ * A checkpoint is a link that records the state reduced from all of the links that precede it.
+ * Someone loading the graph who trusts the checkpoint's author can start reducing from that state,
+ * instead of replaying the whole graph from the root.
+ *
+ * The author signs the state hash together with the checkpoint's `prev` hashes, so the signature
+ * can't be reused for a different point in the graph.
+ */
+export type CheckpointPayload<S = unknown> = {
+  /** Hash of the state reduced from all the links that precede the checkpoint (see `hashState`) */
+  stateHash: Hash
+
+  /** The author's public signature key */
+  publicKey: Base58
+
+  /** The author's signature of the state hash and the checkpoint's `prev` hashes */
+  signature: Base58
+
+  /** (optional) The state itself. If it's not included, the state needs to be stored elsewhere. */
+  state?: S
+}
+
+export type CheckpointAction<S = unknown> = {
+  type: typeof CHECKPOINT
+  payload: CheckpointPayload<S>
+}
+
+/** Returns true if this is a checkpoint link */
+export const isCheckpoint = <S = unknown>(
+  link: Link<any, any>
+): link is Link<CheckpointAction<S>, any> => link.body.type === CHECKPOINT
+
+/**
+ * Returns a hash of the given state. The state needs to be serializable, and two states that are
+ * the same need to have their properties in the same order.
+ */
+export const hashState = (state: unknown) => hash(HashPurpose.STATE_HASH, state) as Hash
+
+/**
+ * Creates a checkpoint action for the given state, to be appended to a graph whose head is `head`.
+ * The state must be the one reduced from that graph.
+ */
+export const createCheckpointAction = <S>({
+  head,
+  state,
+  user,
+  includeState = false,
+}: {
+  /** The head of the graph that the checkpoint will be appended to */
+  head: Hash[]
+
+  /** The state reduced from that graph */
+  state: S
+
+  /** The author of the checkpoint, who signs it */
+  user: UserWithSecrets
+
+  /** If true, the state itself is included in the checkpoint */
+  includeState?: boolean
+}): CheckpointAction<S> => {
+  const stateHash = hashState(state)
+  const signature = signatures.sign(
+    { stateHash, prev: head },
+    user.keys.signature.secretKey,
+    CHECKPOINT
+  )
+  const payload: CheckpointPayload<S> = {
+    stateHash,
+    publicKey: user.keys.signature.publicKey,
+    signature,
+    ...(includeState ? { state } : {}),
+  }
+  return { type: CHECKPOINT, payload }
+}
+
+/**
+ * Returns true if the checkpoint's signature is valid, and its state (if included) matches its
+ * state hash. This doesn't tell us whether the state hash is _correct_: for that we need to trust
+ * the author, or replay the graph.
+ */
+export const verifyCheckpoint = (link: Link<CheckpointAction, any>) => {
+  const { stateHash, publicKey, signature, state } = link.body.payload
+  const isSigned = signatures.verify({
+    payload: { stateHash, prev: link.body.prev },
+    signature,
+    publicKey,
+    context: CHECKPOINT,
+  })
+  return isSigned && (state === undefined || hashState(state) === stateHash)
+}
@@ -1,7 +1,5 @@
-import memize from 'memize'
-import { getHashes, getLink } from './graph.js'
-import { isPredecessorHash } from './predecessors.js'
-import { isSuccessorHash } from './successors.js'
+import { getConcurrencyIndex, getSegment, isPredecessorInBubble } from './concurrencyIndex.js'
+import { getLink } from './graph.js'
 import { type Action, type Link, type Graph } from './types.js'
 import { type Hash } from 'util/index.js'
 
@@ -14,8 +12,23 @@ export const getConcurrentLinks = <A extends Action, C>(
 }
 
 export const getConcurrentHashes = (graph: Graph<any, any>, hash: Hash): Hash[] => {
-  const concurrencyLookup = calculateConcurrency(graph)
-  return concurrencyLookup[hash]
+  const index = getConcurrencyIndex(graph)
+  const segment = getSegment(index, hash)
+  if (segment === undefined) return []
+
+  // Only links in the same bubble can be concurrent with this one
+  const { start, end, position } = segment
+  const concurrentHashes: Hash[] = []
+  for (let other = start; other < end; other++) {
+    if (
+      other !== position &&
+      !isPredecessorInBubble(graph, index, segment, other, position) &&
+      !isPredecessorInBubble(graph, index, segment, position, other)
+    )
+      concurrentHashes.push(index.order[other])
+  }
+
+  return concurrentHashes.sort()
 }
 
 /**
@@ -28,50 +41,42 @@ export const getConcurrentHashes = (graph: Graph<any, any>, hash: Hash): Hash[]
  * }
  * ```
  */
-export const calculateConcurrency = memize(<A extends Action, C>(graph: Graph<A, C>) => {
+export const calculateConcurrency = <A extends Action, C>(graph: Graph<A, C>) => {
   const concurrencyLookup: Record<Hash, Hash[]> = {}
-
-  // for each link, find all links that are concurrent with it
   for (const _ in graph.links) {
     const hash = _ as Hash
-    concurrencyLookup[hash] = getHashes(graph)
-      .filter(b => isConcurrent(graph, hash, b))
-      .sort()
+    concurrencyLookup[hash] = getConcurrentHashes(graph, hash)
   }
 
   return concurrencyLookup
-})
-
-export const isConcurrent = <A extends Action, C>(graph: Graph<A, C>, a: Hash, b: Hash) =>
-  a !== b && // a link isn't concurrent with itself
-  !isPredecessorHash(graph, a, b) && // a link isn't concurrent with any of its predecessors
-  !isSuccessorHash(graph, a, b) // a link isn't concurrent with any of its successors
+}
 
-export const getConcurrentBubbles = <A extends Action, C>(graph: Graph<A, C>): Hash[][] => {
-  const seen: Record<Hash, boolean> = {}
+export const isConcurrent = <A extends Action, C>(graph: Graph<A, C>, a: Hash, b: Hash) => {
+  if (a === b) return false // a link isn't concurrent with itself
 
-  // returns an array containing the given hash and all hashes directly or indirectly concurrent with it
-  const getBubble = (a: Hash) => {
-    const bubble = [a]
-    for (const b of getConcurrentHashes(graph, a))
-      if (!seen[b]) {
-        seen[b] = true
-        bubble.push(...getBubble(b))
-      }
+  // links in different bubbles are never concurrent
+  const index = getConcurrencyIndex(graph)
+  const segment = getSegment(index, a)
+  const positionB = index.position.get(b)
+  if (segment === undefined || positionB === undefined) return false
+  if (positionB < segment.start || positionB >= segment.end) return false
 
-    return bubble
-  }
+  return (
+    !isPredecessorInBubble(graph, index, segment, segment.position, positionB) && // a link isn't concurrent with any of its successors
+    !isPredecessorInBubble(graph, index, segment, positionB, segment.position) // a link isn't concurrent with any of its predecessors
+  )
+}
 
+/**
+ * Returns the groups of links that are directly or indirectly concurrent with each other, in
+ * topological order.
+ */
+export const getConcurrentBubbles = <A extends Action, C>(graph: Graph<A, C>): Hash[][] => {
+  const { order, segments } = getConcurrencyIndex(graph)
   const bubbles: Hash[][] = []
-  for (const _ in graph.links) {
-    const hash = _ as Hash
-    if (!seen[hash]) {
-      seen[hash] = true
-      const bubble = getBubble(hash)
-      if (bubble.length > 1) {
-        bubbles.push(bubble)
-      }
-    }
+  for (const [i, start] of segments.entries()) {
+    const end = segments[i + 1] ?? order.length
+    if (end - start > 1) bubbles.push(order.slice(start, end))
   }
 
   return bubbles
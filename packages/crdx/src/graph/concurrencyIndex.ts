@@ -0,0 +1,321 @@
+/* eslint-disable no-bitwise */
+// Reachability within a bubble is stored as bitsets
+
+import { type Graph } from './types.js'
+import { type Hash } from 'util/index.js'
+
+/**
+ * Precomputed information about which links of a graph can be concurrent with each other.
+ *
+ * Two links are concurrent if neither is a predecessor of the other. If we lay the graph out in
+ * topological order, the groups of links that are (directly or indirectly) concurrent with each
+ * other — the "bubbles" — always take up contiguous ranges of that order, and every link in a
+ * range is a predecessor of every link in the following ranges. So we can find all the bubbles
+ * with a single pass through the graph, and we only ever need to compare links within the same
+ * bubble.
+ */
+export type ConcurrencyIndex = {
+  /** All hashes in the graph, in topological order */
+  order: Hash[]
+
+  /** Each hash's position in `order` */
+  position: Map<Hash, number>
+
+  /**
+   * The positions in `order` where each segment starts. A segment is either a bubble, or a single
+   * link that is not concurrent with any other link.
+   */
+  segments: number[]
+
+  /** Reachability within each bubble (by starting position), calculated as needed */
+  reachability: Map<number, Uint32Array[]>
+}
+
+/**
+ * Returns the concurrency index for the given graph. If the graph was created by appending to or
+ * merging another graph that has already been indexed, the existing index is extended rather than
+ * calculated from scratch.
+ */
+export const getConcurrencyIndex = (graph: Graph<any, any>): ConcurrencyIndex => {
+  let index = indexes.get(graph)
+  if (index === undefined) {
+    const basis = bases.get(graph)
+    index = basis === undefined ? createIndex(graph) : extendIndex(basis, graph)
+    indexes.set(graph, index)
+  }
+
+  return index
+}
+
+/**
+ * Records that the graph `to` was created by adding links to the graph `from`, so that if a
+ * concurrency index exists (or will exist) for `from`, it can be reused for `to`.
+ */
+export const inheritConcurrencyIndex = (from: Graph<any, any>, to: Graph<any, any>) => {
+  const basis = indexes.get(from) ?? bases.get(from)
+  if (basis !== undefined) bases.set(to, basis)
+}
+
+/** Returns the range of positions `[start, end)` of the segment that contains the given hash */
+export const getSegment = (index: ConcurrencyIndex, hash: Hash) => {
+  const position = index.position.get(hash)
+  if (position === undefined) return undefined
+
+  // binary search for the last segment starting at or before this position
+  const { segments } = index
+  let low = 0
+  let high = segments.length - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (segments[mid] <= position) low = mid
+    else high = mid - 1
+  }
+
+  const start = segments[low]
+  const end = segments[low + 1] ?? index.order.length
+  return { start, end, position }
+}
+
+/**
+ * Returns the hashes of all links in the segments after the one containing the given hash. These
+ * are all successors of every link in that segment.
+ */
+export const getHashesAfterSegment = (graph: Graph<any, any>, hash: Hash) => {
+  const index = getConcurrencyIndex(graph)
+  const segment = getSegment(index, hash)
+  return segment === undefined ? [] : index.order.slice(segment.end)
+}
+
+/**
+ * Returns true if the link at position `a` is a predecessor of the link at position `b`, given
+ * that both are in the bubble starting at `start`.
+ */
+export const isPredecessorInBubble = (
+  graph: Graph<any, any>,
+  index: ConcurrencyIndex,
+  { start, end }: { start: number; end: number },
+  a: number,
+  b: number
+) => {
+  const predecessors = getReachability(graph, index, start, end)[b - start]
+  const i = a - start
+  return (predecessors[i >>> 5] & (1 << (i & 31))) !== 0
+}
+
+// HELPERS
+
+const indexes = new WeakMap<Graph<any, any>, ConcurrencyIndex>()
+const bases = new WeakMap<Graph<any, any>, ConcurrencyIndex>()
+
+const createIndex = (graph: Graph<any, any>): ConcurrencyIndex => {
+  const order = sortHashes(Object.keys(graph.links) as Hash[], hash => uniqueParents(graph, hash))
+  const position = new Map(order.map((hash, i) => [hash, i]))
+  const segments = findSegments(graph, order, position, 0)
+  return { order, position, segments, reachability: new Map() }
+}
+
+/** Extends the index of a graph to cover a graph that contains all of its links, and more */
+const extendIndex = (basis: ConcurrencyIndex, graph: Graph<any, any>): ConcurrencyIndex => {
+  const newHashes = (Object.keys(graph.links) as Hash[]).filter(hash => !basis.position.has(hash))
+  if (newHashes.length === 0) return basis
+
+  // New links can't be predecessors of old links, so the old order can stay as it is
+  const newOrder = sortHashes(newHashes, hash => uniqueParents(graph, hash))
+  const order = basis.order.concat(newOrder)
+  const position = new Map(basis.position)
+  for (const [i, hash] of newOrder.entries()) position.set(hash, basis.order.length + i)
+
+  // The old segment boundaries stay valid up to the point where the new links branch off
+  let resumeFrom = Number.POSITIVE_INFINITY
+  for (const hash of newOrder) {
+    const parents = uniqueParents(graph, hash)
+      .map(parent => position.get(parent))
+      .filter(p => p !== undefined) as number[]
+    if (parents.some(p => p >= basis.order.length)) continue // this follows another new link
+    resumeFrom = Math.min(resumeFrom, Math.max(-1, ...parents))
+  }
+
+  const keptSegments = basis.segments.filter(start => start <= resumeFrom)
+  const start = keptSegments.pop() ?? 0
+  const segments = keptSegments.concat(findSegments(graph, order, position, start))
+
+  // Reachability within the bubbles we kept is unchanged
+  const reachability = new Map([...basis.reachability].filter(([s]) => s < start))
+
+  return { order, position, segments, reachability }
+}
+
+/**
+ * Sorts the given hashes topologically, using Kahn's algorithm. Any parents that aren't among the
+ * given hashes are ignored.
+ */
+export const sortHashes = (hashes: Hash[], getParents: (hash: Hash) => Hash[]) => {
+  const isIncluded = new Set(hashes)
+  const remainingParents = new Map<Hash, number>()
+  const children = new Map<Hash, Hash[]>()
+  for (const hash of hashes) {
+    const parents = getParents(hash).filter(parent => isIncluded.has(parent))
+    remainingParents.set(hash, parents.length)
+    for (const parent of parents) {
+      if (!children.has(parent)) children.set(parent, [])
+      children.get(parent)!.push(hash)
+    }
+  }
+
+  // Start with the links that have no parents left, in a predictable order
+  const sorted = hashes.filter(hash => remainingParents.get(hash) === 0).sort()
+  for (const hash of sorted) {
+    // (links pushed onto `sorted` inside this loop are visited too)
+    for (const child of children.get(hash) ?? []) {
+      const remaining = remainingParents.get(child)! - 1
+      remainingParents.set(child, remaining)
+      if (remaining === 0) sorted.push(child)
+    }
+  }
+
+  return sorted
+}
+
+/**
+ * Finds the positions in `order` where segments start, from position `start` onwards (where we
+ * know a segment starts).
+ *
+ * We move through the links in order, keeping track of the "frontier" (the links we've seen that
+ * have no children among the links we've seen) and the "next" links (the links we haven't seen yet
+ * whose parents we've all seen). We've reached the end of a segment when every one of the next
+ * links has every one of the frontier links as a parent: in that case, every link we haven't seen
+ * yet is a successor of every link we have seen.
+ *
+ * Everything before `start` is treated as a single virtual link, which is the parent of any link
+ * that has parents before `start` (or no parents at all).
+ */
+const findSegments = (
+  graph: Graph<any, any>,
+  order: Hash[],
+  position: Map<Hash, number>,
+  start: number
+) => {
+  const VIRTUAL = -1
+  const count = order.length - start
+
+  // Parents and children are given by position, offset by `start`
+  const parents: number[][] = []
+  const children: number[][] = Array.from({ length: count }, () => [])
+  const virtualChildren: number[] = []
+  const remainingParents = new Int32Array(count)
+  for (let i = 0; i < count; i++) {
+    const parentPositions = uniqueParents(graph, order[start + i])
+      .map(parent => position.get(parent))
+      .filter(p => p !== undefined) as number[]
+    const parentsInRange = parentPositions.filter(p => p >= start).map(p => p - start)
+    const hasVirtualParent =
+      parentsInRange.length < parentPositions.length || parentsInRange.length === 0
+
+    parents[i] = hasVirtualParent ? [VIRTUAL, ...parentsInRange] : parentsInRange
+    if (hasVirtualParent) virtualChildren.push(i)
+    for (const p of parentsInRange) children[p].push(i)
+    remainingParents[i] = parentsInRange.length
+  }
+
+  const isFrontier = new Uint8Array(count)
+  let virtualIsFrontier = true
+  let frontierCount = 1
+
+  // For each of the next links, we count how many of its parents are on the frontier
+  const isNext = new Uint8Array(count)
+  const frontierParents = new Int32Array(count)
+  let nextCount = 0
+  let frontierParentsTotal = 0
+
+  const onFrontier = (p: number) => (p === VIRTUAL ? virtualIsFrontier : isFrontier[p] === 1)
+
+  const addNext = (i: number) => {
+    isNext[i] = 1
+    frontierParents[i] = parents[i].filter(onFrontier).length
+    nextCount++
+    frontierParentsTotal += frontierParents[i]
+  }
+
+  const removeFromFrontier = (childrenOfParent: number[]) => {
+    frontierCount--
+    for (const child of childrenOfParent) {
+      if (isNext[child]) {
+        frontierParents[child]--
+        frontierParentsTotal--
+      }
+    }
+  }
+
+  for (const i of virtualChildren) if (remainingParents[i] === 0) addNext(i)
+
+  const segments = [start]
+  for (let i = 0; i < count; i++) {
+    // This link is no longer waiting to be seen
+    isNext[i] = 0
+    nextCount--
+    frontierParentsTotal -= frontierParents[i]
+
+    // Its parents are no longer on the frontier, but it is
+    for (const p of parents[i]) {
+      if (p === VIRTUAL && virtualIsFrontier) {
+        virtualIsFrontier = false
+        removeFromFrontier(virtualChildren)
+      } else if (p !== VIRTUAL && isFrontier[p]) {
+        isFrontier[p] = 0
+        removeFromFrontier(children[p])
+      }
+    }
+
+    isFrontier[i] = 1
+    frontierCount++
+
+    // Any of its children whose parents have now all been seen are next
+    for (const child of children[i]) if (--remainingParents[child] === 0) addNext(child)
+
+    // Since no next link can have more than `frontierCount` parents on the frontier, this only
+    // holds if each of them has all of the frontier links as parents
+    if (nextCount > 0 && frontierParentsTotal === nextCount * frontierCount)
+      segments.push(start + i + 1)
+  }
+
+  return segments
+}
+
+/**
+ * For each link in the bubble `[start, end)`, returns a bitset of its predecessors within the
+ * bubble.
+ */
+const getReachability = (
+  graph: Graph<any, any>,
+  index: ConcurrencyIndex,
+  start: number,
+  end: number
+) => {
+  let reachability = index.reachability.get(start)
+  if (reachability === undefined) {
+    const size = end - start
+    const words = Math.ceil(size / 32)
+    reachability = []
+    for (let i = 0; i < size; i++) {
+      const predecessors = new Uint32Array(words)
+      for (const parent of uniqueParents(graph, index.order[start + i])) {
+        const p = index.position.get(parent)
+        if (p === undefined || p < start) continue // predecessors of the whole bubble
+        const j = p - start
+        predecessors[j >>> 5] |= 1 << (j & 31)
+        const parentPredecessors = reachability[j]
+        for (let w = 0; w < words; w++) predecessors[w] |= parentPredecessors[w]
+      }
+
+      reachability.push(predecessors)
+    }
+
+    index.reachability.set(start, reachability)
+  }
+
+  return reachability
+}
+
+const uniqueParents = (graph: Graph<any, any>, hash: Hash): Hash[] => [
+  ...new Set<Hash>(graph.links[hash]?.body.prev ?? []),
+]
@@ -1,5 +1,7 @@
 import { asymmetric } from '@localfirst/crypto'
+import { invertLinkMap } from './getParentMap.js'
 import { hashEncryptedLink } from './hashLink.js'
+import { applyRedactions, getRedactedLink, isRedactedEncryptedLink } from './redaction.js'
 import {
   type Action,
   type EncryptedLink,
@@ -44,55 +46,91 @@ export const decryptLink = <A extends Action, C>(
 
 /**
  * Decrypts a graph using a one or more keys.
+ *
+ * Links are decrypted in topological order (using the graph's `childMap`), so each link is
+ * decrypted exactly once, and only after all of its parents. Any links that have already been
+ * decrypted (in `encryptedGraph.links`) are reused as they are. Links that have been redacted can't
+ * be decrypted, so they are replaced with placeholders (see `applyRedactions`).
  */
 export const decryptGraph: DecryptFn = <A extends Action, C>({
   encryptedGraph,
   keys,
-}: {
-  encryptedGraph: MaybePartlyDecryptedGraph<A, C>
-  keys: KeysetWithSecrets | KeysetWithSecrets[] | Keyring
-}): Graph<A, C> => {
+  onDecrypt,
+  onProgress,
+}: DecryptFnParams<A, C>): Graph<A, C> => {
   const { encryptedLinks, root, childMap = {} } = encryptedGraph
+  const previouslyDecryptedLinks = encryptedGraph.links ?? {}
+
+  // We copy the keyring, since new keys might be revealed along the way
+  const keyring = { ...createKeyring(keys) }
+
+  // Count each link's parents, so we know when all of them have been decrypted
+  const remainingParents: Record<Hash, number> = {}
+  for (const children of Object.values(childMap))
+    for (const child of children) remainingParents[child] = (remainingParents[child] ?? 0) + 1
+
+  const total = Object.keys(encryptedLinks).length
+  const links: Record<Hash, Link<A, C>> = {}
 
-  const links = encryptedGraph.links ?? {}
+  // We only need the parent map if there are redacted links
+  let parentMap: Record<Hash, Hash[]> | undefined
+
+  // Kahn's algorithm; the queue only grows, so we just move an index along it
+  const queue: Hash[] = [root]
+  for (let i = 0; i < queue.length; i++) {
+    const hash = queue[i]
 
-  /** Recursively decrypts a link and its children. */
-  const decrypt = (
-    hash: Hash,
-    prevLinks: Record<Hash, Link<A, C>> = {}
-  ): Record<Hash, Link<A, C>> => {
-    // decrypt this link
     const encryptedLink = encryptedLinks[hash]!
-    const decryptedLink =
-      links[hash] ?? // if it's already decrypted, don't bother decrypting it again
-      decryptLink(encryptedLink, keys)
-    let newLinks = {
-      [hash]: decryptedLink,
+    let link = previouslyDecryptedLinks[hash] // if it's already decrypted, don't bother decrypting it again
+    if (link === undefined && isRedactedEncryptedLink(encryptedLink)) {
+      parentMap ??= invertLinkMap(childMap)
+      link = getRedactedLink(hash, parentMap[hash] ?? []) as Link<A, C>
     }
 
-    // decrypt its children
-    const children = childMap[hash] ?? []
-    for (const hash of children) {
-      newLinks = { ...newLinks, ...decrypt(hash, newLinks) }
-    }
+    link ??= decryptLink<A, C>(encryptedLink, keyring)
+    links[hash] = link
 
-    return { ...prevLinks, ...newLinks }
-  }
+    // This link might give us keys we need to decrypt its descendants
+    const newKeys = onDecrypt?.(link) ?? []
+    for (const keyset of newKeys) keyring[keyset.encryption.publicKey] = keyset
 
-  const decryptedLinks = decrypt(root)
+    onProgress?.({ decrypted: i + 1, total })
 
-  return {
-    ...encryptedGraph,
-    links: decryptedLinks,
+    // Once all of a child's parents have been decrypted, it can be decrypted too
+    for (const child of childMap[hash] ?? []) {
+      remainingParents[child]--
+      if (remainingParents[child] === 0) queue.push(child)
+    }
   }
+
+  // Fill in the placeholders for any redacted links, and erase any links that were redacted since
+  return applyRedactions({
+    ...encryptedGraph,
+    links,
+  } as Graph<A, C>)
 }
 
 export type DecryptFnParams<A extends Action, C> = {
   encryptedGraph: MaybePartlyDecryptedGraph<A, C>
   keys: KeysetWithSecrets | KeysetWithSecrets[] | Keyring
+
+  /**
+   * (optional) Called with each link as soon as it has been decrypted. Can return any new keys that
+   * the link makes available (for example after a key rotation), which will then be used to decrypt
+   * the links that follow it.
+   */
+  onDecrypt?: (link: Link<A, C>) => KeysetWithSecrets[] | void
+
+  /** (optional) Called after each link is decrypted, to report progress on large graphs. */
+  onProgress?: (progress: DecryptProgress) => void
 }
 
-export type DecryptFn = <A extends Action, C>({
-  encryptedGraph,
-  keys,
-}: DecryptFnParams<A, C>) => Graph<A, C>
+export type DecryptProgress = {
+  /** The number of links decrypted so far */
+  decrypted: number
+
+  /** The total number of links in the graph */
+  total: number
+}
+
+export type DecryptFn = <A extends Action, C>(params: DecryptFnParams<A, C>) => Graph<A, C>
@@ -0,0 +1,44 @@
+import { getConcurrencyIndex } from './concurrencyIndex.js'
+import { type Action, type Graph, type Link } from './types.js'
+import { assert, type Hash } from 'util/index.js'
+
+/**
+ * Returns the links that were added to the graph between two of its heads: that is, the links that
+ * are in `toHead` or are predecessors of it, but are neither in `fromHead` nor predecessors of it.
+ * The links are returned in topological order.
+ *
+ * For example, if `fromHead` is the head of the graph when we were last online, this returns the
+ * links that have been added since.
+ */
+export const diff = <A extends Action, C>(
+  graph: Graph<A, C>,
+  fromHead: Hash[],
+  toHead: Hash[] = graph.head
+): Array<Link<A, C>> => {
+  for (const hash of [...fromHead, ...toHead])
+    assert(hash in graph.links, `Hash ${hash} is not in the graph`)
+
+  const before = collectPredecessors(graph, fromHead, new Set())
+  const added = collectPredecessors(graph, toHead, before)
+
+  const { position } = getConcurrencyIndex(graph)
+  return [...added]
+    .sort((a, b) => position.get(a)! - position.get(b)!)
+    .map(hash => graph.links[hash])
+}
+
+// HELPERS
+
+/** Returns the given hashes and all of their predecessors, except for any in `exclude` */
+const collectPredecessors = (graph: Graph<any, any>, hashes: Hash[], exclude: Set<Hash>) => {
+  const result = new Set<Hash>()
+  const stack = [...hashes]
+  while (stack.length > 0) {
+    const hash = stack.pop()!
+    if (result.has(hash) || exclude.has(hash)) continue
+    result.add(hash)
+    stack.push(...graph.links[hash].body.prev)
+  }
+
+  return result
+}
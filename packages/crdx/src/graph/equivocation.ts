@@ -0,0 +1,65 @@
+import { getConcurrentHashes } from './concurrency.js'
+import { getConcurrencyIndex } from './concurrencyIndex.js'
+import { type Action, type Graph, type Link } from './types.js'
+import { type Hash } from 'util/index.js'
+
+/**
+ * An author who always appends to the latest version of their own graph never creates two links
+ * that are concurrent with each other. If they do, they've forked their own history — for example
+ * by signing two contradictory links with the same `prev` and sending each one to different peers.
+ * This is called **equivocation**, and it is a sign of a malicious or buggy device.
+ */
+export type Equivocation = {
+  /** The author, as returned by `getAuthor` */
+  author: string
+
+  /** The hashes of the author's links that are concurrent with another of the author's links */
+  hashes: Hash[]
+}
+
+/**
+ * Identifies the author of a link. This should identify a single device, since a user with several
+ * devices can legitimately create concurrent links. Links for which this returns `undefined` are
+ * ignored.
+ */
+export type GetAuthor<A extends Action, C> = (link: Link<A, C>) => string | undefined
+
+/** By default, the author of a link is the user who created it */
+export const byUserId: GetAuthor<any, any> = link => link.body.userId
+
+/** Returns true if this link is concurrent with another link by the same author */
+export const isEquivocation = <A extends Action, C>(
+  graph: Graph<A, C>,
+  link: Link<A, C>,
+  getAuthor: GetAuthor<A, C> = byUserId
+) => {
+  const author = getAuthor(link)
+  if (author === undefined) return false
+  return getConcurrentHashes(graph, link.hash).some(hash => getAuthor(graph.links[hash]) === author)
+}
+
+/** Finds all the links in the graph that are concurrent with another link by the same author. */
+export const findEquivocations = <A extends Action, C>(
+  graph: Graph<A, C>,
+  getAuthor: GetAuthor<A, C> = byUserId
+): Equivocation[] => {
+  const { order, segments } = getConcurrencyIndex(graph)
+
+  const hashesByAuthor = new Map<string, Hash[]>()
+  for (const [i, start] of segments.entries()) {
+    const end = segments[i + 1] ?? order.length
+    if (end - start === 1) continue // a link on its own can't be concurrent with anything
+
+    for (const hash of order.slice(start, end)) {
+      const link = graph.links[hash]
+      if (!isEquivocation(graph, link, getAuthor)) continue
+      const author = getAuthor(link)!
+      hashesByAuthor.set(author, [...(hashesByAuthor.get(author) ?? []), hash])
+    }
+  }
+
+  return [...hashesByAuthor.entries()].map(([author, hashes]) => ({
+    author,
+    hashes: hashes.sort(),
+  }))
+}
@@ -1,5 +1,7 @@
-﻿import { byHash, topoSort } from './topoSort.js'
+﻿import { getHashesAfterSegment } from './concurrencyIndex.js'
+import { byHash, topoSort } from './topoSort.js'
 import { type Action, type Link, type Resolver, type Graph } from './types.js'
+import { type Hash } from 'util/index.js'
 
 /**
  * Takes a `Graph` and returns a flat array of links by performing a topographical sort and
@@ -23,11 +25,15 @@ import { type Action, type Link, type Resolver, type Graph } from './types.js'
  */
 export const getSequence = <A extends Action, C>(
   graph: Graph<A, C>,
-  resolver: Resolver<A, C> = baseResolver
+  resolver: Resolver<A, C> = baseResolver,
+  options: SequenceOptions = {}
 ) => {
   const { sort = byHash, filter = noFilter } = resolver(graph)
 
-  const sorted = topoSort(graph, { comparator: sort })
+  const sorted =
+    options.from === undefined
+      ? topoSort(graph, { comparator: sort })
+      : topoSort(getGraphFrom(graph, options.from), { comparator: sort }).slice(1)
 
   // Rather than apply the filter directly, we mark links that would be filtered out as invalid.
   return sorted.map(link => {
@@ -36,5 +42,23 @@ export const getSequence = <A extends Action, C>(
   })
 }
 
+/**
+ * Returns the part of the graph starting at the given link, which must not be concurrent with any
+ * other link (so that every link after it in topological order is one of its successors).
+ */
+const getGraphFrom = <A extends Action, C>(graph: Graph<A, C>, from: Hash): Graph<A, C> => {
+  const hashes = [from, ...getHashesAfterSegment(graph, from)]
+  const links = Object.fromEntries(hashes.map(hash => [hash, graph.links[hash]]))
+  return { ...graph, root: from, links }
+}
+
+export type SequenceOptions = {
+  /**
+   * If provided, only the links that follow this link are returned. This link must not be
+   * concurrent with any other link, as is the case for a checkpoint that we start from.
+   */
+  from?: Hash
+}
+
 export const baseResolver: Resolver<any, any> = _ => ({})
 export const noFilter = (_: Link<any, any>) => true
@@ -0,0 +1,68 @@
+import { byHash } from './topoSort.js'
+import { type Graph, type Link, type LinkComparator } from './types.js'
+import { type UnixTimestamp } from 'util/index.js'
+
+/**
+ * A hybrid logical clock combines the wall-clock time on the device that authored a link with a
+ * logical counter. Each link's clock is later than the clocks of all of its parents, even if the
+ * author's wall clock is behind theirs; and it stays close to wall-clock time, so clocks of
+ * concurrent links on different devices can be compared meaningfully.
+ *
+ * See Kulkarni et al., "Logical Physical Clocks and Consistent Snapshots in Globally Distributed
+ * Databases" (2014).
+ */
+export type HybridLogicalClock = {
+  /** The latest wall-clock time known to the author when the link was created */
+  time: UnixTimestamp
+
+  /** Distinguishes links that have the same `time` */
+  counter: number
+}
+
+/**
+ * Returns the link's clock. Links created before clocks were added to the graph only have a
+ * timestamp, which we treat as a clock with a counter of zero.
+ */
+export const getClock = (link: Link<any, any>): HybridLogicalClock =>
+  link.body.hlc ?? { time: link.body.timestamp, counter: 0 }
+
+/**
+ * Returns the graph's clock, which is the latest clock among its heads. Since each link's clock is
+ * later than those of its parents, this is the latest clock in the graph. When another graph is
+ * merged with ours, its heads become part of ours, so the clock advances to the latest of the two.
+ */
+export const getGraphClock = (graph: Graph<any, any>) =>
+  latest(graph.head.map(hash => getClock(graph.links[hash])))
+
+/**
+ * Returns the clock for a new link with the given parents, given the current wall-clock time. The
+ * clock is either the current time, or (if a parent's clock is ahead of ours) the latest clock of
+ * the parents with its counter incremented.
+ */
+export const tickClock = (
+  parents: Array<Link<any, any>>,
+  now: UnixTimestamp = Date.now() as UnixTimestamp
+): HybridLogicalClock => {
+  const previous = latest(parents.map(getClock))
+  if (previous === undefined || now > previous.time) return { time: now, counter: 0 }
+  return { time: previous.time, counter: previous.counter + 1 }
+}
+
+/** Compares two clocks, returning a negative number if `a` is earlier than `b` */
+export const compareClocks = (a: HybridLogicalClock, b: HybridLogicalClock) =>
+  a.time === b.time ? a.counter - b.counter : a.time - b.time
+
+/**
+ * A comparator for resolvers, which orders concurrent branches by their clocks (using the hash to
+ * break ties), rather than arbitrarily.
+ */
+export const byClock: LinkComparator = (a, b) =>
+  compareClocks(getClock(a), getClock(b)) || byHash(a, b)
+
+// HELPERS
+
+const latest = (clocks: HybridLogicalClock[]) =>
+  clocks.reduce<HybridLogicalClock | undefined>(
+    (result, clock) => (result === undefined || compareClocks(clock, result) > 0 ? clock : result),
+    undefined
+  )
@@ -1,16 +1,25 @@
 ﻿export * from './append.js'
 export * from './graph.js'
+export * from './checkpoint.js'
 export * from './concurrency.js'
 export * from './createGraph.js'
 export * from './children.js'
 export * from './decrypt.js'
+export * from './diff.js'
+export * from './equivocation.js'
 export * from './headsAreEqual.js'
+export * from './hlc.js'
+export * from './log.js'
 export * from './getSequence.js'
 export * from './getParentMap.js'
 export * from './merge.js'
 export * from './predecessors.js'
+export * from './query.js'
 export * from './redactGraph.js'
+export * from './redaction.js'
 export * from './serialize.js'
+export * from './signLink.js'
 export * from './successors.js'
 export * from './topoSort.js'
 export * from './types.js'
+export * from './visualize.js'
@@ -0,0 +1,110 @@
+import { type Graph, type Link } from './types.js'
+import { type Hash, type UnixTimestamp } from 'util/index.js'
+
+/**
+ * Lookups of a graph's links by author, by action type, and by time, used to answer queries without
+ * scanning every link in the graph.
+ *
+ * Graphs are never modified: appending to or merging a graph creates a new graph that contains all
+ * of its links and more. So when a graph that has already been indexed is extended, the new graph
+ * shares the same index, and the new links are added to it. This means that an index can contain
+ * links that aren't in a given graph (e.g. links appended to another graph that shares the index),
+ * so the results of a lookup need to be checked against the graph.
+ */
+export type LinkIndex = {
+  /** The hashes of all the links that have been indexed */
+  indexed: Set<Hash>
+
+  /** Hashes of links by the author's user ID */
+  byUser: Map<string, Hash[]>
+
+  /** Hashes of links by action type */
+  byType: Map<string, Hash[]>
+
+  /** All indexed links, ordered by timestamp (and then by hash) */
+  byTime: TimeEntry[]
+}
+
+export type TimeEntry = { timestamp: UnixTimestamp; hash: Hash }
+
+/** Returns the link index for the given graph, creating it if necessary. */
+export const getLinkIndex = (graph: Graph<any, any>): LinkIndex => {
+  let index = indexes.get(graph)
+  if (index === undefined) {
+    index = { indexed: new Set(), byUser: new Map(), byType: new Map(), byTime: [] }
+    addLinks(index, Object.values(graph.links))
+    indexes.set(graph, index)
+  }
+
+  return index
+}
+
+/**
+ * Records that the graph `to` was created by adding links to the graph `from`. If `from` has
+ * already been indexed, `to` shares its index, and any of the given links that haven't been indexed
+ * yet are added to it. Returns true if there was an index to inherit.
+ */
+export const inheritLinkIndex = (
+  from: Graph<any, any>,
+  to: Graph<any, any>,
+  links: Iterable<Link<any, any>>
+) => {
+  const index = indexes.get(from)
+  if (index === undefined) return false
+  addLinks(index, links)
+  indexes.set(to, index)
+  return true
+}
+
+/**
+ * Returns the position in `byTime` of the first entry that comes at or after the given time (or,
+ * if `after` is true, the first entry that comes after it).
+ */
+export const findTime = (byTime: TimeEntry[], timestamp: number, after = false) => {
+  let low = 0
+  let high = byTime.length
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2)
+    const t = byTime[mid].timestamp
+    if (t < timestamp || (after && t === timestamp)) low = mid + 1
+    else high = mid
+  }
+
+  return low
+}
+
+/** Orders entries by timestamp, and then by hash */
+export const compareEntries = (a: TimeEntry, b: TimeEntry) => {
+  if (a.timestamp !== b.timestamp) return a.timestamp - b.timestamp
+  if (a.hash === b.hash) return 0
+  return a.hash < b.hash ? -1 : 1
+}
+
+// HELPERS
+
+const indexes = new WeakMap<Graph<any, any>, LinkIndex>()
+
+const addLinks = (index: LinkIndex, links: Iterable<Link<any, any>>) => {
+  const { byTime } = index
+  let isSorted = true
+  for (const { hash, body } of links) {
+    if (index.indexed.has(hash)) continue
+    index.indexed.add(hash)
+    addTo(index.byUser, body.userId, hash)
+    addTo(index.byType, body.type, hash)
+
+    const entry = { timestamp: body.timestamp, hash }
+    const last = byTime.at(-1)
+    if (last !== undefined && compareEntries(last, entry) > 0) isSorted = false
+    byTime.push(entry)
+  }
+
+  // New links usually come last, so we rarely need to sort
+  if (!isSorted) byTime.sort(compareEntries)
+}
+
+const addTo = (map: Map<string, Hash[]>, key: string, hash: Hash) => {
+  const hashes = map.get(key)
+  if (hashes === undefined) map.set(key, [hash])
+  else hashes.push(hash)
+}
@@ -0,0 +1,184 @@
+import { base58 } from '@localfirst/crypto'
+import { pack, unpack } from 'msgpackr'
+import { sortHashes } from './concurrencyIndex.js'
+import { getChildMap, invertLinkMap } from './getParentMap.js'
+import { hashEncryptedLink } from './hashLink.js'
+import { isRedactedEncryptedLink } from './redaction.js'
+import { type Action, type EncryptedGraph, type EncryptedLink, type Graph } from './types.js'
+import { concat, formatHeader, hasHeader, type Hash } from 'util/index.js'
+
+/** The version of the log format written by `exportLog` */
+export const LOG_FORMAT_VERSION = 1
+
+/**
+ * Exports a graph as an append-only log. The log starts with a header (the bytes `CRDL` followed by
+ * the format version), followed by one record for each link, in topological order.
+ *
+ * If `previous` is given, only the records for links that aren't in `previous` (or that have been
+ * redacted since) are returned, without the header. These can be appended to the log that was
+ * exported for `previous`, so that storage only needs to write what has changed. Note that the
+ * bodies of redacted links remain in the earlier part of the log until it is exported again in full.
+ */
+export const exportLog = <A extends Action, C>(
+  graph: Graph<A, C> | EncryptedGraph,
+  previous?: Graph<A, C> | EncryptedGraph
+): Uint8Array => {
+  const childMap = 'links' in graph ? getChildMap(graph) : graph.childMap
+  const parentMap = invertLinkMap(childMap)
+
+  const isNew = (hash: Hash) => {
+    if (previous === undefined) return true
+    const previousLink = previous.encryptedLinks[hash]
+    if (previousLink === undefined) return true
+    return (
+      isRedactedEncryptedLink(graph.encryptedLinks[hash]) && !isRedactedEncryptedLink(previousLink)
+    )
+  }
+
+  const hashes = (Object.keys(graph.encryptedLinks) as Hash[]).filter(isNew)
+
+  const records = sortHashes(hashes, hash => parentMap[hash] ?? []).map(hash => {
+    const { senderPublicKey, recipientPublicKey, encryptedBody, signerPublicKey, signature } =
+      graph.encryptedLinks[hash]
+    const record: LogRecord = [
+      base58.decode(hash),
+      (parentMap[hash] ?? []).map(parent => base58.decode(parent)),
+      base58.decode(senderPublicKey),
+      base58.decode(recipientPublicKey),
+      base58.decode(encryptedBody),
+    ]
+    if (signerPublicKey !== undefined && signature !== undefined)
+      record.push(base58.decode(signerPublicKey), base58.decode(signature))
+    return frame(pack(record))
+  })
+
+  if (previous === undefined) records.unshift(formatHeader(HEADER, LOG_FORMAT_VERSION))
+  return concat(records)
+}
+
+/**
+ * Rebuilds an encrypted graph by replaying a log written by `exportLog` (and any records appended
+ * to it since).
+ *
+ * If the last write to the log was interrupted, the log will end with an incomplete record. Reading
+ * stops at the first record that is incomplete or doesn't match its hash, and `length` gives the
+ * number of bytes that were read successfully. Storage should truncate the log to that length before
+ * appending to it again.
+ */
+export const importLog = (log: Uint8Array): ImportLogResult => {
+  if (!isLog(log)) throw new Error('Not a graph log')
+  const version = log[HEADER.length]
+  if (version > LOG_FORMAT_VERSION) throw new Error(`Unsupported log format version: ${version}`)
+
+  const encryptedLinks: Record<Hash, EncryptedLink> = {}
+  const childMap: Record<Hash, Hash[]> = {}
+  const parents = new Set<Hash>()
+  let root: Hash | undefined
+
+  const view = new DataView(log.buffer, log.byteOffset, log.byteLength)
+  let offset = HEADER.length + 1
+  while (offset < log.length) {
+    const record = readRecord(log, view, offset)
+    if (record === undefined) break
+
+    const { hash, prev, link, length } = record
+    offset += length
+    if (hash in encryptedLinks) {
+      // the link has been redacted since it was written, or the same record was appended twice
+      if (isRedactedEncryptedLink(link)) encryptedLinks[hash] = link
+      continue
+    }
+
+    encryptedLinks[hash] = link
+    if (prev.length === 0 && root === undefined) root = hash
+    for (const parent of prev) {
+      parents.add(parent)
+      if (!childMap[parent]) childMap[parent] = []
+      childMap[parent].push(hash)
+    }
+  }
+
+  if (root === undefined) throw new Error('Log does not contain a root link')
+
+  // The head consists of the links that aren't anyone's parent
+  const head = (Object.keys(encryptedLinks) as Hash[]).filter(hash => !parents.has(hash)).sort()
+
+  return {
+    graph: { root, head, encryptedLinks, childMap },
+    length: offset,
+    truncated: offset < log.length,
+  }
+}
+
+/** Returns true if these bytes start with the header written by `exportLog` */
+export const isLog = (serialized: Uint8Array) => hasHeader(serialized, HEADER)
+
+export type ImportLogResult = {
+  /** The graph rebuilt from the log */
+  graph: EncryptedGraph
+
+  /** The number of bytes of the log that were read successfully */
+  length: number
+
+  /** True if the log ended with an incomplete or corrupted record, which was ignored */
+  truncated: boolean
+}
+
+// HELPERS
+
+const HEADER = new TextEncoder().encode('CRDL')
+
+/** Each record is preceded by its length, as a 4-byte unsigned integer */
+const LENGTH_BYTES = 4
+
+/**
+ * [hash, parent hashes, sender public key, recipient public key, encrypted body], followed by
+ * [signer public key, signature] if the link is signed
+ */
+type LogRecord = [
+  Uint8Array,
+  Uint8Array[],
+  Uint8Array,
+  Uint8Array,
+  Uint8Array,
+  Uint8Array?,
+  Uint8Array?,
+]
+
+const frame = (record: Uint8Array) => {
+  const framed = new Uint8Array(LENGTH_BYTES + record.length)
+  new DataView(framed.buffer).setUint32(0, record.length)
+  framed.set(record, LENGTH_BYTES)
+  return framed
+}
+
+/** Reads the record at the given offset, or returns undefined if it is incomplete or corrupted. */
+const readRecord = (log: Uint8Array, view: DataView, offset: number) => {
+  if (offset + LENGTH_BYTES > log.length) return undefined
+  const recordLength = view.getUint32(offset)
+  const start = offset + LENGTH_BYTES
+  if (start + recordLength > log.length) return undefined
+
+  try {
+    const [hashBytes, prevBytes, sender, recipient, body, signer, signature] = unpack(
+      log.subarray(start, start + recordLength)
+    ) as LogRecord
+    const hash = base58.encode(hashBytes) as Hash
+    const encryptedBody = base58.encode(body)
+    const isRedacted = encryptedBody === '' // a redacted link has no body to check
+    if (!isRedacted && hashEncryptedLink(encryptedBody) !== hash) return undefined
+
+    const link: EncryptedLink = {
+      senderPublicKey: base58.encode(sender),
+      recipientPublicKey: base58.encode(recipient),
+      encryptedBody,
+      ...(signer === undefined || signature === undefined
+        ? {}
+        : { signerPublicKey: base58.encode(signer), signature: base58.encode(signature) }),
+    }
+    const prev = prevBytes.map(parent => base58.encode(parent) as Hash)
+    return { hash, prev, link, length: LENGTH_BYTES + recordLength }
+  } catch {
+    return undefined
+  }
+}
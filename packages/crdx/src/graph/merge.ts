@@ -1,5 +1,9 @@
 ﻿import { uniq } from 'lodash-es'
-import { type Action, type EncryptedLink, type Link, type Graph } from './types.js'
+import { inheritConcurrencyIndex } from './concurrencyIndex.js'
+import { baseResolver, getSequence } from './getSequence.js'
+import { inheritLinkIndex } from './linkIndex.js'
+import { applyRedactions } from './redaction.js'
+import { type Action, type EncryptedLink, type Link, type Graph, type Resolver } from './types.js'
 import { type Hash } from 'util/index.js'
 
 /**
@@ -45,7 +49,89 @@ export const merge = <A extends Action, C>(
 
   mergedGraph.head = mergedGraph.head.sort()
 
-  return mergedGraph
+  // if we've already worked out which links are concurrent in either graph, we only need to update that
+  const larger = Object.keys(theirs.links).length > Object.keys(ours.links).length ? theirs : ours
+  const smaller = larger === ours ? theirs : ours
+  inheritConcurrencyIndex(smaller, mergedGraph)
+  inheritConcurrencyIndex(larger, mergedGraph)
+
+  // likewise, if either graph's links are indexed, we only need to index the other graph's links
+  if (!inheritLinkIndex(larger, mergedGraph, Object.values(smaller.links)))
+    inheritLinkIndex(smaller, mergedGraph, Object.values(larger.links))
+
+  // if either graph has redactions that the other one hasn't applied, apply them now
+  return applyRedactions(mergedGraph)
+}
+
+/**
+ * Describes what changed when another graph was merged into ours: which links are new, how the head
+ * moved, whether the new links were concurrent with links we already had, and which links the
+ * resolver marked as invalid as a result.
+ *
+ * @param ours Our graph before the merge
+ * @param merged The graph returned by `merge`
+ * @param resolver The resolver used to turn the graph into a sequence
+ */
+export const getMergeReport = <A extends Action, C>(
+  ours: Graph<A, C>,
+  merged: Graph<A, C>,
+  resolver: Resolver<A, C> = baseResolver
+): MergeReport => {
+  const previousHead = ours.head
+  const { head } = merged
+  const isNew = (hash: Hash) => !(hash in ours.links)
+
+  const addedHashes = (Object.keys(merged.links) as Hash[]).filter(isNew)
+  if (addedHashes.length === 0)
+    return { added: [], previousHead, head, isConcurrent: false, invalidated: [] }
+
+  // If one of our heads is not a predecessor of any of the new links, the other graph didn't have it,
+  // so we both added links that the other didn't know about
+  const predecessors = new Set<Hash>()
+  const stack = addedHashes.flatMap(hash => merged.links[hash].body.prev).filter(h => !isNew(h))
+  while (stack.length > 0) {
+    const hash = stack.pop()!
+    if (predecessors.has(hash)) continue
+    predecessors.add(hash)
+    stack.push(...ours.links[hash].body.prev)
+  }
+
+  const isConcurrent = previousHead.some(hash => !predecessors.has(hash))
+
+  // The resolver looks at the whole graph, so the new links can cause links we already had to be
+  // invalidated, as well as being invalid themselves
+  const wasInvalid = new Set(
+    getSequence(ours, resolver)
+      .filter(link => link.isInvalid)
+      .map(link => link.hash)
+  )
+  const sequence = getSequence(merged, resolver)
+  const added = sequence.filter(link => isNew(link.hash)).map(link => link.hash)
+  const invalidated = sequence
+    .filter(link => link.isInvalid && !wasInvalid.has(link.hash))
+    .map(link => link.hash)
+
+  return { added, previousHead, head, isConcurrent, invalidated }
+}
+
+export type MergeReport = {
+  /** Hashes of the links that we didn't have before the merge, in the order of the sequence */
+  added: Hash[]
+
+  /** Our head before the merge */
+  previousHead: Hash[]
+
+  /** The head of the merged graph */
+  head: Hash[]
+
+  /**
+   * True if both graphs had links that the other didn't have, so that the new links are concurrent
+   * with some of ours
+   */
+  isConcurrent: boolean
+
+  /** Hashes of the links that are invalid in the merged sequence, but weren't before */
+  invalidated: Hash[]
 }
 
 /** Returns true if the given hash is not a parent of any of those links */
@@ -0,0 +1,80 @@
+import { compareEntries, findTime, getLinkIndex } from './linkIndex.js'
+import { type Action, type Graph, type Link } from './types.js'
+import { type Hash } from 'util/index.js'
+
+/**
+ * Criteria for finding links in a graph. A link has to meet all of the criteria given in order to
+ * be included.
+ */
+export type LinkQuery<A extends Action, C, T extends A['type'] = A['type']> = {
+  /** Only include links authored by this user */
+  userId?: string
+
+  /** Only include links with this action type (or with any of these action types) */
+  type?: T | T[]
+
+  /** Only include links with a timestamp at or after this time */
+  from?: number
+
+  /** Only include links with a timestamp at or before this time */
+  to?: number
+
+  /** Only include links for which this returns true, e.g. to check the payload */
+  where?: (link: Link<Extract<A, { type: T }>, C>) => boolean
+}
+
+/**
+ * Returns the links in the graph that meet the given criteria, ordered by timestamp.
+ *
+ * The graph's links are indexed by author, by action type and by timestamp the first time the graph
+ * is queried, and the index is kept up to date as links are appended or merged into the graph, so
+ * only the links that are candidates for a match need to be looked at.
+ *
+ * ```ts
+ * const addedAlice = queryLinks(graph, {
+ *   type: 'ADD_MEMBER',
+ *   where: link => link.body.payload.member.userId === 'alice',
+ * })
+ * ```
+ */
+export const queryLinks = <A extends Action, C, T extends A['type'] = A['type']>(
+  graph: Graph<A, C>,
+  query: LinkQuery<A, C, T> = {}
+): Array<Link<Extract<A, { type: T }>, C>> => {
+  const { userId, type, from, to, where } = query
+  const types = type === undefined ? undefined : ([type].flat() as string[])
+  const index = getLinkIndex(graph)
+
+  // Start with the smallest set of candidates that the index gives us
+  const { byTime } = index
+  const start = from === undefined ? 0 : findTime(byTime, from)
+  const end = to === undefined ? byTime.length : findTime(byTime, to, true)
+  let candidates: Hash[] | undefined
+  if (userId !== undefined) candidates = index.byUser.get(userId) ?? []
+  if (types !== undefined) {
+    const byType = types.flatMap(t => index.byType.get(t) ?? [])
+    if (candidates === undefined || byType.length < candidates.length) candidates = byType
+  }
+
+  if (candidates === undefined || end - start < candidates.length)
+    candidates = byTime.slice(start, end).map(({ hash }) => hash)
+
+  // Check the remaining criteria on each of the candidates
+  const matches = (link: Link<A, C> | undefined): link is Link<Extract<A, { type: T }>, C> => {
+    if (link === undefined) return false // this link was indexed for a different graph
+    const { body } = link
+    return (
+      (userId === undefined || body.userId === userId) &&
+      (types === undefined || types.includes(body.type)) &&
+      (from === undefined || body.timestamp >= from) &&
+      (to === undefined || body.timestamp <= to) &&
+      (where === undefined || where(link as Link<Extract<A, { type: T }>, C>))
+    )
+  }
+
+  const toEntry = ({ hash, body }: Link<A, C>) => ({ hash, timestamp: body.timestamp })
+  return candidates
+    .map(hash => graph.links[hash])
+    .filter(matches)
+    .sort((a, b) => compareEntries(toEntry(a), toEntry(b)))
+}
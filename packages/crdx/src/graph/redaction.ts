@@ -0,0 +1,157 @@
+import { inheritConcurrencyIndex } from './concurrencyIndex.js'
+import { type HybridLogicalClock } from './hlc.js'
+import { type Action, type EncryptedLink, type Graph, type Link } from './types.js'
+import { REDACT, REDACTED } from 'constants.js'
+import { type Base58, type Hash, type UnixTimestamp } from 'util/index.js'
+
+/**
+ * A redaction is a link that erases the body of an earlier link. Once a redaction has been added,
+ * everyone drops the encrypted body of the link it erases, keeping only its hash, its place in the
+ * graph, and the public keys (and signature) in its encrypted envelope. Since the body is gone, the
+ * link's hash can no longer be checked, and it no longer affects the state.
+ *
+ * The redaction records the author, timestamp and clock of the link it erases, so that the erased
+ * link keeps its place in the order of the graph, and its descendants' timestamps and clocks can
+ * still be checked.
+ */
+export type RedactPayload = {
+  /** Hash of the link to erase */
+  hash: Hash
+
+  /** The `userId` of the author of the link to erase */
+  userId: string
+
+  /** The timestamp of the link to erase */
+  timestamp: UnixTimestamp
+
+  /** The clock of the link to erase, if it has one */
+  hlc?: HybridLogicalClock
+}
+
+export type RedactAction = {
+  type: typeof REDACT
+  payload: RedactPayload
+}
+
+/** The body left in place of a link once it has been redacted */
+export type RedactedAction = {
+  type: typeof REDACTED
+  payload: undefined
+}
+
+/** Returns true if this is a redaction link */
+export const isRedaction = (link: Link<any, any>): link is Link<RedactAction, any> =>
+  link.body.type === REDACT
+
+/** Returns true if this link's body has been erased by a redaction */
+export const isRedacted = (link: Link<any, any>): link is Link<RedactedAction, any> =>
+  link.body.type === REDACTED
+
+/** Returns true if this encrypted link's body has been erased by a redaction */
+export const isRedactedEncryptedLink = (link: EncryptedLink) => link.encryptedBody === ''
+
+/** Creates an action that erases the body of the given link */
+export const createRedactAction = (link: Link<any, any>): RedactAction => {
+  const { userId, timestamp, hlc } = link.body
+  const payload: RedactPayload = { hash: link.hash, userId, timestamp }
+  if (hlc !== undefined) payload.hlc = hlc
+  return { type: REDACT, payload }
+}
+
+/** Returns true if the redaction records the author, timestamp and clock of the given link */
+export const redactionMatches = (redaction: Link<RedactAction, any>, link: Link<any, any>) => {
+  const { userId, timestamp, hlc } = redaction.body.payload
+  return (
+    link.body.userId === userId &&
+    link.body.timestamp === timestamp &&
+    link.body.hlc?.time === hlc?.time &&
+    link.body.hlc?.counter === hlc?.counter
+  )
+}
+
+/**
+ * Returns the redaction links in the graph, keyed by the hash of the link each one erases. If a
+ * link has been erased more than once (e.g. by two people at the same time), we use the redaction
+ * with the lowest hash, so that everyone makes the same choice.
+ */
+export const getRedactions = <A extends Action, C>(graph: Graph<A, C>) => {
+  let redactions = cache.get(graph)
+  if (redactions === undefined) {
+    redactions = new Map()
+    for (const link of Object.values(graph.links)) {
+      if (!isRedaction(link)) continue
+      const { hash } = link.body.payload
+      const existing = redactions.get(hash)
+      if (existing === undefined || link.hash < existing.hash) redactions.set(hash, link)
+    }
+
+    cache.set(graph, redactions)
+  }
+
+  return redactions
+}
+
+/**
+ * Returns a link to stand in for a link whose body has been erased. If we don't have the redaction
+ * yet (e.g. while decrypting a graph), the author and timestamp are left blank.
+ */
+export const getRedactedLink = (
+  hash: Hash,
+  prev: Hash[],
+  redaction?: Link<RedactAction, any>
+): Link<any, any> => {
+  const link: Link<any, any> = {
+    hash,
+    body: {
+      type: REDACTED,
+      payload: undefined,
+      userId: redaction?.body.payload.userId ?? '',
+      timestamp: redaction?.body.payload.timestamp ?? (0 as UnixTimestamp),
+      prev,
+    },
+  }
+  const hlc = redaction?.body.payload.hlc
+  if (hlc !== undefined) link.body.hlc = hlc
+  return link
+}
+
+/**
+ * Erases the bodies of all the links in the graph that have been redacted. Returns the graph
+ * unchanged if there's nothing (more) to erase.
+ */
+export const applyRedactions = <A extends Action, C>(graph: Graph<A, C>): Graph<A, C> => {
+  const redactions = getRedactions(graph)
+
+  const links = { ...graph.links }
+  const encryptedLinks = { ...graph.encryptedLinks }
+  let changed = false
+  for (const [hash, redaction] of redactions) {
+    const link = links[hash]
+    const encryptedLink = encryptedLinks[hash]
+    // missing links, the root and other redactions can't be erased (validation will catch these)
+    if (link === undefined || encryptedLink === undefined) continue
+    if (hash === graph.root || isRedaction(link)) continue
+
+    const matches = redactionMatches(redaction, link)
+    const isErased = isRedacted(link) && isRedactedEncryptedLink(encryptedLink) && matches
+    if (isErased) continue
+
+    // nor can a link be erased by a redaction that doesn't match it (validation will catch these)
+    if (!isRedacted(link) && !matches) continue
+
+    links[hash] = getRedactedLink(hash, link.body.prev, redaction) as Link<A, C>
+    encryptedLinks[hash] = { ...encryptedLink, encryptedBody: '' as Base58 }
+    changed = true
+  }
+
+  if (!changed) return graph
+
+  // the structure of the graph hasn't changed, so we can reuse the concurrency index
+  const redactedGraph = { ...graph, links, encryptedLinks }
+  inheritConcurrencyIndex(graph, redactedGraph)
+  return redactedGraph
+}
+
+// HELPERS
+
+const cache = new WeakMap<Graph<any, any>, Map<Hash, Link<RedactAction, any>>>()
@@ -1,16 +1,156 @@
+import { base58, type Base58 } from '@localfirst/crypto'
+import { pack, unpack } from 'msgpackr'
 import { decryptGraph } from './decrypt.js'
+import { importLog, isLog } from './log.js'
 import { redactGraph } from './redactGraph.js'
-import { type MaybePartlyDecryptedGraph, type Action, type Graph } from './types.js'
+import {
+  type MaybePartlyDecryptedGraph,
+  type Action,
+  type EncryptedGraph,
+  type EncryptedLink,
+  type Graph,
+  type LinkMap,
+} from './types.js'
 import { type Keyring, type KeysetWithSecrets } from 'keyset/index.js'
+import { concat, formatHeader, hasHeader, type Hash } from 'util/index.js'
 
+/** The version of the binary format written by `serializeBinary` */
+export const GRAPH_FORMAT_VERSION = 1
+
+/** Serializes a graph as JSON. Only the encrypted parts of the graph are included. */
 export const serialize = <A extends Action, C>(graph: Graph<A, C>) => {
   return JSON.stringify(redactGraph(graph))
 }
 
+/**
+ * Serializes a graph in a compact binary format. Only the encrypted parts of the graph are
+ * included. This is about half the size of the JSON produced by `serialize`, since hashes, keys and
+ * ciphers are stored as raw bytes rather than as base58 strings.
+ */
+export const serializeBinary = <A extends Action, C>(graph: Graph<A, C>) => {
+  return encodeGraph(redactGraph(graph))
+}
+
+/**
+ * Deserializes and decrypts a graph serialized using `serialize` or `serializeBinary`, or exported
+ * as a log using `exportLog`. The format is detected automatically.
+ */
 export const deserialize = <A extends Action, C>(
-  serialized: string,
+  serialized: string | Uint8Array,
   keys: KeysetWithSecrets | Keyring
 ): Graph<A, C> => {
-  const graph = JSON.parse(serialized) as MaybePartlyDecryptedGraph<A, C>
+  const graph = decodeGraph(serialized) as MaybePartlyDecryptedGraph<A, C>
   return decryptGraph({ encryptedGraph: graph, keys })
 }
+
+/**
+ * Encodes an encrypted graph in binary form. This starts with a header (the bytes `CRDX` followed
+ * by the format version), followed by the msgpack encoding of the graph.
+ *
+ * Public keys are stored once in a table, and links refer to them by index; likewise, the graph
+ * structure is stored using the index of each link.
+ */
+export const encodeGraph = (graph: EncryptedGraph): Uint8Array => {
+  const hashes = Object.keys(graph.encryptedLinks) as Hash[]
+  const linkIndex = new Map(hashes.map((hash, i) => [hash, i]))
+
+  const keys: Base58[] = []
+  const keyIndex = new Map<Base58, number>()
+  const getKeyIndex = (key: Base58) => {
+    if (!keyIndex.has(key)) {
+      keyIndex.set(key, keys.length)
+      keys.push(key)
+    }
+
+    return keyIndex.get(key)!
+  }
+
+  const links: EncodedLink[] = hashes.map(hash => {
+    const { senderPublicKey, recipientPublicKey, encryptedBody, signerPublicKey, signature } =
+      graph.encryptedLinks[hash]
+    const children = (graph.childMap[hash] ?? []).map(child => linkIndex.get(child)!)
+    const encoded: EncodedLink = [
+      base58.decode(hash),
+      getKeyIndex(senderPublicKey),
+      getKeyIndex(recipientPublicKey),
+      base58.decode(encryptedBody),
+      children,
+    ]
+    if (signerPublicKey !== undefined && signature !== undefined)
+      encoded.push(getKeyIndex(signerPublicKey), base58.decode(signature))
+    return encoded
+  })
+
+  const encoded: EncodedGraph = {
+    root: linkIndex.get(graph.root)!,
+    head: graph.head.map(hash => linkIndex.get(hash)!),
+    keys: keys.map(key => base58.decode(key)),
+    links,
+  }
+
+  return concat([formatHeader(HEADER, GRAPH_FORMAT_VERSION), pack(encoded)])
+}
+
+/**
+ * Decodes an encrypted graph serialized as JSON (as a string or as UTF-8 bytes), in the binary
+ * format produced by `encodeGraph`, or as a log produced by `exportLog`.
+ */
+export const decodeGraph = (serialized: string | Uint8Array): EncryptedGraph => {
+  if (typeof serialized === 'string') return JSON.parse(serialized) as EncryptedGraph
+  if (isLog(serialized)) return importLog(serialized).graph
+  if (!isBinaryGraph(serialized))
+    return JSON.parse(new TextDecoder().decode(serialized)) as EncryptedGraph
+
+  const version = serialized[HEADER.length]
+  if (version > GRAPH_FORMAT_VERSION)
+    throw new Error(`Unsupported graph format version: ${version}`)
+
+  const encoded = unpack(serialized.subarray(HEADER.length + 1)) as EncodedGraph
+  const keys = encoded.keys.map(key => base58.encode(key))
+  const hashes = encoded.links.map(([hash]) => base58.encode(hash) as Hash)
+
+  const encryptedLinks: Record<Hash, EncryptedLink> = {}
+  const childMap: LinkMap = {}
+  for (const [
+    i,
+    [_, sender, recipient, body, children, signer, signature],
+  ] of encoded.links.entries()) {
+    const hash = hashes[i]
+    encryptedLinks[hash] = {
+      senderPublicKey: keys[sender],
+      recipientPublicKey: keys[recipient],
+      encryptedBody: base58.encode(body),
+      ...(signature === undefined
+        ? {}
+        : { signerPublicKey: keys[signer!], signature: base58.encode(signature) }),
+    }
+    if (children.length > 0) childMap[hash] = children.map(child => hashes[child])
+  }
+
+  return {
+    root: hashes[encoded.root],
+    head: encoded.head.map(i => hashes[i]),
+    encryptedLinks,
+    childMap,
+  }
+}
+
+/** Returns true if these bytes start with the header written by `encodeGraph` */
+export const isBinaryGraph = (serialized: Uint8Array) => hasHeader(serialized, HEADER)
+
+// HELPERS
+
+const HEADER = new TextEncoder().encode('CRDX')
+
+/**
+ * [hash, sender key index, recipient key index, encrypted body, child link indexes], followed by
+ * [signer key index, signature] if the link is signed
+ */
+type EncodedLink = [Uint8Array, number, number, Uint8Array, number[], number?, Uint8Array?]
+
+type EncodedGraph = {
+  root: number
+  head: number[]
+  keys: Uint8Array[]
+  links: EncodedLink[]
+}
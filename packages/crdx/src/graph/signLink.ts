@@ -0,0 +1,36 @@
+import { signatures, type Base58, type SignedMessage } from '@localfirst/crypto'
+import { type EncryptedLink } from './types.js'
+import { LINK_SIGNATURE } from 'constants.js'
+import { type Hash } from 'util/index.js'
+
+/**
+ * Returns the author's signature of a link. The signature covers the link's hash (and so its
+ * encrypted body) along with the hashes of its parents, so that the structure of the graph can be
+ * verified by someone who can't decrypt it.
+ */
+export const signLink = (hash: Hash, prev: Hash[], secretKey: Base58) =>
+  signatures.sign(signedPayload(hash, prev), secretKey, LINK_SIGNATURE)
+
+/**
+ * Returns the message to verify for a signed link, or undefined if the link isn't signed. `prev`
+ * are the hashes of the link's parents, in any order.
+ */
+export const getLinkSignature = (
+  hash: Hash,
+  prev: Hash[],
+  link: EncryptedLink
+): SignedMessage | undefined => {
+  const { signerPublicKey, signature } = link
+  if (signerPublicKey === undefined || signature === undefined) return undefined
+  return {
+    payload: signedPayload(hash, prev),
+    signature,
+    publicKey: signerPublicKey,
+    context: LINK_SIGNATURE,
+  }
+}
+
+// HELPERS
+
+// The parents are sorted, since the order in which they're listed isn't significant
+const signedPayload = (hash: Hash, prev: Hash[]) => ({ hash, prev: [...new Set(prev)].sort() })
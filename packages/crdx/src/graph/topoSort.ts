@@ -13,9 +13,10 @@ export const topoSort = <A extends Action, C>(
   // Start with all the links in the graph, in no particular order
   let links = Object.values(graph.links)
 
-  // Create a lookup table to keep track of how many remaining parents each link has
+  // Create a lookup table to keep track of how many remaining parents each link has (ignoring any
+  // parents that aren't in the graph, e.g. if this is only part of a larger graph)
   const remainingParents: Record<Hash, number> = Object.fromEntries(
-    links.map(link => [link.hash, link.body.prev.length])
+    links.map(link => [link.hash, link.body.prev.filter(hash => hash in graph.links).length])
   )
 
   // This will be the final sorted list
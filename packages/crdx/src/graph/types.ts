@@ -1,4 +1,5 @@
-﻿import type { Base58, Hash, Optional, UnixTimestamp } from 'util/types.js'
+﻿import type { HybridLogicalClock } from './hlc.js'
+import type { Base58, Hash, Optional, UnixTimestamp } from 'util/types.js'
 
 /**
  * A hash graph is an acyclic directed graph of links. Each link is **asymmetrically encrypted and
@@ -91,7 +92,8 @@ export type LinkMap = Record<Hash, Hash[]>
 export type EncryptedLink = {
   /**
    * The body of the link, encrypted asymmetrically with authentication (using libsodium's
-   * `crypto_box`) using the author's SK and the team's PK.
+   * `crypto_box`) using the author's SK and the team's PK. If the link has been redacted, this is
+   * empty (see `applyRedactions`).
    */
   encryptedBody: Base58
 
@@ -107,6 +109,19 @@ export type EncryptedLink = {
    * to use when decrypting.
    */
   recipientPublicKey: Base58
+
+  /**
+   * (optional) Public signature key of the author of the link. As with `senderPublicKey`, it is up
+   * to the application to ensure that this is in fact the author's key.
+   */
+  signerPublicKey?: Base58
+
+  /**
+   * (optional) The author's signature of the link's hash and the hashes of its parents. This
+   * allows the integrity and authorship of the graph to be checked without decrypting it (see
+   * `validateEncryptedGraph`).
+   */
+  signature?: Base58
 }
 
 /** A link consists of a body, as well as a hash calculated from the body. */
@@ -151,6 +166,18 @@ export type LinkBody<A extends Action, C> = {
 
   /** Head(s) of the graph when this link was added */
   prev: Hash[]
+
+  /**
+   * (optional) Hybrid logical clock, which is later than the clocks of all of this link's parents
+   * (see `HybridLogicalClock`). Links created before clocks were added don't have one.
+   */
+  hlc?: HybridLogicalClock
+
+  /**
+   * (optional) The author's public signature key, if the link is signed. Since only the author can
+   * have encrypted the body, this ties the signature on the encrypted link to them.
+   */
+  signerPublicKey?: Base58
 } & A & // plus everything from the action interface
   C // plus everything from the context interface
 
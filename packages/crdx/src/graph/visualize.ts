@@ -0,0 +1,195 @@
+import { getChildrenHashes } from './children.js'
+import { getConcurrencyIndex } from './concurrencyIndex.js'
+import { getSequence } from './getSequence.js'
+import { type Action, type Graph, type Link, type Resolver } from './types.js'
+import { type Hash } from 'util/index.js'
+
+/**
+ * Exports the structure of a graph as a list of nodes and edges, e.g. for drawing it or including it
+ * in a bug report. Nodes are listed in topological order.
+ */
+export const toGraphJson = <A extends Action, C>(
+  graph: Graph<A, C>,
+  options: VisualizeOptions<A, C> = {}
+): GraphJson => {
+  const { label = ['type', 'author'], hashLength = 5, resolver, collapse = false } = options
+
+  const getLabel =
+    typeof label === 'function'
+      ? label
+      : (link: Link<A, C>) =>
+          label
+            .map(part => {
+              if (part === 'type') return link.body.type
+              if (part === 'author') return link.body.userId
+              return link.hash.slice(0, hashLength)
+            })
+            .join('\n')
+
+  // Links are invalid if they've been marked as such, or if the resolver filters them out
+  const invalid = new Set<Hash>()
+  for (const link of Object.values(graph.links)) if (link.isInvalid) invalid.add(link.hash)
+  if (resolver !== undefined)
+    for (const link of getSequence(graph, resolver)) if (link.isInvalid) invalid.add(link.hash)
+
+  const heads = new Set(graph.head)
+  const parentsOf = (hash: Hash) =>
+    [...new Set(graph.links[hash].body.prev)].filter(parent => parent in graph.links)
+
+  // When collapsing, a link joins its parent's node if it's the parent's only child and the parent
+  // is its only parent (and they're both valid or both invalid)
+  const joinsParent = (hash: Hash) => {
+    if (!collapse) return false
+    const parents = parentsOf(hash)
+    if (parents.length !== 1) return false
+    const [parent] = parents
+    return (
+      getChildrenHashes(graph, parent).length === 1 && invalid.has(parent) === invalid.has(hash)
+    )
+  }
+
+  const nodes: GraphNode[] = []
+  const nodeOf = new Map<Hash, GraphNode>()
+  for (const hash of getConcurrencyIndex(graph).order) {
+    const node = joinsParent(hash) ? nodeOf.get(parentsOf(hash)[0]) : undefined
+    if (node === undefined) {
+      const newNode: GraphNode = {
+        id: hash,
+        hashes: [hash],
+        label: getLabel(graph.links[hash]),
+        isRoot: hash === graph.root,
+        isHead: heads.has(hash),
+        isInvalid: invalid.has(hash),
+      }
+      nodes.push(newNode)
+      nodeOf.set(hash, newNode)
+    } else {
+      node.hashes.push(hash)
+      node.isHead = heads.has(hash)
+      nodeOf.set(hash, node)
+    }
+  }
+
+  // Collapsed nodes are labelled with their first and last links
+  for (const node of nodes) {
+    const count = node.hashes.length
+    if (count > 1) {
+      const last = getLabel(graph.links[node.hashes[count - 1]])
+      node.label = `${node.label}\n… ${count} links …\n${last}`
+    }
+  }
+
+  const edges: GraphEdge[] = nodes.flatMap(node =>
+    parentsOf(node.hashes[0]).map(parent => ({ from: nodeOf.get(parent)!.id, to: node.id }))
+  )
+
+  return { nodes, edges }
+}
+
+/**
+ * Returns a Mermaid flowchart of the graph. The head is drawn with a thick border, and invalid links
+ * with a dashed red border.
+ */
+export const toMermaid = <A extends Action, C>(
+  graph: Graph<A, C>,
+  options: VisualizeOptions<A, C> = {}
+) => {
+  const { nodes, edges } = toGraphJson(graph, options)
+  const ids = getShortIds(nodes)
+  const escape = (s: string) => s.replaceAll('"', '#quot;').replaceAll('\n', '<br/>')
+
+  return [
+    'flowchart TD',
+    'classDef head stroke-width:3px',
+    'classDef invalid fill:#fdd,stroke:#c00,stroke-dasharray:5 5',
+    ...nodes.map(node => `${ids.get(node.id)!}["${escape(node.label)}"]`),
+    ...edges.map(({ from, to }) => `${ids.get(from)!} --> ${ids.get(to)!}`),
+    ...classes(nodes, ids).map(([id, className]) => `class ${id} ${className}`),
+  ].join('\n')
+}
+
+/**
+ * Returns a Graphviz (DOT) diagram of the graph. The head is drawn with a thick border, and invalid
+ * links with a dashed red border.
+ */
+export const toDot = <A extends Action, C>(
+  graph: Graph<A, C>,
+  options: VisualizeOptions<A, C> = {}
+) => {
+  const { nodes, edges } = toGraphJson(graph, options)
+  const ids = getShortIds(nodes)
+  const escape = (s: string) =>
+    s.replaceAll('\\', '\\\\').replaceAll('"', '\\"').replaceAll('\n', '\\n')
+
+  const styles = new Map(classes(nodes, ids))
+  const attributes = { head: ' penwidth=3', invalid: ' style=dashed color=red' }
+
+  return [
+    'digraph {',
+    '  node [shape=box]',
+    ...nodes.map(node => {
+      const id = ids.get(node.id)!
+      const style = styles.get(id)
+      return `  ${id} [label="${escape(node.label)}"${style ? attributes[style] : ''}]`
+    }),
+    ...edges.map(({ from, to }) => `  ${ids.get(from)!} -> ${ids.get(to)!}`),
+    '}',
+  ].join('\n')
+}
+
+export type VisualizeOptions<A extends Action, C> = {
+  /**
+   * What to show for each link: any of the action type, the author's user ID, and the (truncated)
+   * hash; or a function returning the label for a link. Defaults to `['type', 'author']`.
+   */
+  label?: Array<'type' | 'author' | 'hash'> | ((link: Link<A, C>) => string)
+
+  /** How many characters of each hash to show. Defaults to 5. */
+  hashLength?: number
+
+  /** If provided, links that this resolver filters out of the sequence are marked as invalid. */
+  resolver?: Resolver<A, C>
+
+  /** If true, runs of links without any branching or merging are collapsed into a single node. */
+  collapse?: boolean
+}
+
+export type GraphNode = {
+  /** The hash of the first link in this node */
+  id: Hash
+
+  /** The hashes of the links in this node: just one, unless a run of links has been collapsed */
+  hashes: Hash[]
+
+  label: string
+  isRoot: boolean
+  isHead: boolean
+  isInvalid: boolean
+}
+
+export type GraphEdge = {
+  /** The id of the parent node */
+  from: Hash
+
+  /** The id of the child node */
+  to: Hash
+}
+
+export type GraphJson = {
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+}
+
+// HELPERS
+
+/** Hashes are too long to use as ids in diagrams, so we number the nodes instead */
+const getShortIds = (nodes: GraphNode[]) => new Map(nodes.map((node, i) => [node.id, `n${i}`]))
+
+/** Returns the id of each node that needs to be highlighted, along with how */
+const classes = (nodes: GraphNode[], ids: Map<Hash, string>) =>
+  nodes.flatMap((node): Array<[string, 'head' | 'invalid']> => {
+    const id = ids.get(node.id)!
+    if (node.isInvalid) return [[id, 'invalid']]
+    if (node.isHead) return [[id, 'head']]
+    return []
+  })
@@ -1,4 +1,4 @@
-﻿import { hash, asymmetric, signatures, stretch, randomKey } from '@localfirst/crypto'
+﻿import { hash, asymmetric, signatures, stretch, randomKey, mnemonic } from '@localfirst/crypto'
 import { type KeyScope, type KeysetWithSecrets } from './types.js'
 import { HashPurpose } from 'constants.js'
 import { type Optional } from 'util/index.js'
@@ -27,3 +27,11 @@ export const createKeyset = (
     secretKey: hash(SYMMETRIC, stretchedSeed),
   }
 }
+
+/** Regenerates a keyset from a mnemonic (see `mnemonic` in `@localfirst/crypto`). Given the same
+ *  scope and words, this always returns the same keys. */
+export const createKeysetFromMnemonic = (
+  scope: Optional<KeyScope, 'name'>,
+  /** A 12- or 24-word mnemonic, e.g. from `mnemonic.generate()` */
+  words: string
+) => createKeyset(scope, mnemonic.toSeed(words))
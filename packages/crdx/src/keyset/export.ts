@@ -0,0 +1,90 @@
+import { symmetric, type Base58, type StretchOptions } from '@localfirst/crypto'
+import { isKeyset, type KeysetWithSecrets } from './types.js'
+
+/** The format version written by `exportKeyset` and friends */
+export const EXPORT_VERSION = 1
+
+/**
+ * Encrypts a keyset with a passphrase, so that it can be backed up or moved to another device.
+ *
+ * The keyset is encrypted using a key stretched from the passphrase with Argon2id and a random
+ * salt. The cipher is authenticated, so any tampering is detected when the keyset is imported.
+ *
+ * ```js
+ * const backup = exportKeyset(keys, 'correct horse battery staple')
+ * // later...
+ * const keys = importKeyset(backup, 'correct horse battery staple')
+ * ```
+ */
+export const exportKeyset = (
+  keys: KeysetWithSecrets,
+  passphrase: string,
+  /** (optional) Salt and Argon2id limits to use when stretching the passphrase */
+  options?: StretchOptions
+): Base58 => exportSecrets(KEYSET, keys, passphrase, options)
+
+/**
+ * Decrypts a keyset exported using `exportKeyset`. Throws if the passphrase is wrong or the backup
+ * has been tampered with.
+ */
+export const importKeyset = (blob: Base58, passphrase: string): KeysetWithSecrets => {
+  const keys = importSecrets(KEYSET, blob, passphrase)
+  if (!isValidKeyset(keys)) throw new Error('This backup does not contain a valid keyset')
+  return keys
+}
+
+/**
+ * Encrypts any object containing secrets with a passphrase. The `format` is recorded inside the
+ * encrypted payload, so that a backup of one kind can't be mistaken for another on import.
+ */
+export const exportSecrets = (
+  format: string,
+  payload: unknown,
+  passphrase: string,
+  options?: StretchOptions
+): Base58 => {
+  const contents: ExportContents = { format, version: EXPORT_VERSION, payload }
+  return symmetric.encryptWithPassword(contents, passphrase, options)
+}
+
+/**
+ * Decrypts an object exported using `exportSecrets`, checking that it is of the expected format.
+ * The caller is responsible for validating the shape of the payload.
+ */
+export const importSecrets = (format: string, blob: Base58, passphrase: string): unknown => {
+  let contents: ExportContents
+  try {
+    contents = symmetric.decrypt(blob, passphrase) as ExportContents
+  } catch {
+    throw new Error('Could not decrypt backup: the passphrase is wrong or the backup is corrupted')
+  }
+
+  if (contents.format !== format)
+    throw new Error(`Expected a backup of type ${format}, but got ${String(contents.format)}`)
+  if (typeof contents.version !== 'number' || contents.version > EXPORT_VERSION)
+    throw new Error(`Unsupported backup version: ${String(contents.version)}`)
+
+  return contents.payload
+}
+
+/** Type guard: checks that a decrypted object has everything `createKeyset` would give us */
+export const isValidKeyset = (keys: unknown): keys is KeysetWithSecrets => {
+  if (typeof keys !== 'object' || keys === null) return false
+  const k = keys as Record<string, unknown>
+  return (
+    isKeyset(k) &&
+    typeof k.type === 'string' &&
+    typeof k.name === 'string' &&
+    typeof k.generation === 'number' &&
+    typeof k.encryption.secretKey === 'string' &&
+    typeof k.signature.secretKey === 'string'
+  )
+}
+
+const KEYSET = 'KEYSET'
+
+type ExportContents = {
+  format: string
+  version: number
+  payload: unknown
+}
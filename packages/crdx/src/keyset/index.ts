@@ -1,5 +1,6 @@
 export * from './createKeyring.js'
 export * from './createKeyset.js'
+export * from './export.js'
 export * from './getLatestGeneration.js'
 export * from './redact.js'
 export * from './types.js'
@@ -1,23 +1,37 @@
 import { EventEmitter } from 'eventemitter3'
 import { type StoreOptions } from './StoreOptions.js'
-import { type Reducer } from './types.js'
+import { type CheckpointOptions, type Reducer } from './types.js'
 import {
   type Action,
   append,
+  applyRedactions,
   baseResolver,
+  type CheckpointAction,
+  createCheckpointAction,
   createGraph,
+  createRedactAction,
   deserialize,
+  exportLog,
   getHead,
+  getMergeReport,
   type Graph,
+  hashState,
+  isCheckpoint,
+  isRedaction,
   merge,
+  type MergeReport,
+  type RedactAction,
   type Resolver,
   serialize,
+  serializeBinary,
 } from 'graph/index.js'
 import { createKeyring } from 'keyset/createKeyring.js'
 import { isKeyset, type Keyring, type KeysetWithSecrets } from 'keyset/index.js'
 import { type UserWithSecrets } from 'user/index.js'
-import { assert, type Optional } from 'util/index.js'
-import { validate, type ValidatorSet } from 'validator/index.js'
+import { assert, type Hash, type Optional } from 'util/index.js'
+import { fail, validate, type ValidatorSet } from 'validator/index.js'
+import { VALID } from 'constants.js'
+import { replayCheckpoints } from './checkpoints.js'
 import { makeMachine } from './makeMachine.js'
 
 /**
@@ -35,6 +49,7 @@ export class Store<S, A extends Action, C = Record<string, unknown>> extends Eve
   private readonly reducer: Reducer<S, A, C>
   private readonly resolver: Resolver<A, C>
   private readonly validators?: ValidatorSet
+  private readonly checkpoints: CheckpointOptions<S>
 
   private keyring: Keyring
 
@@ -51,6 +66,7 @@ export class Store<S, A extends Action, C = Record<string, unknown>> extends Eve
     validators,
     resolver = baseResolver,
     keys,
+    checkpoints,
   }: StoreOptions<S, A, C>) {
     super()
 
@@ -58,7 +74,7 @@ export class Store<S, A extends Action, C = Record<string, unknown>> extends Eve
       // no graph provided, so we'll create a new one
       assert(isKeyset(keys), 'If no graph is provided, only pass a single keyset, not a keyring.')
       this.graph = createGraph({ user, rootPayload, keys })
-    } else if (typeof graph === 'string') {
+    } else if (typeof graph === 'string' || graph instanceof Uint8Array) {
       // serialized graph was provided, so deserialize it
       assert(keys)
       this.graph = deserialize(graph, keys)
@@ -74,6 +90,13 @@ export class Store<S, A extends Action, C = Record<string, unknown>> extends Eve
     this.resolver = resolver
     this.user = user
 
+    // by default, we only trust checkpoints that we made ourselves
+    this.checkpoints = {
+      isTrusted: link => link.body.payload.publicKey === user.keys.signature.publicKey,
+      ...checkpoints,
+      states: { ...checkpoints?.states },
+    }
+
     // if a single keyset was provided, wrap it in a keyring
     this.keyring = createKeyring(keys)
 
@@ -99,6 +122,20 @@ export class Store<S, A extends Action, C = Record<string, unknown>> extends Eve
     return serialize(this.graph)
   }
 
+  /** Returns the current hash graph in a compact binary form. See `save`. */
+  public saveBinary() {
+    return serializeBinary(this.graph)
+  }
+
+  /**
+   * Returns the current hash graph as an append-only log. If a previous version of the graph (as
+   * returned by `getGraph`) is given, only returns the records to append to the log saved for that
+   * version. Either way, the log can be used to rehydrate this store from storage.
+   */
+  public saveLog(previous?: Graph<A, C>) {
+    return exportLog(this.graph, previous)
+  }
+
   /**
    * Dispatches an action to be added to the hash graph. This is the only way to trigger a
    * state change.
@@ -113,8 +150,10 @@ export class Store<S, A extends Action, C = Record<string, unknown>> extends Eve
     /**
      * A Redux-style plain object representing what changed. An action must have a `type` property
      * which may not be `undefined`. It is a good idea to use string constants for action types.
+     * Besides the application's own actions, this can be one of the actions that CRDX adds itself
+     * (checkpoints and redactions).
      */
-    action: Optional<A, 'payload'>,
+    action: Optional<A, 'payload'> | CheckpointAction<S> | RedactAction,
 
     /**
      * Keys used to encrypt the action's payload. If not provided, the action will be encrypted
@@ -151,8 +190,17 @@ export class Store<S, A extends Action, C = Record<string, unknown>> extends Eve
     // get the newly appended link (at this point we're guaranteed a single head, which is the one we appended)
     const [head] = getHead(this.graph)
 
+    if (isRedaction(head)) {
+      // erase the redacted link; since it no longer affects the state, we need to reduce the whole
+      // graph again
+      this.graph = applyRedactions(this.graph)
+      this.updateState()
+      return action
+    }
+
     // we don't need to pass the whole graph through the reducer, just the current state + the new head
-    this.state = this.reducer(this.state, head)
+    // (checkpoints don't change the state)
+    if (!isCheckpoint(head)) this.state = this.reducer(this.state, head)
 
     // notify listeners
     this.emit('updated', { head: this.graph.head })
@@ -161,13 +209,83 @@ export class Store<S, A extends Action, C = Record<string, unknown>> extends Eve
   }
 
   /**
-   * Merges another graph (e.g. from a peer) with ours.
+   * Merges another graph (e.g. from a peer) with ours, and emits a `merged` event describing what
+   * changed.
    * @param theirGraph
-   * @returns this `Store` instance
+   * @returns a report of the links that were added, and of any links that were invalidated
    */
-  public merge(theirGraph: Graph<A, C>) {
-    this.graph = merge(this.graph, theirGraph)
+  public merge(theirGraph: Graph<A, C>): MergeReport {
+    const ourGraph = this.graph
+    this.graph = merge(ourGraph, theirGraph)
     this.updateState()
+
+    const report = getMergeReport(ourGraph, this.graph, this.resolver)
+    this.emit('merged', report)
+    return report
+  }
+
+  /**
+   * Adds a checkpoint recording the current state, signed by the local user. When the graph is
+   * loaded by someone who trusts the local user, they can start from this state instead of
+   * replaying the whole graph.
+   *
+   * @returns the hash of the checkpoint link
+   */
+  public checkpoint({
+    /** If true, the state itself is included in the checkpoint, and not just its hash. */
+    includeState = false,
+  } = {}): Hash {
+    const { state } = this
+    const action = createCheckpointAction({
+      head: this.graph.head,
+      state,
+      user: this.user,
+      includeState,
+    })
+    this.dispatch(action)
+
+    // remember the state, in case it isn't included in the checkpoint
+    const [hash] = this.graph.head
+    this.checkpoints.states![hash] = state
+    return hash
+  }
+
+  /**
+   * Erases the body of an earlier link. Everyone who receives the redaction will drop the link's
+   * encrypted body, keeping only its hash and its place in the graph; and the link will no longer
+   * affect the state.
+   *
+   * By default, only the author of a link can redact it. The application can decide who else is
+   * allowed to redact which links by providing its own `validateRedactor` validator.
+   *
+   * @returns the hash of the redaction link
+   */
+  public redact(hash: Hash): Hash {
+    const link = this.graph.links[hash]
+    assert(link, `Can't redact link ${hash}: it doesn't exist`)
+    assert(hash !== this.graph.root, `Can't redact the root link`)
+    this.dispatch(createRedactAction(link))
+    return this.graph.head[0]
+  }
+
+  /**
+   * Replays the whole graph from the root, to make sure that the checkpoints in the graph and the
+   * store's current state are consistent with a full replay.
+   */
+  public verifyCheckpoints() {
+    const { state, mismatches } = replayCheckpoints(this.graph, {
+      initialState: this.initialState,
+      reducer: this.reducer,
+      resolver: this.resolver,
+    })
+
+    if (mismatches.length > 0)
+      return fail(`The state recorded in a checkpoint doesn't match a full replay.`, { mismatches })
+
+    if (hashState(state) !== hashState(this.state))
+      return fail(`The current state doesn't match a full replay.`, { state })
+
+    return VALID
   }
 
   /**
@@ -186,6 +304,7 @@ export class Store<S, A extends Action, C = Record<string, unknown>> extends Eve
       reducer: this.reducer,
       resolver: this.resolver,
       validators: this.validators,
+      checkpoints: this.checkpoints,
     })
     this.state = machine(this.graph)
 
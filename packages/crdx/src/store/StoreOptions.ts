@@ -1,4 +1,4 @@
-import { type Reducer } from './types.js'
+import { type CheckpointOptions, type Reducer } from './types.js'
 import { type Action, type Graph, type Resolver } from 'graph/index.js'
 import { type Keyring, type KeysetWithSecrets } from 'keyset/index.js'
 import { type UserWithSecrets } from 'user/index.js'
@@ -21,17 +21,21 @@ export type StoreOptions<S, A extends Action, C> = {
   resolver?: Resolver<A, C>
 
   /** Optional validators to ensure the graph is in a valid state. These are used in addition to
-   *  built-in validators, for example those that that validate cryptographic hashes and signatures. */
+   *  built-in validators, for example those that that validate cryptographic hashes and signatures.
+   *  A validator with the same name as a built-in one (e.g. `validateRedactor`) replaces it. */
   validators?: ValidatorSet
 
   /** The initial state to provide to the reducer's first action. By default this is an empty object `{}` */
   initialState?: S
 
   /** For pre-existing stores: A graph to preload, e.g. from saved state. */
-  graph?: string | Graph<A, C>
+  graph?: string | Uint8Array | Graph<A, C>
 
   /** For new stores: Additional information to include in the root node  */
   rootPayload?: unknown
 
   keys: KeysetWithSecrets | Keyring
+
+  /** Which checkpoints to trust when loading the graph. By default, we only trust our own. */
+  checkpoints?: Partial<CheckpointOptions<S>>
 }
@@ -0,0 +1,104 @@
+import { type CheckpointOptions, type Reducer } from './types.js'
+import {
+  type Action,
+  getSequence,
+  type Graph,
+  hashState,
+  getRedactions,
+  isCheckpoint,
+  isRedacted,
+  isRedaction,
+  type Resolver,
+  verifyCheckpoint,
+} from 'graph/index.js'
+import { type ConcurrencyIndex, getConcurrencyIndex, getSegment } from 'graph/concurrencyIndex.js'
+import { type Hash } from 'util/index.js'
+
+/**
+ * Finds the latest checkpoint in the graph that we can start reducing from, and returns its hash
+ * along with its state.
+ *
+ * A checkpoint can be used if
+ * - it is correctly signed, and its author is trusted (as decided by `isTrusted`);
+ * - we have its state, either included in the checkpoint or provided in `states`;
+ * - no other link is concurrent with it; and
+ * - it doesn't include the effects of a link that has since been redacted.
+ *
+ * The last rule deals with branches that straddle a checkpoint. If someone who hadn't seen the
+ * checkpoint added links concurrently with it, the resolver might reorder or omit links on either
+ * side of it, so the state recorded in the checkpoint can no longer be relied on. In that case we
+ * fall back to an earlier checkpoint, or to the root. Once the branches have been merged, a new
+ * checkpoint can be added after them.
+ */
+export const findCheckpoint = <S>(
+  graph: Graph<any, any>,
+  { isTrusted, states = {} }: CheckpointOptions<S>
+): { hash: Hash; state: S } | undefined => {
+  const index = getConcurrencyIndex(graph)
+
+  // Start from the end, since we want the latest checkpoint
+  for (let i = index.order.length - 1; i >= 0; i--) {
+    const link = graph.links[index.order[i]]
+    if (!isCheckpoint<S>(link)) continue
+
+    const { start, end } = getSegment(index, link.hash)!
+    if (end - start > 1) continue // concurrent with other links
+    if (isStale(graph, index, link.hash)) continue
+
+    if (!verifyCheckpoint(link) || !isTrusted(link)) continue
+
+    const { stateHash, state = states[link.hash] } = link.body.payload
+    if (state === undefined || hashState(state) !== stateHash) continue
+
+    return { hash: link.hash, state }
+  }
+
+  return undefined
+}
+
+/**
+ * Replays the whole graph from the root, and checks that each checkpoint that isn't concurrent with
+ * other links (or made before an earlier link was redacted) recorded the same state as the replay. Returns the final state, along with the hashes
+ * of any checkpoints whose state doesn't match.
+ */
+export const replayCheckpoints = <S, A extends Action, C>(
+  graph: Graph<A, C>,
+  { initialState, reducer, resolver }: ReplayParams<S, A, C>
+) => {
+  const index = getConcurrencyIndex(graph)
+  const mismatches: Hash[] = []
+  let state = initialState
+  for (const link of getSequence(graph, resolver)) {
+    if (isCheckpoint(link)) {
+      const { start, end } = getSegment(index, link.hash)!
+      const isComparable = end - start === 1 && !isStale(graph, index, link.hash)
+      if (isComparable && hashState(state) !== link.body.payload.stateHash)
+        mismatches.push(link.hash)
+    } else if (!isRedaction(link) && !isRedacted(link)) {
+      state = reducer(state, link)
+    }
+  }
+
+  return { state, mismatches }
+}
+
+/**
+ * Returns true if the given checkpoint comes after a link that was redacted after the checkpoint
+ * was made. The checkpoint's state includes the effects of that link, which it no longer has.
+ */
+const isStale = (graph: Graph<any, any>, index: ConcurrencyIndex, hash: Hash) => {
+  const position = index.position.get(hash)!
+  for (const [target, redaction] of getRedactions(graph)) {
+    const isTargetBefore = index.position.get(target)! < position
+    const isRedactionAfter = index.position.get(redaction.hash)! > position
+    if (isTargetBefore && isRedactionAfter) return true
+  }
+
+  return false
+}
+
+type ReplayParams<S, A extends Action, C> = {
+  initialState: S
+  reducer: Reducer<S, A, C>
+  resolver?: Resolver<A, C>
+}
@@ -1,3 +1,4 @@
+export * from './checkpoints.js'
 export * from './createStore.js'
 export * from './makeMachine.js'
 export * from './Store.js'
@@ -1,5 +1,14 @@
-import { type Reducer } from './types.js'
-import { type Action, getSequence, type Graph, type Resolver } from 'graph/index.js'
+import { findCheckpoint } from './checkpoints.js'
+import { type CheckpointOptions, type Reducer } from './types.js'
+import {
+  type Action,
+  getSequence,
+  type Graph,
+  isCheckpoint,
+  isRedacted,
+  isRedaction,
+  type Resolver,
+} from 'graph/index.js'
 import { validate, type ValidatorSet } from 'validator/index.js'
 
 export const makeMachine = <S, A extends Action, C>({
@@ -7,16 +16,24 @@ export const makeMachine = <S, A extends Action, C>({
   reducer,
   resolver,
   validators,
+  checkpoints,
 }: MachineParams<S, A, C>) => {
   return (graph: Graph<A, C>) => {
+    // If there's a checkpoint we trust, we can start from there rather than from the root
+    const checkpoint = checkpoints === undefined ? undefined : findCheckpoint(graph, checkpoints)
+    const from = checkpoint?.hash
+
     // Validate the graph's integrity.
-    validate(graph, validators)
+    validate(graph, validators, { from })
 
     // Use the filter & sequencer to turn the graph into an ordered sequence
-    const sequence = getSequence(graph, resolver)
+    const sequence = getSequence(graph, resolver, { from })
 
-    // Run the sequence through the reducer to calculate the current team state
-    return sequence.reduce(reducer, initialState)
+    // Run the sequence through the reducer to calculate the current team state (checkpoints and
+    // redactions don't change the state, and links that have been redacted no longer do)
+    return sequence
+      .filter(link => !isCheckpoint(link) && !isRedaction(link) && !isRedacted(link))
+      .reduce(reducer, checkpoint === undefined ? initialState : checkpoint.state)
   }
 }
 
@@ -25,4 +42,7 @@ type MachineParams<S, A extends Action, C> = {
   reducer: Reducer<S, A, C>
   resolver: Resolver<A, C>
   validators?: ValidatorSet
+
+  /** If provided, reduction starts from the latest trusted checkpoint rather than from the root */
+  checkpoints?: CheckpointOptions<S>
 }
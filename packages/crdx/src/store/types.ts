@@ -1,6 +1,19 @@
-import { type Action, type Link } from 'graph/index.js'
+import { type Action, type CheckpointAction, type Link } from 'graph/index.js'
+import { type Hash } from 'util/index.js'
 
 export type Reducer<S, A extends Action, C = Record<string, unknown>> = (
   state: S,
   link: Link<A, C>
 ) => S
+
+export type CheckpointOptions<S> = {
+  /**
+   * Decides whether we trust the author of a checkpoint. Checkpoints are only used if their author
+   * is trusted, since we can't tell whether a checkpoint's state is correct without replaying the
+   * graph.
+   */
+  isTrusted: (checkpoint: Link<CheckpointAction<S>, any>) => boolean
+
+  /** States for checkpoints that don't include their state, by checkpoint hash */
+  states?: Record<Hash, S>
+}
@@ -0,0 +1,54 @@
+/* eslint-disable no-bitwise */
+import { base58 } from '@localfirst/crypto'
+import { type Base58, type Hash } from 'util/index.js'
+
+/**
+ * A Bloom filter is a compact, probabilistic representation of a set of hashes. It can tell us for
+ * certain that a hash is _not_ in the set, but it will occasionally claim that a hash is in the set
+ * when it isn't (a false positive). With the parameters used here, about 1% of lookups for hashes
+ * that aren't in the set return a false positive.
+ *
+ * This is the same construction used in Automerge's sync protocol. Since link hashes are already
+ * uniformly distributed, we don't need to hash them again: the positions to check are derived
+ * directly from the bytes of the hash.
+ */
+export const createBloomFilter = (hashes: Hash[]): Base58 => {
+  const bits = new Uint8Array(Math.ceil((hashes.length * BITS_PER_ENTRY) / 8))
+  for (const hash of hashes)
+    for (const probe of getProbes(bits, hash)) bits[probe >>> 3] |= 1 << (probe & 7)
+  return base58.encode(bits)
+}
+
+/**
+ * Returns a function that tells us whether a hash might be in the set represented by the given
+ * Bloom filter. If it returns false, the hash is definitely not in the set.
+ */
+export const readBloomFilter = (filter: Base58) => {
+  const bits = base58.decode(filter)
+  return (hash: Hash) =>
+    bits.length > 0 && getProbes(bits, hash).every(probe => bits[probe >>> 3] & (1 << (probe & 7)))
+}
+
+// HELPERS
+
+const BITS_PER_ENTRY = 10
+const PROBES = 7
+
+/** Returns the positions of the bits to set (or check) for the given hash */
+const getProbes = (bits: Uint8Array, hash: Hash) => {
+  const modulo = 8 * bits.length
+  const bytes = base58.decode(hash)
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let x = view.getUint32(0, true) % modulo
+  let y = view.getUint32(4, true) % modulo
+  const z = view.getUint32(8, true) % modulo
+
+  const probes = [x]
+  for (let i = 1; i < PROBES; i++) {
+    x = (x + y) % modulo
+    y = (y + z) % modulo
+    probes.push(x)
+  }
+
+  return probes
+}
@@ -1,4 +1,8 @@
-import { type SyncMessage, type SyncState } from './types.js'
+import { uniq } from 'lodash-es'
+import { createBloomFilter, readBloomFilter } from './bloomFilter.js'
+import { type SyncMessage, type SyncOptions, type SyncState } from './types.js'
+import { BLOOM } from 'constants.js'
+import { getConcurrencyIndex } from 'graph/concurrencyIndex.js'
 import {
   type Action,
   getEncryptedLinks,
@@ -7,6 +11,7 @@ import {
   getPredecessorHashes,
   type Graph,
   headsAreEqual,
+  type LinkMap,
 } from 'graph/index.js'
 import { type Hash } from 'util/index.js'
 
@@ -20,7 +25,12 @@ export const generateMessage = <A extends Action, C>(
   /** Our current graph */
   graph: Graph<A, C>,
   /** Our sync state with this peer */
-  prevState: SyncState
+  prevState: SyncState,
+  /** Options, e.g. a limit on the size of the message */
+  {
+    maxMessageSize = Number.POSITIVE_INFINITY,
+    maxLinks = Number.POSITIVE_INFINITY,
+  }: SyncOptions = {}
 ): [SyncState, SyncMessage | undefined] => {
   const message: SyncMessage = {
     root: graph.root,
@@ -75,8 +85,9 @@ export const generateMessage = <A extends Action, C>(
       // anything in their link map
       ...Object.keys(their.parentMap),
 
-      // anything we've already sent
+      // anything we've already sent, or they've sent us
       ...our.links,
+      ...(their.sentLinks ?? []),
     ].map(h => [h, true])
   )
 
@@ -93,29 +104,73 @@ export const generateMessage = <A extends Action, C>(
     hashesWeThinkTheyNeed = getHashes(graph).filter(hash => !(hash in theirHashLookup))
   } else {
     // CASE 4: we're either behind, or have diverged
+    const linksWeHave = { ...graph.encryptedLinks, ...their.encryptedLinks }
+
+    if (their.have) {
+      // CASE 4A: they've sent us a Bloom filter of the links they have since their last common head
+      // with us; anything that's not in the filter, they definitely don't have
+      const mightHave = readBloomFilter(their.have.bloom)
+      const theyHadInCommon = getHashesUpTo(graph, their.have.lastCommonHead)
+      hashesWeThinkTheyNeed = getHashes(graph).filter(
+        hash => !(hash in theirHashLookup) && !theyHadInCommon.has(hash) && !mightHave(hash)
+      )
+    } else if (prevState.strategy !== BLOOM || Object.keys(their.parentMap).length > 0) {
+      // CASE 4B: they've sent us a link map (or, if we're not using Bloom filters, we'll assume
+      // they need anything they haven't mentioned)
 
-    // if they've sent us a link map,
-    if (their.parentMap) {
       // ask for anything they mention that we don't have
-      const linksWeHave = { ...graph.encryptedLinks, ...their.encryptedLinks }
       message.need = Object.keys(theirHashLookup).filter(hash => !(hash in linksWeHave)) as Hash[]
 
       // and figure out what links they might need
       hashesWeThinkTheyNeed = getHashes(graph).filter(hash => !(hash in theirHashLookup))
     }
 
-    // If our head has changed since last time we sent them a parentMap,
-    if (!headsAreEqual(ourHead, our.parentMapAtHead)) {
-      // send a new parentMap with everything that's happened since then
-      message.parentMap = getParentMap({ graph, end: lastCommonHead })
+    // If a Bloom filter gave a false positive, they'll have sent us links without their parents.
+    // Ask for any parents we don't have, as well as their heads.
+    const missingHashes = [...theirHead, ...Object.values(their.parentMap).flat()].filter(
+      hash => !(hash in linksWeHave) && !message.need?.includes(hash)
+    )
+    if (missingHashes.length > 0)
+      message.need = [...(message.need ?? []), ...new Set(missingHashes)]
+
+    if (prevState.strategy === BLOOM) {
+      // If our head has changed since last time we sent them a Bloom filter,
+      if (!headsAreEqual(ourHead, our.haveAtHead)) {
+        // send a new one with everything we have since our last common head
+        const weHadInCommon = getHashesUpTo(graph, lastCommonHead)
+        const hashes = getHashes(graph).filter(hash => !weHadInCommon.has(hash))
+        message.have = { lastCommonHead, bloom: createBloomFilter(hashes) }
+        // remember that we sent this filter so we don't send it again
+        state.our.haveAtHead = ourHead
+      }
+    } else if (!headsAreEqual(ourHead, our.parentMapAtHead)) {
+      // If our head has changed since last time we sent them a parentMap,
+      // send a new parentMap with everything that's happened since then. If it's too big to send,
+      // we send the most recent part of it, leaving room for some links; they'll ask for anything
+      // before that.
+      const parentMap = getParentMap({ graph, end: lastCommonHead })
+      const maxSize = (maxMessageSize - getSize(message)) / 2
+      message.parentMap = truncateParentMap(graph, parentMap, maxSize)
       // remember that we send this linkmap so we don't send it again
       state.our.parentMapAtHead = ourHead
     }
   }
 
-  // Send them links they need
+  // Send them links they need, including any that didn't fit in the last message
   const hashesTheyAskedFor = their.need
-  const hashesToSend = hashesTheyAskedFor.concat(hashesWeThinkTheyNeed) //
+  let hashesToSend = uniq([
+    ...(our.pendingLinks ?? []),
+    ...hashesTheyAskedFor,
+    ...hashesWeThinkTheyNeed,
+  ])
+
+  // If they don't all fit in one message, send what fits now and keep the rest for later
+  const [batch, pendingLinks] = getBatch(graph, hashesToSend, {
+    maxMessageSize: maxMessageSize - getSize(message) - getSize({ links: {}, parentMap: {} }),
+    maxLinks,
+  })
+  hashesToSend = batch
+  state.our.pendingLinks = pendingLinks
 
   if (hashesToSend.length > 0) {
     // look up the encrypted links
@@ -135,3 +190,79 @@ export const generateMessage = <A extends Action, C>(
 
   return [state, message]
 }
+
+// HELPERS
+
+/** Returns the given links (the ones we have, anyway) and all their predecessors */
+const getHashesUpTo = <A extends Action, C>(graph: Graph<A, C>, hashes: Hash[]) =>
+  new Set(
+    hashes
+      .filter(hash => hash in graph.links)
+      .flatMap(hash => [hash, ...getPredecessorHashes(graph, hash)])
+  )
+
+/** The size of (part of) a message, as JSON */
+const getSize = (value: unknown) => JSON.stringify(value).length
+
+/** The size of an entry in a record keyed by hash (e.g. `links` or `parentMap`) */
+const getEntrySize = (hash: Hash, value: unknown) => getSize({ [hash]: value })
+
+/**
+ * Splits the hashes into a batch of links that fits within `maxMessageSize` (counting the links and
+ * their entries in the parent map) and has no more than `maxLinks` links, and the rest. Links are
+ * taken in topological order, so each batch only depends on links the peer already has or has been
+ * sent in earlier batches. The batch always includes at least one link, even if it's bigger than the
+ * limit.
+ */
+const getBatch = <A extends Action, C>(
+  graph: Graph<A, C>,
+  hashes: Hash[],
+  { maxMessageSize, maxLinks }: Required<SyncOptions>
+): [Hash[], Hash[]] => {
+  if (maxMessageSize === Number.POSITIVE_INFINITY && maxLinks === Number.POSITIVE_INFINITY)
+    return [hashes, []]
+
+  const { position } = getConcurrencyIndex(graph)
+  const sorted = hashes
+    .filter(hash => hash in graph.encryptedLinks)
+    .sort((a, b) => position.get(a)! - position.get(b)!)
+
+  let size = 0
+  let i = 0
+  for (; i < sorted.length; i++) {
+    const hash = sorted[i]
+    size +=
+      getEntrySize(hash, graph.encryptedLinks[hash]) +
+      getEntrySize(hash, graph.links[hash].body.prev)
+    if ((size > maxMessageSize || i >= maxLinks) && i > 0) break
+  }
+
+  return [sorted.slice(0, i), sorted.slice(i)]
+}
+
+/**
+ * Returns as much of the parent map as fits within `maxMessageSize`, starting with the most recent
+ * links.
+ */
+const truncateParentMap = <A extends Action, C>(
+  graph: Graph<A, C>,
+  parentMap: LinkMap,
+  maxMessageSize: number
+): LinkMap => {
+  if (maxMessageSize === Number.POSITIVE_INFINITY) return parentMap
+
+  const { position } = getConcurrencyIndex(graph)
+  const newestFirst = (Object.keys(parentMap) as Hash[]).sort(
+    (a, b) => position.get(b)! - position.get(a)!
+  )
+
+  const truncated: LinkMap = {}
+  let size = 0
+  for (const hash of newestFirst) {
+    size += getEntrySize(hash, parentMap[hash])
+    if (size > maxMessageSize) break
+    truncated[hash] = parentMap[hash]
+  }
+
+  return truncated
+}
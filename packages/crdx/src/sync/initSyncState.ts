@@ -1,6 +1,7 @@
-import { type SyncState } from './types.js'
+import { type SyncStrategy, type SyncState } from './types.js'
+import { PARENT_MAP } from 'constants.js'
 
-export const initSyncState = (): SyncState => ({
+export const initSyncState = (strategy: SyncStrategy = PARENT_MAP): SyncState => ({
   their: {
     head: [],
     encryptedLinks: {},
@@ -15,4 +16,5 @@ export const initSyncState = (): SyncState => ({
 
   lastCommonHead: [],
   failedSyncCount: 0,
+  strategy,
 })
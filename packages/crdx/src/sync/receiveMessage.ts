@@ -1,9 +1,18 @@
+import { uniq } from 'lodash-es'
 import { type SyncMessage, type SyncState } from './types.js'
 import { type DecryptFn, decryptGraph } from 'graph/decrypt.js'
-import { type Action, getChildMap, type Graph, invertLinkMap, merge } from 'graph/index.js'
+import {
+  type Action,
+  getChildMap,
+  getRedactions,
+  type Graph,
+  invertLinkMap,
+  isRedactedEncryptedLink,
+  merge,
+} from 'graph/index.js'
 import { createKeyring, type Keyring, type KeysetWithSecrets } from 'keyset/index.js'
-import { assert } from 'util/index.js'
-import { validate } from 'validator/index.js'
+import { assert, type Hash } from 'util/index.js'
+import { fail, validate } from 'validator/index.js'
 
 /**
  * Receives a sync message from a peer and updates our sync state accordingly so that
@@ -41,51 +50,134 @@ export const receiveMessage = <A extends Action, C>(
       need: their.need ?? [],
       encryptedLinks: { ...prevState.their.encryptedLinks, ...their.links },
       parentMap: { ...prevState.their.parentMap, ...their.parentMap },
+      sentLinks: uniq([
+        ...(prevState.their.sentLinks ?? []),
+        ...(Object.keys(their.links ?? {}) as Hash[]),
+      ]),
+      have: their.have ?? prevState.their.have,
       reportedError: their.error,
     },
   }
 
+  const linksWeHave = { ...graph.encryptedLinks, ...state.their.encryptedLinks }
+  const received = Object.keys(state.their.encryptedLinks) as Hash[]
+  const parents = new Set(received.flatMap(hash => state.their.parentMap[hash] ?? []))
+
+  // If we're missing the parents of any of the links they've sent us (e.g. because of a false
+  // positive in a Bloom filter), we can't add them yet; we'll hang on to them and ask for the
+  // missing links.
+  const isComplete = [...parents].every(hash => hash in linksWeHave)
+
   // if we've received links from them, try to reconstruct their graph and merge
-  if (Object.keys(state.their.encryptedLinks).length > 0) {
-    // reconstruct their graph
-    const { head } = their
+  if (received.length > 0 && isComplete) {
+    /** Reconstructs their graph from the given links (and ours), and merges it with our graph */
+    const mergeLinks = (hashes: Hash[]) => {
+      const theirLinks = pick(state.their.encryptedLinks, hashes)
+      const encryptedLinks = { ...graph.encryptedLinks, ...theirLinks }
 
-    const ourChildMap = getChildMap(graph)
-    const theirChildMap = invertLinkMap(state.their.parentMap)
-    const childMap = { ...ourChildMap, ...theirChildMap }
+      // If they're sending us their links in batches, we won't have their head until the last one
+      // arrives; until then, we add the links we have so far, using the latest of those as the head.
+      const theirParentMap = pick(state.their.parentMap, hashes)
+      const theirParents = new Set(Object.values(theirParentMap).flat())
+      const head = their.head.every(hash => hash in encryptedLinks)
+        ? their.head
+        : hashes.filter(hash => !theirParents.has(hash))
 
-    const encryptedLinks = {
-      ...graph.encryptedLinks,
-      ...state.their.encryptedLinks,
-    }
-    const encryptedGraph = {
-      ...graph,
-      head,
-      encryptedLinks,
-      childMap,
+      // reconstruct their graph
+      const ourChildMap = getChildMap(graph)
+      const theirChildMap = invertLinkMap(theirParentMap)
+      const childMap = { ...ourChildMap, ...theirChildMap }
+
+      const encryptedGraph = { ...graph, head, encryptedLinks, childMap }
+      const theirGraph = decrypt({ encryptedGraph, keys: keyring })
+
+      // merge with our graph
+      return merge(graph, theirGraph)
     }
 
-    const theirGraph = decrypt({ encryptedGraph, keys: keyring })
+    let mergedGraph = mergeLinks(received)
 
-    // merge with our graph
-    const mergedGraph = merge(graph, theirGraph)
+    // A link that has been erased can't be validated without the redaction that erased it. If a
+    // batch ends between the two, we hold on to the erased link, and anything that depends on it,
+    // until the redaction arrives.
+    const held = getHeldLinks(mergedGraph, received, state.their.parentMap)
 
-    // check the integrity of the merged graph
-    const validation = validate(mergedGraph)
-    if (validation.isValid) {
-      graph = mergedGraph
-    } else {
-      // We only get here if we've received bad links from them — maliciously, or not. The
-      // application should monitor `failedSyncCount` and decide not to trust them if it's too high.
+    // If we have everything up to their head and we still don't have the redaction, they're never
+    // going to send it, so we give up on those links.
+    const giveUp = held.size > 0 && their.head.every(hash => hash in mergedGraph.encryptedLinks)
+    if (giveUp) {
       state.failedSyncCount += 1
-      // Record the error so we can surface it in generateMessage
-      state.our.reportedError = validation.error
+      const hashes = [...held]
+      state.our.reportedError = fail(`Received erased links without their redaction.`, {
+        hashes,
+      }).error
     }
 
-    // either way, we can discard all pending links
-    state.their.encryptedLinks = {}
-    state.their.parentMap = {}
+    const hashesToMerge = received.filter(hash => !held.has(hash))
+    if (held.size > 0 && hashesToMerge.length > 0) mergedGraph = mergeLinks(hashesToMerge)
+
+    if (hashesToMerge.length > 0) {
+      // check the integrity of the merged graph
+      const validation = validate(mergedGraph)
+      if (validation.isValid) {
+        graph = mergedGraph
+      } else {
+        // We only get here if we've received bad links from them — maliciously, or not. The
+        // application should monitor `failedSyncCount` and decide not to trust them if it's too high.
+        state.failedSyncCount += 1
+        // Record the error so we can surface it in generateMessage
+        state.our.reportedError = validation.error
+      }
+    }
+
+    // either way, we can discard all pending links other than the ones we're holding on to
+    const stillHeld = giveUp ? [] : [...held]
+    state.their.encryptedLinks = pick(state.their.encryptedLinks, stillHeld)
+    state.their.parentMap = pick(state.their.parentMap, stillHeld)
   }
 
+  // Once we have their head, we know they have everything before it, so we no longer need to keep
+  // track of the links they've sent us
+  if (their.head.every(hash => hash in graph.links)) state.their.sentLinks = []
+
   return [graph, state]
 }
+
+// HELPERS
+
+/** Returns the subset of the given record with the given keys */
+const pick = <T>(record: Record<Hash, T>, hashes: Hash[]) =>
+  Object.fromEntries(hashes.filter(hash => hash in record).map(hash => [hash, record[hash]]))
+
+/**
+ * Returns the received links that have been erased but whose redaction we don't have yet, along
+ * with any received links that depend on them.
+ */
+const getHeldLinks = <A extends Action, C>(
+  graph: Graph<A, C>,
+  received: Hash[],
+  parentMap: Record<Hash, Hash[]>
+) => {
+  const redactions = getRedactions(graph)
+  const held = new Set(
+    received.filter(
+      hash => isRedactedEncryptedLink(graph.encryptedLinks[hash]) && !redactions.has(hash)
+    )
+  )
+  if (held.size === 0) return held
+
+  // keep going until we've found all the descendants
+  let changed = true
+  while (changed) {
+    changed = false
+    for (const hash of received) {
+      if (held.has(hash)) continue
+      if (parentMap[hash]?.some(parent => held.has(parent))) {
+        held.add(hash)
+        changed = true
+      }
+    }
+  }
+
+  return held
+}
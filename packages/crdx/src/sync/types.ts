@@ -1,5 +1,6 @@
+import { type BLOOM, type PARENT_MAP } from 'constants.js'
 import { type EncryptedLink, type LinkMap } from 'graph/index.js'
-import { type Hash } from 'util/index.js'
+import { type Base58, type Hash } from 'util/index.js'
 import { type ValidationError } from 'validator/index.js'
 
 export type SyncState = {
@@ -16,6 +17,15 @@ export type SyncState = {
     /** Hashes of links they asked for in the last message. */
     need: Hash[]
 
+    /**
+     * Links they've sent us, so we don't send them back while they're sending us batches. (Once we
+     * have their head, we know they have all of these.)
+     */
+    sentLinks?: Hash[]
+
+    /** The most recent summary they've sent of the links they have (see `BloomSummary`). */
+    have?: BloomSummary
+
     /** The last error they sent us */
     reportedError?: ValidationError
   }
@@ -30,8 +40,14 @@ export type SyncState = {
     /** Our head when we sent the last linkMap, so we don't keep sending it */
     parentMapAtHead?: Hash[]
 
+    /** Our head when we sent the last Bloom filter, so we don't keep sending it */
+    haveAtHead?: Hash[]
+
     /** List of links we've sent them, so we don't send them multiple times */
     links: Hash[]
+
+    /** Links we still need to send them, because they didn't fit in the last message */
+    pendingLinks?: Hash[]
   }
 
   /** The head we had in common with this peer the last time we synced. If empty, we haven't synced before. */
@@ -39,6 +55,47 @@ export type SyncState = {
 
   /** We increment this each time a sync fails because we would have ended up with an invalid graph */
   failedSyncCount: number
+
+  /** How we tell this peer which links we have. If omitted, we use `PARENT_MAP`. */
+  strategy?: SyncStrategy
+}
+
+export type SyncOptions = {
+  /**
+   * The largest message we want to send, in bytes (as JSON). If the links they need don't fit, we
+   * send them in batches over several rounds. If the structure of our graph (see `PARENT_MAP`)
+   * doesn't fit, we only send the most recent part of it, and they ask for the links they're missing.
+   * By default, there's no limit.
+   */
+  maxMessageSize?: number
+
+  /**
+   * The largest number of links we want to send in one message. If they need more than that, we
+   * send them in batches over several rounds. By default, there's no limit.
+   */
+  maxLinks?: number
+}
+
+/**
+ * - `PARENT_MAP`: We send the structure of our graph since our last common head, and they work out
+ *   which links we're missing. This is precise, but when we haven't synced before, it amounts to
+ *   the structure of the whole graph.
+ * - `BLOOM`: We send a Bloom filter of the hashes we have since our last common head, which takes
+ *   around ten bits per link. They send us any links that aren't in the filter. Since a Bloom
+ *   filter can give false positives, we might not receive some links we need; we'll notice that
+ *   their parents are missing, and ask for them explicitly.
+ *
+ * Either peer can use either strategy: each one understands both kinds of message.
+ */
+export type SyncStrategy = typeof PARENT_MAP | typeof BLOOM
+
+/** A summary of the links we have, sent when using the `BLOOM` strategy. */
+export type BloomSummary = {
+  /** The head we had in common with them the last time we synced. */
+  lastCommonHead: Hash[]
+
+  /** A Bloom filter containing the hashes of all the links we have since `lastCommonHead`. */
+  bloom: Base58
 }
 
 export type SyncMessage = {
@@ -54,6 +111,9 @@ export type SyncMessage = {
   /** Our most recent hashes and their dependencies. */
   parentMap?: LinkMap
 
+  /** A summary of the links we have, if we're using the `BLOOM` strategy. */
+  have?: BloomSummary
+
   /** Any hashes we know we need. */
   need?: Hash[]
 
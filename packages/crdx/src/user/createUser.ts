@@ -1,4 +1,4 @@
-﻿import { randomKey } from '@localfirst/crypto'
+﻿import { mnemonic, randomKey } from '@localfirst/crypto'
 import { createId } from '@paralleldrive/cuid2'
 import { createKeyset, KeyType } from 'keyset/index.js'
 import { type UserWithSecrets } from 'user/types.js'
@@ -17,3 +17,19 @@ export const createUser = (
     keys: createKeyset({ type: KeyType.USER, name: userId }, seed),
   }
 }
+
+/**
+ * Creates a local user whose keys are derived from a mnemonic, so that they can be recovered from a
+ * paper backup. To get the same keys back later, use the same `userId` and words.
+ *
+ * ```js
+ * const words = mnemonic.generate() // show these to the user to write down
+ * const alice = createUserFromMnemonic('alice', aliceId, words)
+ * ```
+ */
+export const createUserFromMnemonic = (
+  userName: string,
+  userId: string,
+  /** A 12- or 24-word mnemonic, e.g. from `mnemonic.generate()` */
+  words: string
+): UserWithSecrets => createUser(userName, userId, mnemonic.toSeed(words))
@@ -0,0 +1,30 @@
+import { type Base58, type StretchOptions } from '@localfirst/crypto'
+import { type UserWithSecrets } from './types.js'
+import { exportSecrets, importSecrets, isValidKeyset } from 'keyset/index.js'
+
+/**
+ * Encrypts a user, including their secret keys, with a passphrase. See `exportKeyset`.
+ */
+export const exportUser = (
+  user: UserWithSecrets,
+  passphrase: string,
+  /** (optional) Salt and Argon2id limits to use when stretching the passphrase */
+  options?: StretchOptions
+): Base58 => exportSecrets(USER, user, passphrase, options)
+
+/**
+ * Decrypts a user exported using `exportUser`. Throws if the passphrase is wrong or the backup has
+ * been tampered with.
+ */
+export const importUser = (blob: Base58, passphrase: string): UserWithSecrets => {
+  const user = importSecrets(USER, blob, passphrase) as UserWithSecrets
+  if (
+    typeof user?.userId !== 'string' ||
+    typeof user.userName !== 'string' ||
+    !isValidKeyset(user.keys)
+  )
+    throw new Error('This backup does not contain a valid user')
+  return user
+}
+
+const USER = 'USER'
@@ -1,3 +1,4 @@
 ﻿export * from './createUser.js'
+export * from './export.js'
 export * from './redact.js'
 export * from './types.js'
@@ -0,0 +1,19 @@
+/** Concatenates the given byte arrays */
+export const concat = (chunks: Uint8Array[]) => {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+
+  return result
+}
+
+/** Returns a header for a binary format: the given magic bytes, followed by the format version */
+export const formatHeader = (magic: Uint8Array, version: number) =>
+  concat([magic, new Uint8Array([version])])
+
+/** Returns true if these bytes start with the given magic bytes (and have something after them) */
+export const hasHeader = (bytes: Uint8Array, magic: Uint8Array) =>
+  bytes.length > magic.length && magic.every((byte, i) => bytes[i] === byte)
@@ -1,5 +1,6 @@
 export * from 'util/arrayToMap.js'
 export * from 'util/assert.js'
+export * from 'util/bytes.js'
 export * from 'util/debug.js'
 export * from 'util/memoize.js'
 export * from 'util/truncateHashes.js'
@@ -20,9 +20,10 @@ export const syncMessageSummary = (m: SyncMessage): any => {
     return 'DONE'
   }
 
-  const { head, parentMap, links, need, error } = m
+  const { head, parentMap, have, links, need, error } = m
   const body: any = { head: head.join(',') }
   if (parentMap) body.linkMap = Object.keys(parentMap).join(',')
+  if (have) body.bloom = have.bloom.length
   if (links) body.links = Object.keys(links).join(',')
   if (need) body.need = need.join(',')
   if (error) body.error = error.message
@@ -0,0 +1,20 @@
+import { type Validator } from './types.js'
+import { fail } from './validators.js'
+import { VALID } from 'constants.js'
+import { byUserId, type GetAuthor, isEquivocation } from 'graph/equivocation.js'
+
+/**
+ * Returns a validator that rejects any link that is concurrent with another link by the same
+ * author (see `Equivocation`). This isn't one of the built-in validators, since it depends on how
+ * the application identifies authors; add it to your custom validators if you want a graph with
+ * equivocating links to be considered invalid.
+ */
+export const createEquivocationValidator =
+  (getAuthor: GetAuthor<any, any> = byUserId): Validator =>
+  (link, graph) => {
+    if (!isEquivocation(graph, link, getAuthor)) return VALID
+    return fail(`This link's author created another link concurrently with it.`, {
+      link,
+      author: getAuthor(link),
+    })
+  }
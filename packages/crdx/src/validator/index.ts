@@ -1,3 +1,5 @@
+export * from './equivocation.js'
 export * from './types.js'
 export * from './validate.js'
+export * from './validateEncryptedGraph.js'
 export * from './validators.js'
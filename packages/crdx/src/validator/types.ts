@@ -1,4 +1,6 @@
+import { type Base58 } from '@localfirst/crypto'
 import { type Action, type Link, type Graph } from 'graph/index.js'
+import { type Hash } from 'util/index.js'
 
 export type InvalidResult = {
   isValid: false
@@ -28,3 +30,22 @@ export type Validator = <A extends Action, C>(
 ) => ValidationResult
 
 export type ValidatorSet = Record<string, Validator>
+
+export type ValidateOptions = {
+  /**
+   * If provided, only the links that follow this link are validated. This link must not be
+   * concurrent with any other link, as is the case for a trusted checkpoint.
+   */
+  from?: Hash
+}
+
+export type EncryptedValidationOptions = {
+  /** If true (the default), links that aren't signed are considered invalid */
+  requireSignatures?: boolean
+
+  /**
+   * (optional) Returns true if the owner of the given public signature key is allowed to author
+   * links. If not provided, links signed by anyone are accepted.
+   */
+  isValidSigner?: (publicKey: Base58) => boolean
+}
@@ -1,6 +1,7 @@
-﻿import { type ValidationResult, type ValidatorSet } from './types.js'
+﻿import { type ValidateOptions, type ValidationResult, type ValidatorSet } from './types.js'
 import { fail, validators } from './validators.js'
 import { VALID } from 'constants.js'
+import { getHashesAfterSegment } from 'graph/concurrencyIndex.js'
 import { hashEncryptedLink } from 'graph/hashLink.js'
 import { type Action, type Link, type Graph } from 'graph/types.js'
 
@@ -13,7 +14,9 @@ export const validate = <A extends Action, C>(
   graph: Graph<A, C>,
 
   /** Any additional validators (besides the base validators that test the graph's integrity) */
-  customValidators: ValidatorSet = {}
+  customValidators: ValidatorSet = {},
+
+  options: ValidateOptions = {}
 ): ValidationResult => {
   // Confirm that the root hash matches the computed hash of the root link
   {
@@ -69,8 +72,14 @@ export const validate = <A extends Action, C>(
       return VALID
     }
 
+  // If we're starting from a trusted checkpoint, we only need to validate the links that follow it
+  const links =
+    options.from === undefined
+      ? Object.values(graph.links)
+      : getHashesAfterSegment(graph, options.from).map(hash => graph.links[hash])
+
   const compositeValidator = composeValidators(validators, customValidators)
-  for (const link of Object.values(graph.links)) {
+  for (const link of links) {
     const result = compositeValidator(link)
     if (!result.isValid) return result
   }
@@ -0,0 +1,111 @@
+import { signatures, type SignedMessage } from '@localfirst/crypto'
+import { type EncryptedValidationOptions, type ValidationResult } from './types.js'
+import { fail } from './validators.js'
+import { VALID } from 'constants.js'
+import { invertLinkMap } from 'graph/getParentMap.js'
+import { hashEncryptedLink } from 'graph/hashLink.js'
+import { headsAreEqual } from 'graph/headsAreEqual.js'
+import { isRedactedEncryptedLink } from 'graph/redaction.js'
+import { getLinkSignature } from 'graph/signLink.js'
+import { type EncryptedGraph } from 'graph/types.js'
+import { type Hash } from 'util/index.js'
+
+/**
+ * Checks the integrity and authorship of an encrypted graph, without decrypting it. This allows
+ * someone who doesn't have the keys to read the graph (e.g. a relay or a storage server) to make
+ * sure it is correctly formed and hasn't been tampered with.
+ *
+ * We check that each link's hash matches its encrypted body; that the structure given by the
+ * graph's `childMap` is consistent with its root and head; and that each link is signed by its
+ * author, with a signature that covers the link's parents as given by the `childMap`.
+ *
+ * Whether a redacted link was erased legitimately can only be checked after decrypting the graph.
+ */
+export const validateEncryptedGraph = (
+  graph: EncryptedGraph,
+  options: EncryptedValidationOptions = {}
+): ValidationResult => {
+  const { requireSignatures = true, isValidSigner } = options
+  const { root, head, encryptedLinks, childMap } = graph
+  const hashes = Object.keys(encryptedLinks) as Hash[]
+
+  if (!(root in encryptedLinks)) return fail('The root link is missing', { root })
+  for (const hash of head)
+    if (!(hash in encryptedLinks)) return fail('One of the head links is missing', { hash })
+
+  // Each link's hash must match its encrypted body (unless the body has been redacted, in which case
+  // only the signature can be checked)
+  for (const hash of hashes) {
+    if (isRedactedEncryptedLink(encryptedLinks[hash])) continue
+    const computedHash = hashEncryptedLink(encryptedLinks[hash].encryptedBody)
+    if (computedHash !== hash)
+      return fail(`The hash calculated for this link does not match.`, {
+        hash,
+        expected: computedHash,
+      })
+  }
+
+  // The child map can only refer to links that we have
+  for (const [parent, children] of Object.entries(childMap))
+    for (const hash of [parent, ...children])
+      if (!(hash in encryptedLinks))
+        return fail('The child map refers to a link that is missing', { hash })
+
+  // The root is the only link without parents
+  const parentMap = invertLinkMap(childMap)
+  for (const hash of hashes) {
+    const isRoot = hash === root
+    const hasParents = (parentMap[hash] ?? []).length > 0
+    if (isRoot === hasParents) {
+      const message = isRoot
+        ? 'The root link cannot have parents'
+        : 'Non-root links must have parents'
+      return fail(message, { hash })
+    }
+  }
+
+  // Every link must be reachable from the root, and there can't be any cycles
+  const remainingParents = new Map(hashes.map(hash => [hash, new Set(parentMap[hash]).size]))
+  const sorted = [root]
+  for (const hash of sorted) {
+    // (links pushed onto `sorted` inside this loop are visited too)
+    for (const child of new Set(childMap[hash])) {
+      const remaining = remainingParents.get(child)! - 1
+      remainingParents.set(child, remaining)
+      if (remaining === 0) sorted.push(child)
+    }
+  }
+
+  if (sorted.length !== hashes.length) return fail('The graph contains a cycle')
+
+  // The head consists of the links without children
+  const childless = hashes.filter(hash => (childMap[hash] ?? []).length === 0)
+  if (!headsAreEqual([...head], childless))
+    return fail('The head does not match the links without children', { head, childless })
+
+  // Each link must be signed by its author
+  const messages: SignedMessage[] = []
+  const signedHashes: Hash[] = []
+  for (const hash of hashes) {
+    const message = getLinkSignature(hash, parentMap[hash] ?? [], encryptedLinks[hash])
+    if (message === undefined) {
+      if (requireSignatures) return fail('This link is not signed', { hash })
+      continue
+    }
+
+    if (isValidSigner !== undefined && !isValidSigner(message.publicKey))
+      return fail('This link was signed by someone who is not allowed to author links', {
+        hash,
+        signerPublicKey: message.publicKey,
+      })
+
+    messages.push(message)
+    signedHashes.push(hash)
+  }
+
+  const invalid = signatures.verifyBatch(messages).indexOf(false)
+  if (invalid >= 0)
+    return fail(`This link's signature is not valid`, { hash: signedHashes[invalid] })
+
+  return VALID
+}
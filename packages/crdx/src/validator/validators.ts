@@ -1,14 +1,31 @@
-﻿import { ValidationError, type ValidatorSet } from './types.js'
-import { ROOT, VALID } from 'constants.js'
+﻿import { signatures } from '@localfirst/crypto'
+import { ValidationError, type ValidatorSet } from './types.js'
+import { MAX_CLOCK_SKEW, ROOT, VALID } from 'constants.js'
+import { isCheckpoint, verifyCheckpoint } from 'graph/checkpoint.js'
 import { getRoot } from 'graph/graph.js'
 import { hashEncryptedLink } from 'graph/hashLink.js'
+import { compareClocks, getClock } from 'graph/hlc.js'
+import { isPredecessor } from 'graph/predecessors.js'
+import {
+  getRedactions,
+  isRedacted,
+  isRedactedEncryptedLink,
+  isRedaction,
+  redactionMatches,
+} from 'graph/redaction.js'
+import { getLinkSignature } from 'graph/signLink.js'
 import { memoize } from 'util/index.js'
 
 const _validators: ValidatorSet = {
   /** Does this link's hash check out? */
   validateHash(link, graph) {
     const { hash } = link
-    const { encryptedBody } = graph.encryptedLinks[hash]
+    const encryptedLink = graph.encryptedLinks[hash]
+
+    // a redacted link has no body to check (see `validateRedaction`)
+    if (isRedactedEncryptedLink(encryptedLink)) return VALID
+
+    const { encryptedBody } = encryptedLink
     const computedHash = hashEncryptedLink(encryptedBody)
     if (hash === computedHash) return VALID
     return fail(`The hash calculated for this link does not match.`, {
@@ -18,6 +35,28 @@ const _validators: ValidatorSet = {
     })
   },
 
+  /** If this link is signed (or its author says it is), is the signature valid, and was it made by
+   * the link's author? */
+  validateSignature(link, graph) {
+    const message = getLinkSignature(link.hash, link.body.prev, graph.encryptedLinks[link.hash])
+
+    // If the author says they signed it, the signature can't have been stripped
+    if (message === undefined) {
+      if (!isRedacted(link) && link.body.signerPublicKey !== undefined)
+        return fail(`This link's signature is missing.`, { link })
+      return VALID
+    }
+
+    if (!signatures.verify(message)) return fail(`This link's signature is not valid.`, { link })
+
+    // The author records their signature key in the encrypted body, so nobody else can replace
+    // their signature with one of their own. (We can't check this once the body has been erased.)
+    if (!isRedacted(link) && link.body.signerPublicKey !== message.publicKey)
+      return fail(`This link was not signed by its author.`, { link })
+
+    return VALID
+  },
+
   /** Do the previous link(s) referenced by this link exist?  */
   validatePrev(link, graph) {
     for (const hash of link.body.prev)
@@ -49,21 +88,68 @@ const _validators: ValidatorSet = {
     return fail(message, { link, graph })
   },
 
+  /** If this is a checkpoint, is it correctly signed? */
+  validateCheckpoint(link) {
+    if (!isCheckpoint(link) || verifyCheckpoint(link)) return VALID
+    return fail(`The checkpoint's signature is not valid, or its state doesn't match its hash.`, {
+      link,
+    })
+  },
+
+  /**
+   * A redaction can only erase an earlier link (other than the root or another redaction), and must
+   * match its author, timestamp and clock. Conversely, a link can only have been erased by a redaction.
+   */
+  validateRedaction(link, graph) {
+    if (isRedaction(link)) {
+      const { hash } = link.body.payload
+      const target = graph.links[hash]
+      if (
+        target === undefined ||
+        hash === graph.root ||
+        isRedaction(target) ||
+        !isPredecessor(graph, target, link)
+      )
+        return fail(`A redaction can only erase an earlier link.`, { link })
+
+      if (!redactionMatches(link, target))
+        return fail(`The redaction doesn't match the link it erases.`, { link, target })
+    }
+
+    const isErased = isRedacted(link) || isRedactedEncryptedLink(graph.encryptedLinks[link.hash])
+    if (isErased && !getRedactions(graph).has(link.hash))
+      return fail(`This link has been erased, but there is no redaction for it.`, { link })
+
+    return VALID
+  },
+
+  /**
+   * By default, only the author of a link can redact it. Applications that let others redact links
+   * (e.g. admins) can replace this validator with their own.
+   */
+  validateRedactor(link) {
+    if (!isRedaction(link) || link.body.userId === link.body.payload.userId) return VALID
+    return fail(`Only the author of a link can redact it.`, { link })
+  },
+
   /** Sanity check on timestamps: They can't be in the future, relative to the current time on this
-   * device. And they can't be earlier than any links they depend on. */
+   * device (allowing for some clock skew). And they can't be earlier than any links they depend on;
+   * if the link has a clock (see `validateClock`), we allow for the same skew here, since an honest
+   * device might be appending to a link from a device whose clock is ahead of its own. */
   validateTimestamps(link, graph) {
     const { timestamp } = link.body
 
     // timestamp can't be in the future
     const now = Date.now()
-    if (timestamp > now) {
+    if (timestamp > now + MAX_CLOCK_SKEW) {
       return fail(`The link's timestamp is in the future.`, { link, now })
     }
 
     // timestamp can't be earlier than any previous link's timestamp
+    const skew = link.body.hlc === undefined ? 0 : MAX_CLOCK_SKEW
     for (const hash of link.body.prev) {
       const prevLink = graph.links[hash]
-      if (prevLink.body.timestamp > timestamp)
+      if (prevLink.body.timestamp > timestamp + skew)
         return fail(`This link's timestamp can't be earlier than a previous link.`, {
           link,
           prevLink,
@@ -72,6 +158,28 @@ const _validators: ValidatorSet = {
 
     return VALID
   },
+
+  /** If this link has a clock, is it later than its parents' clocks, and not too far in the future? */
+  validateClock(link, graph) {
+    const { hlc, timestamp } = link.body
+    if (hlc === undefined) return VALID
+
+    if (hlc.time < timestamp || hlc.time > Date.now() + MAX_CLOCK_SKEW)
+      return fail(`The link's clock is too far from its timestamp or from the current time.`, {
+        link,
+      })
+
+    for (const hash of link.body.prev) {
+      const prevLink = graph.links[hash]
+      if (compareClocks(hlc, getClock(prevLink)) <= 0)
+        return fail(`This link's clock has to be later than the clocks of previous links.`, {
+          link,
+          prevLink,
+        })
+    }
+
+    return VALID
+  },
 }
 
 export const fail = (msg: string, args?: any) => {
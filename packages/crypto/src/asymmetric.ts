@@ -1,11 +1,28 @@
-import sodium from 'libsodium-wrappers-sumo'
 import { pack, unpack } from 'msgpackr'
+import { KEY_BYTES, NONCE_BYTES } from './constants.js'
+import {
+  X25519_XSALSA20_POLY1305,
+  X25519_XSALSA20_POLY1305_MULTI,
+  X25519_XSALSA20_POLY1305_SEALED,
+  packCipher,
+  unpackCipher,
+} from './envelope.js'
+import { getCryptoProvider } from './provider/index.js'
 import { stretch } from './stretch.js'
-import type { DecryptParams, EncryptParams, Base58, Payload, Cipher } from './types.js'
+import type {
+  Base58,
+  Base58Keypair,
+  DecryptParams,
+  EncryptForManyParams,
+  EncryptParams,
+  Payload,
+  SealParams,
+  UnsealParams,
+} from './types.js'
 import { base58, keypairToBase58, keyToBytes } from './util/index.js'
 
 /**
- * Wrappers of selected libsodium crypto functions. Each of these functions accepts and returns
+ * Wrappers of selected crypto functions. Each of these functions accepts and returns
  * base58 strings rather than byte arrays.
  */
 
@@ -19,9 +36,7 @@ export const asymmetric = {
     /** (optional) If provided, the the key pair will be derived from the secret key. */
     seed?: string
   ) {
-    const keypair = seed
-      ? sodium.crypto_box_seed_keypair(stretch(seed))
-      : sodium.crypto_box_keypair()
+    const keypair = getCryptoProvider().boxKeyPair(seed ? stretch(seed) : undefined)
     return keypairToBase58(keypair)
   },
 
@@ -31,10 +46,10 @@ export const asymmetric = {
    * @see asymmetric.decrypt
    */
   encrypt({ secret, recipientPublicKey, senderSecretKey }: EncryptParams): Base58 {
-    const nonce = sodium.randombytes_buf(sodium.crypto_box_NONCEBYTES)
+    const nonce = getCryptoProvider().randomBytes(NONCE_BYTES)
     const messageBytes = pack(secret)
 
-    let senderPublicKey: string | undefined
+    let senderPublicKey: Base58 | undefined
     if (senderSecretKey === undefined) {
       // Use ephemeral sender keys
       const senderKeys = asymmetric.keyPair()
@@ -46,13 +61,18 @@ export const asymmetric = {
     }
 
     // Encrypt message
-    const message = sodium.crypto_box_easy(
+    const message = getCryptoProvider().box(
       messageBytes,
       nonce,
       keyToBytes(recipientPublicKey),
       keyToBytes(senderSecretKey)
     )
-    const cipherBytes = pack({ nonce, message, senderPublicKey })
+    const cipherBytes = packCipher({
+      algorithm: X25519_XSALSA20_POLY1305,
+      nonce,
+      message,
+      senderPublicKey,
+    })
     return base58.encode(cipherBytes)
   },
 
@@ -63,20 +83,105 @@ export const asymmetric = {
    */
   decrypt({ cipher, recipientSecretKey, senderPublicKey }: DecryptParams): Payload {
     const cipherBytes = keyToBytes(cipher)
-    const unpackedCipher = unpack(cipherBytes) as Cipher & {
-      senderPublicKey?: Base58
-    }
-    const { nonce, message } = unpackedCipher
+    const envelope = unpackCipher(cipherBytes, [X25519_XSALSA20_POLY1305])
+    const { algorithm, nonce, message } = envelope
 
     // If sender public key is not included, assume an ephemeral public key is included in metadata
-    senderPublicKey = senderPublicKey ?? unpackedCipher.senderPublicKey
+    senderPublicKey = senderPublicKey ?? envelope.senderPublicKey
+
+    switch (algorithm) {
+      case X25519_XSALSA20_POLY1305: {
+        const decrypted = getCryptoProvider().boxOpen(
+          message,
+          nonce!,
+          keyToBytes(senderPublicKey!),
+          keyToBytes(recipientSecretKey)
+        )
+        return unpack(decrypted) as Payload
+      }
+    }
+  },
+
+  /**
+   * Anonymously encrypts a string or object so that only the recipient can decrypt it. Unlike
+   * `encrypt`, the recipient learns nothing about who sent it.
+   * @returns The encrypted data, encoded in msgpack format as a base58 string
+   * @see asymmetric.unseal
+   */
+  seal({ secret, recipientPublicKey }: SealParams): Base58 {
+    const message = getCryptoProvider().seal(pack(secret), keyToBytes(recipientPublicKey))
+    const cipherBytes = packCipher({ algorithm: X25519_XSALSA20_POLY1305_SEALED, message })
+    return base58.encode(cipherBytes)
+  },
+
+  /**
+   * Decrypts a message encrypted by `asymmetric.seal`.
+   * @returns The original object or plaintext
+   * @see asymmetric.seal
+   */
+  unseal({ cipher, recipientKeys }: UnsealParams): Payload {
+    const cipherBytes = keyToBytes(cipher)
+    const { algorithm, message } = unpackCipher(cipherBytes, [X25519_XSALSA20_POLY1305_SEALED])
+
+    switch (algorithm) {
+      case X25519_XSALSA20_POLY1305_SEALED: {
+        return unpack(openSealed(message, recipientKeys))
+      }
+    }
+  },
+
+  /**
+   * Encrypts a string or object for several recipients at once. The payload is encrypted once
+   * with a random data key, and only the data key is sealed for each recipient, so the size of the
+   * cipher grows only slightly with each additional recipient.
+   * @returns The encrypted data, encoded in msgpack format as a base58 string
+   * @see asymmetric.decryptForMany
+   */
+  encryptForMany({ secret, recipientPublicKeys }: EncryptForManyParams): Base58 {
+    const provider = getCryptoProvider()
+    const dataKey = provider.randomBytes(KEY_BYTES)
+    const nonce = provider.randomBytes(NONCE_BYTES)
+    const message = provider.secretbox(pack(secret), nonce, dataKey)
 
-    const decrypted = sodium.crypto_box_open_easy(
+    const recipients: Record<Base58, Uint8Array> = {}
+    for (const publicKey of recipientPublicKeys)
+      recipients[publicKey] = provider.seal(dataKey, keyToBytes(publicKey))
+
+    const cipherBytes = packCipher({
+      algorithm: X25519_XSALSA20_POLY1305_MULTI,
+      nonce,
       message,
+      recipients,
+    })
+    return base58.encode(cipherBytes)
+  },
+
+  /**
+   * Decrypts a message encrypted by `asymmetric.encryptForMany`, using the keys of any one of its
+   * recipients.
+   * @returns The original object or plaintext
+   * @see asymmetric.encryptForMany
+   */
+  decryptForMany({ cipher, recipientKeys }: UnsealParams): Payload {
+    const cipherBytes = keyToBytes(cipher)
+    const {
+      algorithm,
       nonce,
-      keyToBytes(senderPublicKey!),
-      keyToBytes(recipientSecretKey)
-    )
-    return unpack(decrypted) as Payload
+      message,
+      recipients = {},
+    } = unpackCipher(cipherBytes, [X25519_XSALSA20_POLY1305_MULTI])
+
+    switch (algorithm) {
+      case X25519_XSALSA20_POLY1305_MULTI: {
+        const sealedKey = recipients[recipientKeys.publicKey]
+        if (sealedKey === undefined) throw new Error('This message was not encrypted for this key')
+        const dataKey = openSealed(sealedKey, recipientKeys)
+        const decrypted = getCryptoProvider().secretboxOpen(message, nonce!, dataKey)
+        return unpack(decrypted)
+      }
+    }
   },
 }
+
+const openSealed = (cipher: Uint8Array, { publicKey, secretKey }: Base58Keypair) =>
+  getCryptoProvider().sealOpen(cipher, keyToBytes(publicKey), keyToBytes(secretKey))
@@ -0,0 +1,18 @@
+// Sizes and limits used by the algorithms we support. These are fixed by the algorithms
+// themselves, so they don't depend on which crypto provider is in use.
+
+export const KEY_BYTES = 32
+export const NONCE_BYTES = 24
+export const SIGNATURE_BYTES = 64
+export const SALT_BYTES = 16
+
+export const STREAM_HEADER_BYTES = 24
+export const STREAM_TAG_MESSAGE = 0
+export const STREAM_TAG_FINAL = 3
+
+export const OPSLIMIT_MIN = 1
+export const MEMLIMIT_MIN = 8192
+export const OPSLIMIT_INTERACTIVE = 2
+export const MEMLIMIT_INTERACTIVE = 67_108_864
+export const OPSLIMIT_SENSITIVE = 4
+export const MEMLIMIT_SENSITIVE = 1_073_741_824
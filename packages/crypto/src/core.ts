@@ -0,0 +1,15 @@
+export * from './asymmetric.js'
+export * from './constants.js'
+export * from './envelope.js'
+export * from './hash.js'
+export * from './keyExchange.js'
+export * from './mnemonic.js'
+export * from './provider/index.js'
+export * from './randomKey.js'
+export * from './secretSharing.js'
+export * from './secretStream.js'
+export * from './signatures.js'
+export * from './symmetric.js'
+export * from './types.js'
+export * from './stretch.js'
+export * from './util/index.js'
@@ -0,0 +1,89 @@
+import { pack, unpack } from 'msgpackr'
+import type {
+  CipherAlgorithm,
+  CipherEnvelope,
+  SignatureAlgorithm,
+  SignatureEnvelope,
+} from './types.js'
+
+/**
+ * Ciphers and signatures are wrapped in a self-describing envelope that records the format
+ * version, the algorithm used, and (for password-based ciphers) the key derivation parameters. This
+ * lets us change algorithms or parameters later without breaking anything that has already been
+ * stored.
+ *
+ * Ciphers created before versioning was introduced have no header; these are read as version 0.
+ */
+
+// avoiding enums
+export const XSALSA20_POLY1305 = 'XSALSA20_POLY1305'
+export const X25519_XSALSA20_POLY1305 = 'X25519_XSALSA20_POLY1305'
+export const X25519_XSALSA20_POLY1305_SEALED = 'X25519_XSALSA20_POLY1305_SEALED'
+export const X25519_XSALSA20_POLY1305_MULTI = 'X25519_XSALSA20_POLY1305_MULTI'
+export const ED25519 = 'ED25519'
+
+export const Algorithm = {
+  XSALSA20_POLY1305,
+  X25519_XSALSA20_POLY1305,
+  X25519_XSALSA20_POLY1305_SEALED,
+  X25519_XSALSA20_POLY1305_MULTI,
+  ED25519,
+} as const
+
+export const BLAKE2B = 'BLAKE2B'
+export const ARGON2ID13 = 'ARGON2ID13'
+
+export const KdfAlgorithm = {
+  BLAKE2B,
+  ARGON2ID13,
+} as const
+
+/** The envelope format version written by this version of the library */
+export const ENVELOPE_VERSION = 1
+
+/** Serializes a cipher envelope, stamping it with the current format version */
+export const packCipher = <T extends CipherAlgorithm>(
+  envelope: Omit<CipherEnvelope<T>, 'version'>
+): Uint8Array => pack({ version: ENVELOPE_VERSION, ...envelope })
+
+/**
+ * Deserializes a cipher envelope. Headerless (version 0) ciphers are assumed to use the given
+ * legacy algorithm. Throws if the version or algorithm isn't one we know how to handle.
+ */
+export const unpackCipher = <T extends CipherAlgorithm>(
+  /** The serialized envelope */
+  bytes: Uint8Array,
+  /** The algorithms the caller is able to decrypt; the first one is assumed for version 0 */
+  supportedAlgorithms: T[]
+): CipherEnvelope<T> => {
+  const envelope = unpack(bytes) as Partial<CipherEnvelope<T>> & Omit<CipherEnvelope, 'version'>
+  const { version = 0, algorithm = supportedAlgorithms[0] } = envelope
+  assertSupported(version, algorithm, supportedAlgorithms)
+  return { ...envelope, version, algorithm }
+}
+
+/** Serializes a signature envelope, stamping it with the current format version */
+export const packSignature = (envelope: Omit<SignatureEnvelope, 'version'>): Uint8Array =>
+  pack({ version: ENVELOPE_VERSION, ...envelope })
+
+/**
+ * Deserializes a signature envelope. Bare signatures of the given legacy length are read as
+ * version 0 ED25519 signatures.
+ */
+export const unpackSignature = (
+  /** The serialized envelope */
+  bytes: Uint8Array,
+  /** The length of a bare signature */
+  legacyLength: number
+): SignatureEnvelope => {
+  if (bytes.length === legacyLength) return { version: 0, algorithm: ED25519, signature: bytes }
+  const envelope = unpack(bytes) as SignatureEnvelope
+  assertSupported(envelope.version, envelope.algorithm, [ED25519] as SignatureAlgorithm[])
+  return envelope
+}
+
+const assertSupported = (version: number, algorithm: string, supported: string[]) => {
+  if (typeof version !== 'number' || version > ENVELOPE_VERSION)
+    throw new Error(`Unsupported envelope version: ${String(version)}`)
+  if (!supported.includes(algorithm)) throw new Error(`Unsupported algorithm: ${algorithm}`)
+}
@@ -1,5 +1,5 @@
-import sodium from 'libsodium-wrappers-sumo'
 import { pack } from 'msgpackr'
+import { getCryptoProvider } from './provider/index.js'
 import { type Payload } from './types.js'
 import { base58, keyToBytes } from './util/index.js'
 
@@ -12,6 +12,6 @@ export const hash = (
   payload: Payload
 ) => {
   const bytes = pack(payload)
-  const hash = sodium.crypto_generichash(32, bytes, keyToBytes(seed, 'utf8'))
+  const hash = getCryptoProvider().hash(32, bytes, keyToBytes(seed, 'utf8'))
   return base58.encode(hash)
 }
@@ -1,12 +1,7 @@
-import sodium from 'libsodium-wrappers-sumo'
+import { ready } from './provider/index.js'
 
-await sodium.ready
+// This entry point waits for the crypto provider to be ready, so that everything can be used
+// synchronously once it has been imported. Use the `core` entry point to avoid the top-level await.
+await ready()
 
-export * from './asymmetric.js'
-export * from './hash.js'
-export * from './randomKey.js'
-export * from './signatures.js'
-export * from './symmetric.js'
-export * from './types.js'
-export * from './stretch.js'
-export * from './util/index.js'
+export * from './core.js'
@@ -0,0 +1,61 @@
+import { type ByteSessionKeys, type SessionKeysParams, type SessionKeys } from './types.js'
+import { getCryptoProvider } from './provider/index.js'
+import { base58, keypairToBase58, keyToBytes } from './util/index.js'
+
+/**
+ * Key exchange (X25519, using libsodium's `crypto_kx`). Each party generates an ephemeral keypair
+ * and sends the public half to the other; each can then derive a pair of session keys: one for
+ * receiving and one for transmitting. One party's transmit key is the other's receive key.
+ *
+ * As long as the ephemeral secret keys are discarded after use, the session keys can't be
+ * recovered later, even by someone who learns the parties' long-term keys.
+ */
+
+/**
+ * @returns A key pair to use for key exchange, encoded as base58 strings. These should be
+ * generated fresh for each session and never stored.
+ */
+const keyPair = () => keypairToBase58(getCryptoProvider().kxKeyPair())
+
+/**
+ * Derives the client's session keys, given the client's keypair and the server's public key.
+ * @see keyExchange.serverSessionKeys
+ */
+const clientSessionKeys = ({ ourKeys, theirPublicKey }: SessionKeysParams): SessionKeys =>
+  encodeSessionKeys(
+    getCryptoProvider().kxClientSessionKeys(
+      keyToBytes(ourKeys.publicKey),
+      keyToBytes(ourKeys.secretKey),
+      keyToBytes(theirPublicKey)
+    )
+  )
+
+/**
+ * Derives the server's session keys, given the server's keypair and the client's public key.
+ * @see keyExchange.clientSessionKeys
+ */
+const serverSessionKeys = ({ ourKeys, theirPublicKey }: SessionKeysParams): SessionKeys =>
+  encodeSessionKeys(
+    getCryptoProvider().kxServerSessionKeys(
+      keyToBytes(ourKeys.publicKey),
+      keyToBytes(ourKeys.secretKey),
+      keyToBytes(theirPublicKey)
+    )
+  )
+
+/**
+ * Derives session keys between two peers that don't have a natural client/server relationship.
+ * Each side plays the role determined by comparing the two public keys, so both sides arrive at
+ * matching keys without any further coordination.
+ */
+const sessionKeys = (params: SessionKeysParams): SessionKeys =>
+  params.ourKeys.publicKey < params.theirPublicKey
+    ? clientSessionKeys(params)
+    : serverSessionKeys(params)
+
+export const keyExchange = { keyPair, clientSessionKeys, serverSessionKeys, sessionKeys }
+
+const encodeSessionKeys = ({ receiveKey, transmitKey }: ByteSessionKeys): SessionKeys => ({
+  receiveKey: base58.encode(receiveKey),
+  transmitKey: base58.encode(transmitKey),
+})
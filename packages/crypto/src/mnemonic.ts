@@ -0,0 +1,116 @@
+import { getCryptoProvider } from './provider/index.js'
+import { type Base58 } from './types.js'
+import { base58, keyToBytes } from './util/index.js'
+import { wordlist } from './util/wordlist.js'
+
+/**
+ * Mnemonic encoding of secret seeds, so that they can be written down on paper and typed back in
+ * reliably. A 16-byte seed becomes 12 words, and a 32-byte seed becomes 24 words.
+ *
+ * This uses the same word list and layout as BIP 39: the seed is followed by a few checksum bits,
+ * and the result is split into 11-bit groups, each of which indexes a word. The checksum is
+ * computed with BLAKE2b rather than SHA-256, so these mnemonics aren't interchangeable with BIP 39
+ * wallets.
+ *
+ * ```js
+ * const words = mnemonic.generate()
+ * // 'cactus alpha ... zoo'
+ * const seed = mnemonic.toSeed(words)
+ * ```
+ */
+
+/** Encodes a 16- or 32-byte seed as a space-separated list of 12 or 24 words. */
+const encode = (seed: Uint8Array): string => {
+  assertSeedLength(seed.length)
+  const bits = toBits(seed) + checksumBits(seed)
+  const words: string[] = []
+  for (let i = 0; i < bits.length; i += BITS_PER_WORD)
+    words.push(wordlist[Number.parseInt(bits.slice(i, i + BITS_PER_WORD), 2)])
+  return words.join(' ')
+}
+
+/**
+ * Decodes a mnemonic created by `mnemonic.encode`, returning the original seed. Case and extra
+ * whitespace are ignored. Throws if any word isn't in the word list, or if the checksum doesn't
+ * match (for example because a word was mistyped or the words are out of order).
+ */
+const decode = (words: string): Uint8Array => {
+  const list = normalize(words)
+  const seedLength = SEED_LENGTHS.find(length => wordCount(length) === list.length)
+  if (seedLength === undefined)
+    throw new Error(`A mnemonic must have ${SEED_LENGTHS.map(wordCount).join(' or ')} words`)
+
+  const bits = list
+    .map(word => {
+      const index = wordlist.indexOf(word)
+      if (index === -1) throw new Error(`Unknown word in mnemonic: ${word}`)
+      return index.toString(2).padStart(BITS_PER_WORD, '0')
+    })
+    .join('')
+
+  const seedBits = seedLength * 8
+  const seed = fromBits(bits.slice(0, seedBits))
+  if (bits.slice(seedBits) !== checksumBits(seed)) throw new Error('Invalid mnemonic checksum')
+  return seed
+}
+
+/** Returns true if the given words are a mnemonic with a valid checksum. */
+const isValid = (words: string) => {
+  try {
+    decode(words)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Returns a mnemonic for a new random seed of the given length (32 bytes by default). */
+const generate = (length = 32) => {
+  assertSeedLength(length)
+  return encode(getCryptoProvider().randomBytes(length))
+}
+
+/**
+ * Decodes a mnemonic and returns the seed as a base58 string, as expected by `createKeyset`
+ * and `createUser`.
+ */
+const toSeed = (words: string): Base58 => base58.encode(decode(words))
+
+/** Encodes a base58 seed (such as one returned by `randomKey`) as a mnemonic. */
+const fromSeed = (seed: Base58) => encode(keyToBytes(seed))
+
+export const mnemonic = { encode, decode, isValid, generate, toSeed, fromSeed }
+
+// HELPERS
+
+const BITS_PER_WORD = 11
+const SEED_LENGTHS = [16, 32]
+
+/** One checksum bit for every 4 bytes of seed, so that the total divides evenly into words */
+const checksumLength = (seedLength: number) => seedLength / 4
+
+const wordCount = (seedLength: number) =>
+  (seedLength * 8 + checksumLength(seedLength)) / BITS_PER_WORD
+
+const assertSeedLength = (length: number) => {
+  if (!SEED_LENGTHS.includes(length))
+    throw new Error(`Seed must be ${SEED_LENGTHS.join(' or ')} bytes`)
+}
+
+const checksumBits = (seed: Uint8Array) => {
+  const checksum = getCryptoProvider().hash(32, seed, CHECKSUM_KEY)
+  return toBits(checksum).slice(0, checksumLength(seed.length))
+}
+
+const CHECKSUM_KEY = keyToBytes('MNEMONIC_CHECKSUM', 'utf8')
+
+const toBits = (bytes: Uint8Array) =>
+  Array.from(bytes, byte => byte.toString(2).padStart(8, '0')).join('')
+
+const fromBits = (bits: string) => {
+  const bytes = new Uint8Array(bits.length / 8)
+  for (let i = 0; i < bytes.length; i++) bytes[i] = Number.parseInt(bits.slice(i * 8, i * 8 + 8), 2)
+  return bytes
+}
+
+const normalize = (words: string) => words.trim().toLowerCase().split(/\s+/)
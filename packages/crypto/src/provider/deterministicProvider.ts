@@ -0,0 +1,42 @@
+import type { CryptoProvider } from '../types.js'
+import { sodiumProvider } from './sodiumProvider.js'
+
+/**
+ * Returns a crypto provider whose "random" output is derived from the given seed, so that keys,
+ * nonces and ciphers are reproducible from one run to the next. Everything else is delegated to
+ * the base provider. (Sealed boxes and secret streams generate their own ephemeral keys and
+ * headers internally, so they are not affected.)
+ *
+ * ⚠️ This is only intended for testing; never use it with real data.
+ */
+export const deterministicProvider = (
+  seed: string,
+  base: CryptoProvider = sodiumProvider
+): CryptoProvider => {
+  let key: Uint8Array | undefined
+  let counter = 0
+
+  const randomBytes = (length: number) => {
+    // computed lazily, since the base provider might not be ready yet
+    key ??= base.hash(32, new TextEncoder().encode(seed))
+
+    // each 64-byte block is the keyed hash of an incrementing counter
+    const result = new Uint8Array(length)
+    for (let offset = 0; offset < length; offset += 64) {
+      const counterBytes = new Uint8Array(8)
+      new DataView(counterBytes.buffer).setUint32(0, counter++)
+      const block = base.hash(64, counterBytes, key)
+      result.set(block.slice(0, length - offset), offset)
+    }
+
+    return result
+  }
+
+  return {
+    ...base,
+    randomBytes,
+    boxKeyPair: (seed = randomBytes(32)) => base.boxKeyPair(seed),
+    signKeyPair: (seed = randomBytes(32)) => base.signKeyPair(seed),
+    kxKeyPair: (seed = randomBytes(32)) => base.kxKeyPair(seed),
+  }
+}
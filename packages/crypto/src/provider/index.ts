@@ -0,0 +1,28 @@
+import type { CryptoProvider } from '../types.js'
+import { sodiumProvider } from './sodiumProvider.js'
+
+export * from './deterministicProvider.js'
+export * from './sodiumProvider.js'
+
+let current: CryptoProvider = sodiumProvider
+
+/**
+ * Waits for the current crypto provider to initialize. The main entry point of this library does
+ * this for you; if you use the `core` entry point to avoid a top-level await, you need to call
+ * this yourself before using any other function.
+ */
+export const ready = async () => {
+  await current.ready?.()
+}
+
+/** Replaces the crypto provider used by every function in this library. */
+export const setCryptoProvider = (provider: CryptoProvider) => {
+  current = provider
+}
+
+/** Returns the crypto provider currently in use. */
+export const getCryptoProvider = () => {
+  if (current.isReady?.() === false)
+    throw new Error('The crypto provider is not ready. Call `await ready()` before using it.')
+  return current
+}
@@ -0,0 +1,79 @@
+import sodium, { type StateAddress } from 'libsodium-wrappers-sumo'
+import type { CryptoProvider } from '../types.js'
+
+const toByteKeypair = ({ publicKey, privateKey }: sodium.KeyPair) => ({
+  publicKey,
+  secretKey: privateKey,
+})
+
+let isReady = false
+
+/** The default crypto provider, backed by libsodium. */
+export const sodiumProvider: CryptoProvider = {
+  async ready() {
+    await sodium.ready
+    isReady = true
+  },
+
+  isReady: () => isReady,
+
+  randomBytes: length => sodium.randombytes_buf(length),
+
+  hash: (length, message, key) => sodium.crypto_generichash(length, message, key),
+
+  pwhash: (length, password, salt, opsLimit, memLimit) =>
+    sodium.crypto_pwhash(
+      length,
+      password,
+      salt,
+      opsLimit,
+      memLimit,
+      sodium.crypto_pwhash_ALG_ARGON2ID13
+    ),
+
+  boxKeyPair: seed =>
+    toByteKeypair(seed ? sodium.crypto_box_seed_keypair(seed) : sodium.crypto_box_keypair()),
+  box: (message, nonce, publicKey, secretKey) =>
+    sodium.crypto_box_easy(message, nonce, publicKey, secretKey),
+  boxOpen: (cipher, nonce, publicKey, secretKey) =>
+    sodium.crypto_box_open_easy(cipher, nonce, publicKey, secretKey),
+  seal: (message, publicKey) => sodium.crypto_box_seal(message, publicKey),
+  sealOpen: (cipher, publicKey, secretKey) =>
+    sodium.crypto_box_seal_open(cipher, publicKey, secretKey),
+
+  kxKeyPair: seed =>
+    toByteKeypair(seed ? sodium.crypto_kx_seed_keypair(seed) : sodium.crypto_kx_keypair()),
+  kxClientSessionKeys(clientPublicKey, clientSecretKey, serverPublicKey) {
+    const { sharedRx, sharedTx } = sodium.crypto_kx_client_session_keys(
+      clientPublicKey,
+      clientSecretKey,
+      serverPublicKey
+    )
+    return { receiveKey: sharedRx, transmitKey: sharedTx }
+  },
+  kxServerSessionKeys(serverPublicKey, serverSecretKey, clientPublicKey) {
+    const { sharedRx, sharedTx } = sodium.crypto_kx_server_session_keys(
+      serverPublicKey,
+      serverSecretKey,
+      clientPublicKey
+    )
+    return { receiveKey: sharedRx, transmitKey: sharedTx }
+  },
+
+  secretbox: (message, nonce, key) => sodium.crypto_secretbox_easy(message, nonce, key),
+  secretboxOpen: (cipher, nonce, key) => sodium.crypto_secretbox_open_easy(cipher, nonce, key),
+
+  signKeyPair: seed =>
+    toByteKeypair(seed ? sodium.crypto_sign_seed_keypair(seed) : sodium.crypto_sign_keypair()),
+  sign: (message, secretKey) => sodium.crypto_sign_detached(message, secretKey),
+  verify: (signature, message, publicKey) =>
+    sodium.crypto_sign_verify_detached(signature, message, publicKey),
+
+  streamInitPush: key => sodium.crypto_secretstream_xchacha20poly1305_init_push(key),
+  streamPush: (state, message, tag) =>
+    sodium.crypto_secretstream_xchacha20poly1305_push(state as StateAddress, message, null, tag),
+  streamInitPull: (header, key) =>
+    sodium.crypto_secretstream_xchacha20poly1305_init_pull(header, key),
+  streamPull: (state, cipher) =>
+    sodium.crypto_secretstream_xchacha20poly1305_pull(state as StateAddress, cipher, null),
+}
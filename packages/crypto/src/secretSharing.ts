@@ -0,0 +1,93 @@
+/* eslint-disable no-bitwise */
+// Arithmetic in GF(256) is defined in terms of bitwise operations
+
+import { getCryptoProvider } from './provider/index.js'
+import type { SplitOptions } from './types.js'
+
+/**
+ * Shamir's secret sharing over GF(256). A secret is split into `shares` pieces, any `threshold` of
+ * which can be combined to recover it; fewer than `threshold` pieces reveal nothing about it.
+ *
+ * Each byte of the secret is the constant term of a random polynomial of degree `threshold - 1`,
+ * and each share holds the values of those polynomials at a distinct non-zero point. Shares are
+ * one byte longer than the secret: the first byte is the point, and the rest are the values.
+ *
+ * ```js
+ * const shares = secretSharing.split(secret, { shares: 5, threshold: 3 })
+ * const recovered = secretSharing.combine([shares[0], shares[2], shares[4]]) // same as `secret`
+ * ```
+ */
+
+/** Splits a secret into the given number of shares, any `threshold` of which can recover it. */
+const split = (secret: Uint8Array, { shares, threshold }: SplitOptions): Uint8Array[] => {
+  if (secret.length === 0) throw new Error('Secret must not be empty')
+  if (!Number.isInteger(shares) || shares < 1 || shares > MAX_SHARES)
+    throw new Error(`Number of shares must be between 1 and ${MAX_SHARES}`)
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > shares)
+    throw new Error('Threshold must be between 1 and the number of shares')
+
+  // One random polynomial per byte of the secret; the secret byte is the constant term
+  const coefficients = Array.from(secret, byte => [
+    byte,
+    ...getCryptoProvider().randomBytes(threshold - 1),
+  ])
+
+  return Array.from({ length: shares }, (_, i) => {
+    const x = i + 1
+    return Uint8Array.from([x, ...coefficients.map(polynomial => evaluate(polynomial, x))])
+  })
+}
+
+/**
+ * Recovers a secret from shares created by `secretSharing.split`. At least `threshold` distinct
+ * shares must be provided; with fewer, the result will be garbage rather than an error.
+ */
+const combine = (shares: Uint8Array[]): Uint8Array => {
+  if (shares.length === 0) throw new Error('No shares provided')
+  const { length } = shares[0]
+  if (length < 2 || shares.some(share => share.length !== length))
+    throw new Error('Shares must all be the same length')
+
+  const xs = shares.map(share => share[0])
+  if (xs.includes(0) || new Set(xs).size !== xs.length) throw new Error('Shares must be distinct')
+
+  // Lagrange interpolation at x = 0, one byte at a time
+  const secret = new Uint8Array(length - 1)
+  for (let byte = 0; byte < secret.length; byte++) {
+    let value = 0
+    for (const [i, xi] of xs.entries()) {
+      let basis = 1
+      for (const [j, xj] of xs.entries()) if (i !== j) basis = multiply(basis, divide(xj, xj ^ xi))
+      value ^= multiply(shares[i][byte + 1], basis)
+    }
+
+    secret[byte] = value
+  }
+
+  return secret
+}
+
+export const secretSharing = { split, combine }
+
+// HELPERS
+
+const MAX_SHARES = 255
+
+/** Evaluates a polynomial (coefficients in ascending order) at x, using Horner's method */
+const evaluate = (polynomial: number[], x: number) =>
+  polynomial.reduceRight((result, coefficient) => multiply(result, x) ^ coefficient, 0)
+
+// Log and antilog tables for GF(256) with the AES polynomial x⁸ + x⁴ + x³ + x + 1 and generator 3
+const EXP = new Uint8Array(510)
+const LOG = new Uint8Array(256)
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = x
+  EXP[i + 255] = x
+  LOG[x] = i
+  x ^= x << 1 // multiply by 3
+  if (x > 0xff) x ^= 0x1_1b
+}
+
+const multiply = (a: number, b: number) => (a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]])
+
+const divide = (a: number, b: number) => (a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]])
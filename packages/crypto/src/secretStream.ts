@@ -0,0 +1,149 @@
+import { STREAM_HEADER_BYTES, STREAM_TAG_FINAL, STREAM_TAG_MESSAGE } from './constants.js'
+import { getCryptoProvider } from './provider/index.js'
+import { stretch } from './stretch.js'
+import type { StreamDecryptor, StreamEncryptor } from './types.js'
+
+/**
+ * Streaming symmetric encryption for payloads that are too large to hold in memory at once. Built
+ * on XChaCha20-Poly1305 secret streams (libsodium's `crypto_secretstream`), which authenticates each chunk, keeps
+ * chunks in order, and marks the last chunk so that a truncated stream can be detected.
+ */
+
+/** Number of bytes used to prefix each framed chunk with its length */
+const LENGTH_BYTES = 4
+
+/**
+ * Creates a push-style encryptor. The `header` must be sent or stored ahead of the encrypted
+ * chunks; the decryptor needs it to initialize.
+ */
+const encryptor = (
+  /** The password used to encrypt */
+  password: string
+): StreamEncryptor => {
+  const key = stretch(password)
+  const { state, header } = getCryptoProvider().streamInitPush(key)
+  let isDone = false
+
+  return {
+    header,
+    push(chunk, isFinal = false) {
+      if (isDone) throw new Error('Cannot push to a stream that has been finalized')
+      isDone = isFinal
+      const tag = isFinal ? STREAM_TAG_FINAL : STREAM_TAG_MESSAGE
+      return getCryptoProvider().streamPush(state, chunk, tag)
+    },
+  }
+}
+
+/**
+ * Creates a pull-style decryptor for a stream produced by `secretStream.encryptor`. Each call to
+ * `pull` must receive exactly one chunk returned by the encryptor's `push`, in the same order.
+ */
+const decryptor = (
+  /** The header generated by the encryptor */
+  header: Uint8Array,
+  /** The password used to encrypt */
+  password: string
+): StreamDecryptor => {
+  if (header.length !== STREAM_HEADER_BYTES) throw new Error('Invalid stream header')
+  const key = stretch(password)
+  const state = getCryptoProvider().streamInitPull(header, key)
+  let isDone = false
+
+  return {
+    pull(chunk) {
+      if (isDone) throw new Error('Cannot pull from a stream that has been finalized')
+      const result = getCryptoProvider().streamPull(state, chunk)
+      // the provider returns `false` rather than throwing when a chunk can't be authenticated
+      if (!result) throw new Error('Stream chunk could not be decrypted')
+      isDone = result.tag === STREAM_TAG_FINAL
+      return { message: result.message, isFinal: isDone }
+    },
+
+    get isDone() {
+      return isDone
+    },
+  }
+}
+
+/**
+ * Encrypts a sequence of byte arrays. Yields the stream header, followed by one length-prefixed
+ * frame per input chunk, so the output can be written to disk or a socket and re-chunked freely.
+ * @see secretStream.decrypt
+ */
+async function* encrypt(
+  /** The plaintext chunks to encrypt */
+  source: Iterable<Uint8Array> | AsyncIterable<Uint8Array>,
+  /** The password used to encrypt */
+  password: string
+): AsyncGenerator<Uint8Array> {
+  const { header, push } = encryptor(password)
+  yield header
+
+  // We need to know which chunk is the last one so we can tag it, so we stay one chunk behind
+  let previous: Uint8Array | undefined
+  for await (const chunk of source) {
+    if (previous !== undefined) yield frame(push(previous))
+    previous = chunk
+  }
+
+  // An empty source still produces a (empty) final chunk, so that truncation can be detected
+  yield frame(push(previous ?? new Uint8Array(), true))
+}
+
+/**
+ * Decrypts the output of `secretStream.encrypt`. The input can be chunked arbitrarily. Throws if
+ * any chunk has been tampered with, or if the stream ends before its final chunk.
+ * @see secretStream.encrypt
+ */
+async function* decrypt(
+  /** The encrypted bytes */
+  source: Iterable<Uint8Array> | AsyncIterable<Uint8Array>,
+  /** The password used to encrypt */
+  password: string
+): AsyncGenerator<Uint8Array> {
+  let buffer = new Uint8Array()
+  let stream: StreamDecryptor | undefined
+
+  for await (const chunk of source) {
+    buffer = concat(buffer, chunk)
+
+    if (stream === undefined) {
+      if (buffer.length < STREAM_HEADER_BYTES) continue
+      stream = decryptor(buffer.slice(0, STREAM_HEADER_BYTES), password)
+      buffer = buffer.slice(STREAM_HEADER_BYTES)
+    }
+
+    // Decrypt as many complete frames as we have
+    while (buffer.length >= LENGTH_BYTES) {
+      const length = new DataView(buffer.buffer, buffer.byteOffset).getUint32(0)
+      if (buffer.length < LENGTH_BYTES + length) break
+      if (stream.isDone) throw new Error('Unexpected data after the end of the stream')
+
+      const { message } = stream.pull(buffer.slice(LENGTH_BYTES, LENGTH_BYTES + length))
+      buffer = buffer.slice(LENGTH_BYTES + length)
+      yield message
+    }
+  }
+
+  if (stream?.isDone !== true || buffer.length > 0) throw new Error('Stream was truncated')
+}
+
+export const secretStream = { encryptor, decryptor, encrypt, decrypt }
+
+// HELPERS
+
+const frame = (chunk: Uint8Array) => {
+  const result = new Uint8Array(LENGTH_BYTES + chunk.length)
+  new DataView(result.buffer).setUint32(0, chunk.length)
+  result.set(chunk, LENGTH_BYTES)
+  return result
+}
+
+const concat = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length === 0) return b
+  const result = new Uint8Array(a.length + b.length)
+  result.set(a)
+  result.set(b, a.length)
+  return result
+}
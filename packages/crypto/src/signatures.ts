@@ -1,5 +1,7 @@
-import sodium from 'libsodium-wrappers-sumo'
 import { pack } from 'msgpackr'
+import { SIGNATURE_BYTES } from './constants.js'
+import { ED25519, packSignature, unpackSignature } from './envelope.js'
+import { getCryptoProvider } from './provider/index.js'
 import { stretch } from './stretch.js'
 import { type Base58, type Payload, type SignedMessage } from './types.js'
 import { base58, keypairToBase58, keyToBytes } from './util/index.js'
@@ -10,34 +12,68 @@ import { base58, keypairToBase58, keyToBytes } from './util/index.js'
  * encryption, and vice versa.)
  */
 const keyPair = (seed?: string) => {
-  const keypair = seed
-    ? sodium.crypto_sign_seed_keypair(stretch(seed))
-    : sodium.crypto_sign_keypair()
+  const keypair = getCryptoProvider().signKeyPair(seed ? stretch(seed) : undefined)
   return keypairToBase58(keypair)
 }
 
 /**
- * @returns A signature, encoded as a base58 string
+ * @returns A signature envelope, encoded as a base58 string
  */
 const sign = (
   payload: Payload,
   /** The signer's secret key, encoded as a base58 string */
-  secretKey: Base58
+  secretKey: Base58,
+  /** (optional) What the signature is for, e.g. `IDENTITY_PROOF`. The same context needs to be
+   * given to `verify`, so that a signature made for one purpose can't be passed off as another. */
+  context?: string
 ) => {
-  const payloadBytes = pack(payload)
   const secretKeyBytes = keyToBytes(secretKey)
-  const signatureBytes = sodium.crypto_sign_detached(payloadBytes, secretKeyBytes)
-  return base58.encode(signatureBytes)
+  const signature = getCryptoProvider().sign(messageBytes(payload, context), secretKeyBytes)
+  return base58.encode(packSignature({ algorithm: ED25519, signature }))
 }
 
 /**
  * @returns true if verification succeeds, false otherwise
  */
-const verify = ({ payload, signature, publicKey }: SignedMessage): boolean => {
-  const payloadBytes = pack(payload)
-  const signatureBytes = keyToBytes(signature)
+const verify = ({ payload, signature, publicKey, context }: SignedMessage): boolean => {
+  const envelope = unpackSignature(keyToBytes(signature), SIGNATURE_BYTES)
   const publicKeyBytes = keyToBytes(publicKey)
-  return sodium.crypto_sign_verify_detached(signatureBytes, payloadBytes, publicKeyBytes)
+
+  switch (envelope.algorithm) {
+    case ED25519: {
+      return getCryptoProvider().verify(
+        envelope.signature,
+        messageBytes(payload, context),
+        publicKeyBytes
+      )
+    }
+  }
+}
+
+/**
+ * Convenience helper that verifies each of a number of signed messages, for example when validating
+ * a graph. (This is no faster than calling `verify` for each message: the signatures are still
+ * checked one at a time.)
+ * @returns An array with the result of verifying each message, in the same order
+ */
+const verifyBatch = (messages: SignedMessage[]): boolean[] => messages.map(verify)
+
+export const signatures = { keyPair, sign, verify, verifyBatch }
+
+/**
+ * Without a context, we sign the msgpack-encoded payload. With a context, we sign the encoded
+ * context and payload preceded by `0xc1`, a byte that msgpack never uses: so these can never collide
+ * with each other, nor with a signature made without a context.
+ */
+const messageBytes = (payload: Payload, context?: string) => {
+  const payloadBytes = pack(payload)
+  if (context === undefined) return payloadBytes
+  const contextBytes = pack(context)
+  const bytes = new Uint8Array(1 + contextBytes.length + payloadBytes.length)
+  bytes[0] = CONTEXT_MARKER
+  bytes.set(contextBytes, 1)
+  bytes.set(payloadBytes, 1 + contextBytes.length)
+  return bytes
 }
 
-export const signatures = { keyPair, sign, verify }
+const CONTEXT_MARKER = 0xc1
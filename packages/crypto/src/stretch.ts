@@ -1,33 +1,110 @@
 import process from 'node:process'
 import memize from 'memize'
-import sodium from 'libsodium-wrappers-sumo'
-import { type Base58 } from './types.js'
+import {
+  MEMLIMIT_INTERACTIVE,
+  MEMLIMIT_MIN,
+  MEMLIMIT_SENSITIVE,
+  OPSLIMIT_INTERACTIVE,
+  OPSLIMIT_MIN,
+  OPSLIMIT_SENSITIVE,
+  SALT_BYTES,
+} from './constants.js'
+import { ARGON2ID13, BLAKE2B } from './envelope.js'
+import { getCryptoProvider } from './provider/index.js'
+import type { Base58, KdfParams, StretchOptions, StretchResult } from './types.js'
 import { base58, keyToBytes } from './util/index.js'
 
 /** Derives a key from a low-entropy input, such as a password. Current version of libsodium
  * uses the Argon2id algorithm, although that may change in later versions. */
 
-export const stretch = memize((password: string) => {
-  const passwordBytes = keyToBytes(password, base58.detect(password) ? 'base58' : 'utf8')
-  const salt = base58.decode('H5B4DLSXw5xwNYFdz1Wr6e' as Base58)
-  if (passwordBytes.length >= 16) {
-    return sodium.crypto_generichash(32, passwordBytes, salt)
-  } // It's long enough -- just hash to expand it to 32 bytes
+export const stretch = (password: string) => deriveKey(password, getKdfParams(password))
+
+/**
+ * Derives a key from a password using Argon2id with a per-secret salt and explicit limits. Unlike
+ * `stretch`, the result depends on the salt, so the returned parameters need to be stored alongside
+ * whatever the key is used to encrypt.
+ */
+export const stretchWithSalt = (password: string, options: StretchOptions = {}): StretchResult => {
+  const {
+    salt = getCryptoProvider().randomBytes(SALT_BYTES),
+    opsLimit = OPSLIMIT_INTERACTIVE,
+    memLimit = MEMLIMIT_INTERACTIVE,
+  } = options
+  if (salt.length !== SALT_BYTES) throw new Error(`Salt must be ${SALT_BYTES} bytes`)
+
+  const kdf: KdfParams = { algorithm: ARGON2ID13, opsLimit, memLimit, salt }
+  return { key: deriveKey(password, kdf), kdf }
+}
+
+/** Returns the key derivation parameters that `stretch` uses for the given password. */
+export const getKdfParams = (password: string): KdfParams => {
+  // It's long enough -- just hash to expand it to 32 bytes
+  if (passwordToBytes(password).length >= 16) return { algorithm: BLAKE2B }
 
   // during testing we use stretch parameters that are faster, but consequently less secure
   const isProd = process.env.NODE_ENV === 'production'
-  const opsLimit = isProd
-    ? sodium.crypto_pwhash_OPSLIMIT_INTERACTIVE
-    : sodium.crypto_pwhash_OPSLIMIT_MIN
-  const memLimit = isProd
-    ? sodium.crypto_pwhash_MEMLIMIT_INTERACTIVE
-    : sodium.crypto_pwhash_MEMLIMIT_MIN
-  return sodium.crypto_pwhash(
-    32,
-    passwordBytes,
-    salt,
-    opsLimit,
-    memLimit,
-    sodium.crypto_pwhash_ALG_DEFAULT
+  const opsLimit = isProd ? OPSLIMIT_INTERACTIVE : OPSLIMIT_MIN
+  const memLimit = isProd ? MEMLIMIT_INTERACTIVE : MEMLIMIT_MIN
+  return { algorithm: ARGON2ID13, opsLimit, memLimit }
+}
+
+/**
+ * Derives a 32-byte key from a password using the given key derivation parameters. Keys derived with
+ * the fixed salt (as `stretch` does) are memoized; keys derived with a salt of their own aren't, so
+ * we don't keep every salted password we're given in memory.
+ *
+ * The parameters might come from a cipher we've been sent, so Argon2 limits beyond libsodium's
+ * `SENSITIVE` limits are rejected rather than allowing the sender to tie up our memory and CPU.
+ */
+export const deriveKey = (password: string, kdf: KdfParams) => {
+  if (kdf.algorithm === BLAKE2B) return deriveWithFixedSalt(password, kdf.algorithm)
+
+  const { algorithm, opsLimit, memLimit, salt } = kdf
+  if (
+    !isInRange(opsLimit, OPSLIMIT_MIN, OPSLIMIT_SENSITIVE) ||
+    !isInRange(memLimit, MEMLIMIT_MIN, MEMLIMIT_SENSITIVE)
   )
-})
+    throw new Error(`Key derivation limits are out of range`)
+
+  return salt === undefined
+    ? deriveWithFixedSalt(password, algorithm, opsLimit, memLimit)
+    : derive(password, algorithm, opsLimit, memLimit, salt)
+}
+
+const FIXED_SALT = base58.decode('H5B4DLSXw5xwNYFdz1Wr6e' as Base58)
+
+// memoized on primitive arguments, since these derivations are expensive by design
+const deriveWithFixedSalt = memize(
+  (password: string, algorithm: KdfParams['algorithm'], opsLimit = 0, memLimit = 0) =>
+    derive(password, algorithm, opsLimit, memLimit, FIXED_SALT)
+)
+
+const derive = (
+  password: string,
+  algorithm: KdfParams['algorithm'],
+  opsLimit: number,
+  memLimit: number,
+  salt: Uint8Array
+) => {
+  const passwordBytes = passwordToBytes(password)
+
+  switch (algorithm) {
+    case BLAKE2B: {
+      return getCryptoProvider().hash(32, passwordBytes, salt)
+    }
+
+    case ARGON2ID13: {
+      return getCryptoProvider().pwhash(32, passwordBytes, salt, opsLimit, memLimit)
+    }
+
+    default: {
+      throw new Error(`Unsupported key derivation algorithm: ${algorithm as string}`)
+    }
+  }
+}
+
+const isInRange = (value: number, min: number, max: number) =>
+  Number.isInteger(value) && value >= min && value <= max
+
+const passwordToBytes = (password: string) =>
+  keyToBytes(password, base58.detect(password) ? 'base58' : 'utf8')
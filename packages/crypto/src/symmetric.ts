@@ -1,7 +1,9 @@
-import sodium from 'libsodium-wrappers-sumo'
 import { pack, unpack } from 'msgpackr'
-import { stretch } from './stretch.js'
-import type { Cipher, Base58, Payload } from './types.js'
+import { NONCE_BYTES } from './constants.js'
+import { XSALSA20_POLY1305, packCipher, unpackCipher } from './envelope.js'
+import { getCryptoProvider } from './provider/index.js'
+import { deriveKey, getKdfParams, stretch, stretchWithSalt } from './stretch.js'
+import type { Base58, KdfParams, Payload, StretchOptions } from './types.js'
 import { base58, keyToBytes } from './util/index.js'
 
 /**
@@ -13,12 +15,9 @@ const encryptBytes = (
   /** The password used to encrypt */
   password: string
 ): Uint8Array => {
-  const key = stretch(password)
-  const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES)
-  const encrypted = sodium.crypto_secretbox_easy(payload, nonce, key)
-  const cipher: Cipher = { nonce, message: encrypted }
-  const cipherBytes = pack(cipher)
-  return cipherBytes
+  const kdf = getKdfParams(password)
+  const key = deriveKey(password, kdf)
+  return encryptWithKey(payload, key, kdf)
 }
 
 /**
@@ -30,9 +29,16 @@ const decryptBytes = (
   /** The password used to encrypt */
   password: string
 ): Uint8Array => {
-  const key = stretch(password)
-  const { nonce, message } = unpack(cipher) as Cipher
-  return sodium.crypto_secretbox_open_easy(message, nonce, key)
+  const { algorithm, kdf, nonce, message } = unpackCipher(cipher, [XSALSA20_POLY1305])
+
+  // Version 0 ciphers don't record their key derivation parameters, so we fall back to `stretch`
+  const key = kdf ? deriveKey(password, kdf) : stretch(password)
+
+  switch (algorithm) {
+    case XSALSA20_POLY1305: {
+      return getCryptoProvider().secretboxOpen(message, nonce!, key)
+    }
+  }
 }
 
 /**
@@ -65,4 +71,30 @@ const decrypt = (
   return unpack(decrypted) as Payload
 }
 
-export const symmetric = { encryptBytes, decryptBytes, encrypt, decrypt }
+/**
+ * Symmetrically encrypts a string or object using a key stretched from a human-chosen password,
+ * with a random salt and explicit Argon2id limits. The salt and limits are recorded in the cipher,
+ * so it can be decrypted using `symmetric.decrypt` with just the password.
+ */
+const encryptWithPassword = (
+  /** The plaintext or object to encrypt */
+  payload: Payload,
+  /** The password used to encrypt */
+  password: string,
+  /** (optional) Salt and Argon2id limits. By default a random salt is used. */
+  options?: StretchOptions
+): Base58 => {
+  const { key, kdf } = stretchWithSalt(password, options)
+  const cipherBytes = encryptWithKey(pack(payload), key, kdf)
+  return base58.encode(cipherBytes)
+}
+
+export const symmetric = { encryptBytes, decryptBytes, encrypt, decrypt, encryptWithPassword }
+
+// HELPERS
+
+const encryptWithKey = (payload: Uint8Array, key: Uint8Array, kdf: KdfParams) => {
+  const nonce = getCryptoProvider().randomBytes(NONCE_BYTES)
+  const encrypted = getCryptoProvider().secretbox(payload, nonce, key)
+  return packCipher({ algorithm: XSALSA20_POLY1305, kdf, nonce, message: encrypted })
+}
@@ -84,6 +84,76 @@ describe('crypto', () => {
     })
   })
 
+  describe('sealed boxes', () => {
+    test.each`
+      label              | message
+      ${'plain text'}    | ${plaintext}
+      ${'empty string'}  | ${''}
+      ${'emoji message'} | ${poop}
+      ${'zalgo text'}    | ${zalgoText}
+    `('round trip: $label', ({ message }: { label: string; message: string }) => {
+      const bob = keyPair()
+      const eve = keyPair()
+
+      const sealed = asymmetric.seal({ secret: message, recipientPublicKey: bob.publicKey })
+      expect(asymmetric.unseal({ cipher: sealed, recipientKeys: bob })).toEqual(message)
+
+      const attemptToDecrypt = () => asymmetric.unseal({ cipher: sealed, recipientKeys: eve })
+      expect(attemptToDecrypt).toThrow()
+    })
+
+    test('sealed boxes are smaller than ephemeral-key ciphers', () => {
+      const bob = keyPair()
+      const sealed = asymmetric.seal({ secret: plaintext, recipientPublicKey: bob.publicKey })
+      const encrypted = encrypt({ secret: plaintext, recipientPublicKey: bob.publicKey })
+      expect(sealed.length).toBeLessThan(encrypted.length)
+    })
+  })
+
+  describe('multi-recipient encryption', () => {
+    test('each recipient can decrypt', () => {
+      const recipients = [keyPair(), keyPair(), keyPair()]
+      const cipher = asymmetric.encryptForMany({
+        secret: plaintext,
+        recipientPublicKeys: recipients.map(r => r.publicKey),
+      })
+
+      for (const recipientKeys of recipients)
+        expect(asymmetric.decryptForMany({ cipher, recipientKeys })).toEqual(plaintext)
+    })
+
+    test('non-recipients cannot decrypt', () => {
+      const bob = keyPair()
+      const eve = keyPair()
+      const cipher = asymmetric.encryptForMany({
+        secret: plaintext,
+        recipientPublicKeys: [bob.publicKey],
+      })
+
+      const attemptToDecrypt = () => asymmetric.decryptForMany({ cipher, recipientKeys: eve })
+      expect(attemptToDecrypt).toThrow('not encrypted for this key')
+
+      // Eve claims Bob's public key, but she doesn't have his secret key
+      const attemptToImpersonate = () =>
+        asymmetric.decryptForMany({
+          cipher,
+          recipientKeys: { publicKey: bob.publicKey, secretKey: eve.secretKey },
+        })
+      expect(attemptToImpersonate).toThrow()
+    })
+
+    test('the payload is only encrypted once', () => {
+      const secret = 'x'.repeat(10_000)
+      const recipients = Array.from({ length: 10 }, () => keyPair())
+      const cipher = asymmetric.encryptForMany({
+        secret,
+        recipientPublicKeys: recipients.map(r => r.publicKey),
+      })
+      const single = encrypt({ secret, recipientPublicKey: recipients[0].publicKey })
+      expect(cipher.length).toBeLessThan(single.length * 2)
+    })
+  })
+
   describe('keyPair', () => {
     test('is deterministic if secretKey is provided', () => {
       const secretKey = 'C3U7T1J7M9gvhFHkDXeWHuAko8bdHd9w1CJKsLEUCVqp'
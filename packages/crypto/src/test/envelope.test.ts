@@ -0,0 +1,112 @@
+import sodium from 'libsodium-wrappers-sumo'
+import { pack, unpack } from 'msgpackr'
+import { describe, expect, test } from 'vitest'
+import { ENVELOPE_VERSION, asymmetric, signatures, stretch, symmetric } from '..'
+import { type Base58 } from '../types.js'
+import { base58, keyToBytes } from '../util/index.js'
+
+const plaintext = 'The leopard pounces at noon'
+const password = 'hello123'
+
+const readEnvelope = (cipher: Base58) => unpack(keyToBytes(cipher)) as Record<string, unknown>
+
+describe('envelope', () => {
+  describe('symmetric', () => {
+    test('ciphers include a header', () => {
+      const envelope = readEnvelope(symmetric.encrypt(plaintext, password))
+      expect(envelope.version).toBe(ENVELOPE_VERSION)
+      expect(envelope.algorithm).toBe('XSALSA20_POLY1305')
+      expect(envelope.kdf).toMatchObject({ algorithm: 'ARGON2ID13' })
+    })
+
+    test('long passwords are hashed rather than stretched', () => {
+      const envelope = readEnvelope(symmetric.encrypt(plaintext, 'a'.repeat(32)))
+      expect(envelope.kdf).toEqual({ algorithm: 'BLAKE2B' })
+    })
+
+    test('can decrypt a headerless (v0) cipher', () => {
+      // This is how ciphers were encrypted before envelopes were introduced
+      const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES)
+      const message = sodium.crypto_secretbox_easy(pack(plaintext), nonce, stretch(password))
+      const legacyCipher = base58.encode(pack({ nonce, message }))
+
+      expect(symmetric.decrypt(legacyCipher, password)).toEqual(plaintext)
+    })
+
+    test('rejects an unknown version', () => {
+      const envelope = readEnvelope(symmetric.encrypt(plaintext, password))
+      const cipher = base58.encode(pack({ ...envelope, version: 999 }))
+      expect(() => symmetric.decrypt(cipher, password)).toThrow('Unsupported envelope version')
+    })
+
+    test('rejects an unknown algorithm', () => {
+      const envelope = readEnvelope(symmetric.encrypt(plaintext, password))
+      const cipher = base58.encode(pack({ ...envelope, algorithm: 'ROT13' }))
+      expect(() => symmetric.decrypt(cipher, password)).toThrow('Unsupported algorithm')
+    })
+  })
+
+  describe('asymmetric', () => {
+    test('ciphers include a header', () => {
+      const bob = asymmetric.keyPair()
+      const cipher = asymmetric.encrypt({ secret: plaintext, recipientPublicKey: bob.publicKey })
+      const envelope = readEnvelope(cipher)
+      expect(envelope.version).toBe(ENVELOPE_VERSION)
+      expect(envelope.algorithm).toBe('X25519_XSALSA20_POLY1305')
+    })
+
+    test('can decrypt a headerless (v0) cipher', () => {
+      const alice = asymmetric.keyPair()
+      const bob = asymmetric.keyPair()
+
+      // This is how ciphers were encrypted before envelopes were introduced
+      const nonce = sodium.randombytes_buf(sodium.crypto_box_NONCEBYTES)
+      const message = sodium.crypto_box_easy(
+        pack(plaintext),
+        nonce,
+        keyToBytes(bob.publicKey),
+        keyToBytes(alice.secretKey)
+      )
+      const legacyCipher = base58.encode(pack({ nonce, message, senderPublicKey: alice.publicKey }))
+
+      const decrypted = asymmetric.decrypt({
+        cipher: legacyCipher,
+        recipientSecretKey: bob.secretKey,
+      })
+      expect(decrypted).toEqual(plaintext)
+    })
+
+    test('rejects a symmetric cipher', () => {
+      const bob = asymmetric.keyPair()
+      const cipher = symmetric.encrypt(plaintext, password)
+      expect(() => asymmetric.decrypt({ cipher, recipientSecretKey: bob.secretKey })).toThrow(
+        'Unsupported algorithm'
+      )
+    })
+  })
+
+  describe('signatures', () => {
+    test('signatures include a header', () => {
+      const alice = signatures.keyPair('alice')
+      const envelope = readEnvelope(signatures.sign(plaintext, alice.secretKey))
+      expect(envelope.version).toBe(ENVELOPE_VERSION)
+      expect(envelope.algorithm).toBe('ED25519')
+    })
+
+    test('can verify a bare (v0) signature', () => {
+      const alice = signatures.keyPair('alice')
+
+      // This is how signatures were made before envelopes were introduced
+      const legacySignature = base58.encode(
+        sodium.crypto_sign_detached(pack(plaintext), keyToBytes(alice.secretKey))
+      )
+
+      const isLegit = signatures.verify({
+        payload: plaintext,
+        signature: legacySignature,
+        publicKey: alice.publicKey,
+      })
+      expect(isLegit).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'vitest'
+import { keyExchange, symmetric } from '..'
+
+const { keyPair, clientSessionKeys, serverSessionKeys, sessionKeys } = keyExchange
+
+describe('keyExchange', () => {
+  test('client and server derive matching session keys', () => {
+    const client = keyPair()
+    const server = keyPair()
+
+    const clientKeys = clientSessionKeys({ ourKeys: client, theirPublicKey: server.publicKey })
+    const serverKeys = serverSessionKeys({ ourKeys: server, theirPublicKey: client.publicKey })
+
+    expect(clientKeys.transmitKey).toEqual(serverKeys.receiveKey)
+    expect(clientKeys.receiveKey).toEqual(serverKeys.transmitKey)
+  })
+
+  test('keys are different in each direction', () => {
+    const client = keyPair()
+    const server = keyPair()
+
+    const { receiveKey, transmitKey } = clientSessionKeys({
+      ourKeys: client,
+      theirPublicKey: server.publicKey,
+    })
+    expect(receiveKey).not.toEqual(transmitKey)
+  })
+
+  test('peers derive matching session keys without agreeing on roles', () => {
+    const alice = keyPair()
+    const bob = keyPair()
+
+    const aliceKeys = sessionKeys({ ourKeys: alice, theirPublicKey: bob.publicKey })
+    const bobKeys = sessionKeys({ ourKeys: bob, theirPublicKey: alice.publicKey })
+
+    expect(aliceKeys.transmitKey).toEqual(bobKeys.receiveKey)
+    expect(aliceKeys.receiveKey).toEqual(bobKeys.transmitKey)
+
+    // Alice can send Bob a message
+    const cipher = symmetric.encrypt('the eagle lands at dawn', aliceKeys.transmitKey)
+    expect(symmetric.decrypt(cipher, bobKeys.receiveKey)).toEqual('the eagle lands at dawn')
+  })
+
+  test('each session gets different keys', () => {
+    const alice = keyPair()
+    const bob = keyPair()
+    const firstSession = sessionKeys({ ourKeys: alice, theirPublicKey: bob.publicKey })
+
+    const alice2 = keyPair()
+    const bob2 = keyPair()
+    const secondSession = sessionKeys({ ourKeys: alice2, theirPublicKey: bob2.publicKey })
+
+    expect(secondSession.transmitKey).not.toEqual(firstSession.transmitKey)
+  })
+
+  test('an eavesdropper with a different keypair derives different keys', () => {
+    const alice = keyPair()
+    const bob = keyPair()
+    const eve = keyPair()
+
+    const aliceKeys = sessionKeys({ ourKeys: alice, theirPublicKey: bob.publicKey })
+    const eveKeys = sessionKeys({ ourKeys: eve, theirPublicKey: alice.publicKey })
+
+    expect(eveKeys.receiveKey).not.toEqual(aliceKeys.transmitKey)
+  })
+})
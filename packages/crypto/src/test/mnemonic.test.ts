@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'vitest'
+import { mnemonic, randomKey } from '..'
+import { keyToBytes } from '../util/index.js'
+
+const { encode, decode, isValid, generate, toSeed, fromSeed } = mnemonic
+
+describe('mnemonic', () => {
+  test('encodes a 32-byte seed as 24 words', () => {
+    const seed = keyToBytes(randomKey(32))
+    const words = encode(seed)
+    expect(words.split(' ')).toHaveLength(24)
+    expect(decode(words)).toEqual(seed)
+  })
+
+  test('encodes a 16-byte seed as 12 words', () => {
+    const seed = keyToBytes(randomKey(16))
+    const words = encode(seed)
+    expect(words.split(' ')).toHaveLength(12)
+    expect(decode(words)).toEqual(seed)
+  })
+
+  test('known seed', () => {
+    const words = encode(new Uint8Array(16))
+    expect(words.split(' ').slice(0, 11)).toEqual(Array.from({ length: 11 }, () => 'abandon'))
+    expect(decode(words)).toEqual(new Uint8Array(16))
+  })
+
+  test('rejects other seed lengths', () => {
+    expect(() => encode(keyToBytes(randomKey(24)))).toThrow('Seed must be 16 or 32 bytes')
+  })
+
+  test('ignores case and whitespace', () => {
+    const words = generate()
+    const sloppy = `  ${words.toUpperCase().replaceAll(' ', ' \n  ')}  `
+    expect(decode(sloppy)).toEqual(decode(words))
+  })
+
+  test('rejects an unknown word', () => {
+    const words = generate().split(' ')
+    words[3] = 'covfefe'
+    expect(() => decode(words.join(' '))).toThrow('Unknown word in mnemonic: covfefe')
+  })
+
+  test('rejects the wrong number of words', () => {
+    const words = generate().split(' ').slice(1).join(' ')
+    expect(() => decode(words)).toThrow('A mnemonic must have 12 or 24 words')
+  })
+
+  test('detects swapped words', () => {
+    const seed = new Uint8Array(32)
+    seed[1] = 0xff
+    const words = encode(seed).split(' ')
+    ;[words[0], words[1]] = [words[1], words[0]]
+    expect(isValid(words.join(' '))).toBe(false)
+    expect(() => decode(words.join(' '))).toThrow('Invalid mnemonic checksum')
+  })
+
+  test('round-trips a base58 seed', () => {
+    const seed = randomKey()
+    expect(toSeed(fromSeed(seed))).toEqual(seed)
+  })
+})
@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, test } from 'vitest'
+import {
+  asymmetric,
+  deterministicProvider,
+  getCryptoProvider,
+  hash,
+  randomKey,
+  ready,
+  setCryptoProvider,
+  signatures,
+  sodiumProvider,
+  symmetric,
+} from '..'
+import { type CryptoProvider } from '../types.js'
+
+describe('crypto provider', () => {
+  afterEach(() => {
+    setCryptoProvider(sodiumProvider)
+  })
+
+  test('libsodium is the default provider', () => {
+    expect(getCryptoProvider()).toBe(sodiumProvider)
+  })
+
+  test('all functions route through the registered provider', () => {
+    const calls: string[] = []
+    const spy = Object.fromEntries(
+      Object.entries(sodiumProvider).map(([name, fn]) => [
+        name,
+        (...args: any[]) => {
+          calls.push(name)
+          return (fn as (...args: any[]) => unknown)(...args)
+        },
+      ])
+    ) as CryptoProvider
+    setCryptoProvider(spy)
+
+    const alice = asymmetric.keyPair()
+    const bob = asymmetric.keyPair()
+    const cipher = asymmetric.encrypt({
+      secret: 'hello',
+      recipientPublicKey: bob.publicKey,
+      senderSecretKey: alice.secretKey,
+    })
+    asymmetric.decrypt({
+      cipher,
+      senderPublicKey: alice.publicKey,
+      recipientSecretKey: bob.secretKey,
+    })
+    symmetric.decrypt(symmetric.encrypt('hello', 'password'), 'password')
+    const signer = signatures.keyPair()
+    signatures.verify({
+      payload: 'hello',
+      signature: signatures.sign('hello', signer.secretKey),
+      publicKey: signer.publicKey,
+    })
+    hash('TEST_HASH_PURPOSE', 'hello')
+    randomKey()
+
+    for (const name of [
+      'randomBytes',
+      'hash',
+      'pwhash',
+      'boxKeyPair',
+      'box',
+      'boxOpen',
+      'secretbox',
+      'secretboxOpen',
+      'signKeyPair',
+      'sign',
+      'verify',
+    ])
+      expect(calls).toContain(name)
+  })
+
+  test('a provider must be ready before it is used', async () => {
+    let isReady = false
+    setCryptoProvider({
+      ...sodiumProvider,
+      async ready() {
+        isReady = true
+      },
+      isReady: () => isReady,
+    })
+    expect(() => randomKey()).toThrow('not ready')
+
+    await ready()
+    expect(() => randomKey()).not.toThrow()
+  })
+
+  describe('deterministic provider', () => {
+    test('random output is reproducible from the seed', () => {
+      setCryptoProvider(deterministicProvider('test seed'))
+      const first = [randomKey(), randomKey(100), asymmetric.keyPair(), signatures.keyPair()]
+
+      setCryptoProvider(deterministicProvider('test seed'))
+      const second = [randomKey(), randomKey(100), asymmetric.keyPair(), signatures.keyPair()]
+
+      expect(second).toEqual(first)
+    })
+
+    test('different seeds give different output', () => {
+      setCryptoProvider(deterministicProvider('test seed'))
+      const first = randomKey()
+
+      setCryptoProvider(deterministicProvider('another seed'))
+      const second = randomKey()
+
+      expect(second).not.toEqual(first)
+    })
+
+    test('ciphers are reproducible and compatible with libsodium', () => {
+      const bob = asymmetric.keyPair()
+      const encrypt = () => {
+        setCryptoProvider(deterministicProvider('test seed'))
+        return asymmetric.encrypt({ secret: 'hello', recipientPublicKey: bob.publicKey })
+      }
+
+      const cipher = encrypt()
+      expect(encrypt()).toEqual(cipher)
+
+      setCryptoProvider(sodiumProvider)
+      expect(asymmetric.decrypt({ cipher, recipientSecretKey: bob.secretKey })).toEqual('hello')
+    })
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'vitest'
+import { randomKey, secretSharing } from '..'
+import { keyToBytes } from '../util/index.js'
+
+const { split, combine } = secretSharing
+
+describe('secretSharing', () => {
+  const secret = keyToBytes(randomKey(32))
+
+  test('any threshold of shares recovers the secret', () => {
+    const shares = split(secret, { shares: 5, threshold: 3 })
+    expect(shares).toHaveLength(5)
+    expect(combine([shares[0], shares[1], shares[2]])).toEqual(secret)
+    expect(combine([shares[4], shares[0], shares[2]])).toEqual(secret)
+    expect(combine(shares)).toEqual(secret)
+  })
+
+  test('fewer than the threshold of shares does not recover the secret', () => {
+    const shares = split(secret, { shares: 5, threshold: 3 })
+    expect(combine([shares[0], shares[1]])).not.toEqual(secret)
+  })
+
+  test('a threshold of 1 gives each share the whole secret', () => {
+    const shares = split(secret, { shares: 3, threshold: 1 })
+    for (const share of shares) expect(combine([share])).toEqual(secret)
+  })
+
+  test('works for secrets of any length', () => {
+    const longSecret = keyToBytes(randomKey(100))
+    const shares = split(longSecret, { shares: 255, threshold: 255 })
+    expect(combine(shares)).toEqual(longSecret)
+  })
+
+  test('shares are different each time', () => {
+    const first = split(secret, { shares: 2, threshold: 2 })
+    const second = split(secret, { shares: 2, threshold: 2 })
+    expect(first[0]).not.toEqual(second[0])
+  })
+
+  test('rejects invalid options', () => {
+    expect(() => split(secret, { shares: 256, threshold: 2 })).toThrow('Number of shares')
+    expect(() => split(secret, { shares: 3, threshold: 4 })).toThrow('Threshold')
+    expect(() => split(secret, { shares: 3, threshold: 0 })).toThrow('Threshold')
+  })
+
+  test('rejects duplicate shares', () => {
+    const shares = split(secret, { shares: 3, threshold: 2 })
+    expect(() => combine([shares[0], shares[0]])).toThrow('Shares must be distinct')
+  })
+})
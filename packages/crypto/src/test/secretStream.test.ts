@@ -0,0 +1,137 @@
+import { describe, expect, test } from 'vitest'
+import { randomKey, secretStream } from '..'
+
+const { encryptor, decryptor, encrypt, decrypt } = secretStream
+
+const password = 'hello123'
+
+const bytes = (s: string) => new TextEncoder().encode(s)
+const text = (b: Uint8Array) => new TextDecoder().decode(b)
+
+const collect = async (source: AsyncIterable<Uint8Array>) => {
+  const chunks: Uint8Array[] = []
+  for await (const chunk of source) chunks.push(chunk)
+  return chunks
+}
+
+const join = (chunks: Uint8Array[]) => {
+  const result = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+
+  return result
+}
+
+/** Splits a byte array into pieces of the given size */
+const rechunk = (b: Uint8Array, size: number) => {
+  const chunks: Uint8Array[] = []
+  for (let i = 0; i < b.length; i += size) chunks.push(b.slice(i, i + size))
+  return chunks
+}
+
+describe('secretStream', () => {
+  describe('push/pull', () => {
+    test('round trip', () => {
+      const { header, push } = encryptor(password)
+      const c1 = push(bytes('one if by land'))
+      const c2 = push(bytes('two if by sea'), true)
+
+      const { pull } = decryptor(header, password)
+      expect(text(pull(c1).message)).toBe('one if by land')
+      const last = pull(c2)
+      expect(text(last.message)).toBe('two if by sea')
+      expect(last.isFinal).toBe(true)
+    })
+
+    test('cannot push after the final chunk', () => {
+      const { push } = encryptor(password)
+      push(bytes('the end'), true)
+      expect(() => push(bytes('just kidding'))).toThrow()
+    })
+
+    test('fails with the wrong password', () => {
+      const { header, push } = encryptor(password)
+      const c1 = push(bytes('one if by land'), true)
+      const { pull } = decryptor(header, 'nachopassword')
+      expect(() => pull(c1)).toThrow()
+    })
+
+    test('detects tampered chunks', () => {
+      const { header, push } = encryptor(password)
+      const c1 = push(bytes('one if by land'), true)
+      c1[5] = c1[5] === 0 ? 1 : 0
+      const { pull } = decryptor(header, password)
+      expect(() => pull(c1)).toThrow()
+    })
+
+    test('detects reordered chunks', () => {
+      const { header, push } = encryptor(password)
+      push(bytes('one if by land'))
+      const c2 = push(bytes('two if by sea'), true)
+      const { pull } = decryptor(header, password)
+      expect(() => pull(c2)).toThrow()
+    })
+  })
+
+  describe('async iterables', () => {
+    test('round trip', async () => {
+      const plaintext = ['flee', 'to the hills', 'for all is lost'].map(bytes)
+      const cipher = await collect(encrypt(plaintext, password))
+      const decrypted = await collect(decrypt(cipher, password))
+      expect(decrypted.map(text)).toEqual(['flee', 'to the hills', 'for all is lost'])
+    })
+
+    test('round trip with a large payload chunked arbitrarily', async () => {
+      const payload = join(Array.from({ length: 200 }, () => bytes(randomKey(1000))))
+      const cipher = join(await collect(encrypt(rechunk(payload, 64 * 1024), password)))
+
+      // decrypt using chunks that don't line up with the encrypted frames
+      const decrypted = join(await collect(decrypt(rechunk(cipher, 1234), password)))
+      expect(decrypted).toEqual(payload)
+    })
+
+    test('round trip with an async source', async () => {
+      async function* source() {
+        yield bytes('the eagle')
+        yield bytes('lands at dawn')
+      }
+
+      const decrypted = await collect(decrypt(encrypt(source(), password), password))
+      expect(decrypted.map(text)).toEqual(['the eagle', 'lands at dawn'])
+    })
+
+    test('round trip with an empty source', async () => {
+      const cipher = await collect(encrypt([], password))
+      const decrypted = await collect(decrypt(cipher, password))
+      expect(join(decrypted)).toHaveLength(0)
+    })
+
+    test('fails with the wrong password', async () => {
+      const cipher = await collect(encrypt([bytes('the eagle lands at dawn')], password))
+      await expect(collect(decrypt(cipher, 'nachopassword'))).rejects.toThrow()
+    })
+
+    test('detects a tampered stream', async () => {
+      const cipher = join(await collect(encrypt([bytes('the eagle lands at dawn')], password)))
+      const i = cipher.length - 3
+      cipher[i] = cipher[i] === 0 ? 1 : 0
+      await expect(collect(decrypt([cipher], password))).rejects.toThrow()
+    })
+
+    test('detects a truncated stream', async () => {
+      const plaintext = ['one', 'two', 'three'].map(bytes)
+      const cipher = await collect(encrypt(plaintext, password))
+
+      // drop the final frame
+      const truncated = cipher.slice(0, -1)
+      await expect(collect(decrypt(truncated, password))).rejects.toThrow('truncated')
+
+      // cut off partway through the final frame
+      const partial = join(cipher).slice(0, -5)
+      await expect(collect(decrypt([partial], password))).rejects.toThrow('truncated')
+    })
+  })
+})
@@ -2,7 +2,7 @@ import { describe, expect, test } from 'vitest'
 import { asymmetric, randomKey, signatures } from '..'
 import { type Base58, type SignedMessage } from '../types.js'
 
-const { keyPair, sign, verify } = signatures
+const { keyPair, sign, verify, verifyBatch } = signatures
 
 describe('crypto', () => {
   describe('signatures', () => {
@@ -12,7 +12,7 @@ describe('crypto', () => {
       const alice = keyPair('alice')
       const signature = sign(payload, alice.secretKey)
       expect(signature).toMatchInlineSnapshot(
-        '"2NkJHbpTYjZqrdnRKqzTtVKNrGcsDSFh2mdx7GdTeoMGXfwkMDXzKywASZkgoZ6Q7Try2BPrptnLjdstxmzRnu1E"'
+        '"KxtCKkaZDx9ZW5zA2sEZtfjy6DMsNXo5MWnh51zPskGNEfeixQSJfYjNCzpsDS4nspqLvAcJMxGhE7KkVKc1EVKeguVNwWaFcaqxXTsT8MGHRy7hqgLk8GUugN9H3QgnVHoBJYgKRmovziJmJ"'
       )
     })
 
@@ -107,6 +107,46 @@ describe('crypto', () => {
       expect(isLegit).toBe(false)
     })
 
+    describe('context', () => {
+      test('round trip with a context', () => {
+        const alice = keyPair('alice')
+        const signature = sign(payload, alice.secretKey, 'TEST_CONTEXT')
+        const { publicKey } = alice
+        expect(verify({ payload, signature, publicKey, context: 'TEST_CONTEXT' })).toBe(true)
+      })
+
+      test('a signature made for one context is not valid for another', () => {
+        const alice = keyPair('alice')
+        const signature = sign(payload, alice.secretKey, 'TEST_CONTEXT')
+        const { publicKey } = alice
+        expect(verify({ payload, signature, publicKey, context: 'OTHER_CONTEXT' })).toBe(false)
+        expect(verify({ payload, signature, publicKey })).toBe(false)
+      })
+
+      test('a signature made without a context is not valid with one', () => {
+        const alice = keyPair('alice')
+        const signature = sign(payload, alice.secretKey)
+        const { publicKey } = alice
+        expect(verify({ payload, signature, publicKey, context: 'TEST_CONTEXT' })).toBe(false)
+      })
+    })
+
+    test('verifyBatch', () => {
+      const alice = keyPair('alice')
+      const bob = keyPair('bob')
+      const messages: SignedMessage[] = [
+        { payload, signature: sign(payload, alice.secretKey), publicKey: alice.publicKey },
+        {
+          payload,
+          signature: sign(payload, bob.secretKey, 'TEST_CONTEXT'),
+          publicKey: bob.publicKey,
+          context: 'TEST_CONTEXT',
+        },
+        { payload, signature: sign(payload, bob.secretKey), publicKey: alice.publicKey },
+      ]
+      expect(verifyBatch(messages)).toEqual([true, true, false])
+    })
+
     test('fwiw: cannot use encryption keys to sign', () => {
       const keysForAnotherPurpose = asymmetric.keyPair()
       const tryToSignWithEncryptionKeys = () =>
@@ -1,5 +1,6 @@
+import sodium from 'libsodium-wrappers-sumo'
 import { describe, expect, test } from 'vitest'
-import { stretch } from '..'
+import { deriveKey, stretch, stretchWithSalt } from '..'
 import { base58 } from '../util/index.js'
 
 describe('stretch', () => {
@@ -15,3 +16,71 @@ describe('stretch', () => {
     )
   })
 })
+
+describe('stretchWithSalt', () => {
+  const password = 'hello123'
+  const fast = {
+    opsLimit: sodium.crypto_pwhash_OPSLIMIT_MIN,
+    memLimit: sodium.crypto_pwhash_MEMLIMIT_MIN,
+  }
+
+  test('returns a 32-byte key along with the parameters used', () => {
+    const { key, kdf } = stretchWithSalt(password, fast)
+    expect(key).toHaveLength(32)
+    expect(kdf).toMatchObject({ algorithm: 'ARGON2ID13', ...fast })
+    if (kdf.algorithm === 'ARGON2ID13') expect(kdf.salt).toHaveLength(16)
+  })
+
+  test('the same password gives different keys with different salts', () => {
+    const a = stretchWithSalt(password, fast)
+    const b = stretchWithSalt(password, fast)
+    expect(a.key).not.toEqual(b.key)
+    expect(a.key).not.toEqual(stretch(password))
+  })
+
+  test('the key can be derived again from the returned parameters', () => {
+    const { key, kdf } = stretchWithSalt(password, fast)
+    expect(deriveKey(password, kdf)).toEqual(key)
+  })
+
+  test('results are deterministic given the same salt', () => {
+    const salt = base58.decode('H5B4DLSXw5xwNYFdz1Wr6e')
+    const a = stretchWithSalt(password, { salt, ...fast })
+    const b = stretchWithSalt(password, { salt, ...fast })
+    expect(a.key).toEqual(b.key)
+  })
+
+  test('salted keys are not memoized', () => {
+    const salt = base58.decode('H5B4DLSXw5xwNYFdz1Wr6e')
+    const a = stretchWithSalt(password, { salt, ...fast })
+    const b = stretchWithSalt(password, { salt, ...fast })
+    expect(a.key).not.toBe(b.key)
+
+    // whereas `stretch` always returns the same key for the same password
+    expect(stretch(password)).toBe(stretch(password))
+  })
+
+  test('uses interactive limits by default', () => {
+    const { kdf } = stretchWithSalt(password)
+    expect(kdf).toMatchObject({
+      opsLimit: sodium.crypto_pwhash_OPSLIMIT_INTERACTIVE,
+      memLimit: sodium.crypto_pwhash_MEMLIMIT_INTERACTIVE,
+    })
+  })
+
+  test('rejects limits that are out of range', () => {
+    const salt = base58.decode('H5B4DLSXw5xwNYFdz1Wr6e')
+    const tooMuchMemory = { ...fast, memLimit: sodium.crypto_pwhash_MEMLIMIT_SENSITIVE * 2 }
+    expect(() => stretchWithSalt(password, { salt, ...tooMuchMemory })).toThrow('out of range')
+
+    const tooManyOps = { ...fast, opsLimit: sodium.crypto_pwhash_OPSLIMIT_SENSITIVE + 1 }
+    expect(() => deriveKey(password, { algorithm: 'ARGON2ID13', salt, ...tooManyOps })).toThrow(
+      'out of range'
+    )
+  })
+
+  test('rejects a salt of the wrong length', () => {
+    const salt = new Uint8Array(8)
+    expect(() => stretchWithSalt(password, { salt, ...fast })).toThrow('Salt must be 16 bytes')
+  })
+})
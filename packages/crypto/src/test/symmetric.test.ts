@@ -1,7 +1,10 @@
+import sodium from 'libsodium-wrappers-sumo'
+import { pack, unpack } from 'msgpackr'
 import { describe, test, expect } from 'vitest'
 import { symmetric } from '..'
+import { base58, keyToBytes } from '../util/index.js'
 
-const { encrypt, decrypt } = symmetric
+const { encrypt, decrypt, encryptWithPassword } = symmetric
 
 const plaintext = 'The leopard pounces at noon'
 const zalgoText = 'ẓ̴̇a̷̰̚l̶̥͑g̶̼͂o̴̅͜ ̸̻̏í̴͜s̵̜͠ ̴̦̃u̸̼̎p̵̘̔o̵̦͑ǹ̵̰ ̶̢͘u̵̇ͅș̷̏'
@@ -29,4 +32,45 @@ describe('crypto', () => {
       expect(attemptToDecrypt).toThrow()
     })
   })
+
+  describe('password-based encryption', () => {
+    const fast = {
+      opsLimit: sodium.crypto_pwhash_OPSLIMIT_MIN,
+      memLimit: sodium.crypto_pwhash_MEMLIMIT_MIN,
+    }
+
+    test('round trip', () => {
+      const cipher = encryptWithPassword(plaintext, password, fast)
+      expect(decrypt(cipher, password)).toEqual(plaintext)
+
+      const attemptToDecrypt = () => decrypt(cipher, 'nachopassword')
+      expect(attemptToDecrypt).toThrow()
+    })
+
+    test('the salt and limits are recorded in the cipher', () => {
+      const cipher = encryptWithPassword(plaintext, password, fast)
+      const { kdf } = unpack(keyToBytes(cipher)) as { kdf: Record<string, unknown> }
+      expect(kdf).toMatchObject({ algorithm: 'ARGON2ID13', ...fast })
+      expect(kdf.salt).toHaveLength(16)
+    })
+
+    test('the same password and plaintext use different salts each time', () => {
+      const cipher1 = encryptWithPassword(plaintext, password, fast)
+      const cipher2 = encryptWithPassword(plaintext, password, fast)
+      const salt1 = (unpack(keyToBytes(cipher1)) as { kdf: { salt: Uint8Array } }).kdf.salt
+      const salt2 = (unpack(keyToBytes(cipher2)) as { kdf: { salt: Uint8Array } }).kdf.salt
+      expect(salt1).not.toEqual(salt2)
+    })
+
+    test("a cipher can't ask for more memory than we allow", () => {
+      const cipher = encryptWithPassword(plaintext, password, fast)
+      const envelope = unpack(keyToBytes(cipher)) as { kdf: Record<string, unknown> }
+
+      // 🦹‍♀️ Eve asks for 4 TB of memory to derive the key
+      envelope.kdf.memLimit = 2 ** 42
+      const evesCipher = base58.encode(pack(envelope))
+
+      expect(() => decrypt(evesCipher, password)).toThrow('out of range')
+    })
+  })
 })
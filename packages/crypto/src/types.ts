@@ -9,11 +9,45 @@ export type ByteKeypair = {
   secretKey: Uint8Array
 }
 
+/** @deprecated Keypair in the shape returned by libsodium; use `ByteKeypair` instead. */
+export type KeyPair = {
+  privateKey: Uint8Array
+  publicKey: Uint8Array
+}
+
 export type Base58Keypair = {
   publicKey: Base58
   secretKey: Base58
 }
 
+export type ByteSessionKeys = {
+  /** Key for decrypting what the other party sends */
+  receiveKey: Uint8Array
+  /** Key for encrypting what we send to the other party */
+  transmitKey: Uint8Array
+}
+
+export type SessionKeys = {
+  /** Key for decrypting what the other party sends, encoded as a base58 string */
+  receiveKey: Base58
+  /** Key for encrypting what we send to the other party, encoded as a base58 string */
+  transmitKey: Base58
+}
+
+export type SessionKeysParams = {
+  /** Our (ephemeral) key exchange keypair */
+  ourKeys: Base58Keypair
+  /** The other party's (ephemeral) key exchange public key */
+  theirPublicKey: Base58
+}
+
+export type SplitOptions = {
+  /** The number of shares to create (at most 255) */
+  shares: number
+  /** The number of shares needed to recover the secret */
+  threshold: number
+}
+
 export type SignedMessage = {
   /** The plaintext message to be verified */
   payload: Payload
@@ -21,6 +55,8 @@ export type SignedMessage = {
   signature: Base58
   /** The signer's public key, encoded as a base58 string */
   publicKey: Base58
+  /** (optional) The context the message was signed with */
+  context?: string
 }
 
 export type EncryptParams = {
@@ -41,9 +77,189 @@ export type DecryptParams = {
   recipientSecretKey: Base58
 }
 
+export type SealParams = {
+  /** The plaintext to encrypt */
+  secret: Payload
+  /** The public key of the intended recipient */
+  recipientPublicKey: Base58
+}
+
+export type EncryptForManyParams = {
+  /** The plaintext to encrypt */
+  secret: Payload
+  /** The public keys of the intended recipients */
+  recipientPublicKeys: Base58[]
+}
+
+export type UnsealParams = {
+  /** The encrypted data, encoded in msgpack format as a base58 string */
+  cipher: Base58
+  /** The recipient's keypair (both halves are needed to open a sealed box) */
+  recipientKeys: Base58Keypair
+}
+
 export type Cipher = {
   nonce: Uint8Array
   message: Uint8Array
 }
 
 export type Encoder = (b: Uint8Array) => string
+
+export type CipherAlgorithm =
+  | 'XSALSA20_POLY1305'
+  | 'X25519_XSALSA20_POLY1305'
+  | 'X25519_XSALSA20_POLY1305_SEALED'
+  | 'X25519_XSALSA20_POLY1305_MULTI'
+export type SignatureAlgorithm = 'ED25519'
+
+/** Parameters used to derive a symmetric key from a password */
+export type KdfParams =
+  | {
+      /** Used for passwords that are already long enough; the password is just hashed */
+      algorithm: 'BLAKE2B'
+    }
+  | {
+      algorithm: 'ARGON2ID13'
+      opsLimit: number
+      memLimit: number
+      /** Random salt for this secret. If omitted, a fixed salt is used (as `stretch` does). */
+      salt?: Uint8Array
+    }
+
+export type StretchOptions = {
+  /** The salt to use (16 bytes). If omitted, a random salt is generated. */
+  salt?: Uint8Array
+  /** Argon2 operations limit. Defaults to libsodium's `OPSLIMIT_INTERACTIVE`. */
+  opsLimit?: number
+  /** Argon2 memory limit in bytes. Defaults to libsodium's `MEMLIMIT_INTERACTIVE`. */
+  memLimit?: number
+}
+
+export type StretchResult = {
+  /** The derived 32-byte key */
+  key: Uint8Array
+  /** The parameters needed to derive the same key again from the same password */
+  kdf: KdfParams
+}
+
+export type CipherEnvelope<T extends CipherAlgorithm = CipherAlgorithm> = {
+  /** Envelope format version. Ciphers without a header are read as version 0. */
+  version: number
+  /** The algorithm used to encrypt */
+  algorithm: T
+  /** The encrypted data */
+  message: Uint8Array
+  /** The nonce used to encrypt (sealed boxes derive their nonce, so they don't include one) */
+  nonce?: Uint8Array
+  /** For password-based encryption, the parameters used to derive the key */
+  kdf?: KdfParams
+  /** For asymmetric encryption with an ephemeral keypair, the ephemeral public key */
+  senderPublicKey?: Base58
+  /** For multi-recipient encryption, the data key sealed for each recipient's public key */
+  recipients?: Record<Base58, Uint8Array>
+}
+
+export type SignatureEnvelope = {
+  /** Envelope format version. Bare signatures are read as version 0. */
+  version: number
+  /** The algorithm used to sign */
+  algorithm: SignatureAlgorithm
+  /** The detached signature */
+  signature: Uint8Array
+}
+
+export type StreamEncryptor = {
+  /** Header that must precede the encrypted chunks; required to initialize the decryptor */
+  header: Uint8Array
+  /** Encrypts one chunk. The last chunk must be pushed with `isFinal` set to true. */
+  push: (chunk: Uint8Array, isFinal?: boolean) => Uint8Array
+}
+
+export type StreamDecryptor = {
+  /** Decrypts one chunk produced by `StreamEncryptor.push`. Throws if the chunk has been tampered with. */
+  pull: (chunk: Uint8Array) => { message: Uint8Array; isFinal: boolean }
+  /** True once the final chunk has been pulled */
+  readonly isDone: boolean
+}
+
+/**
+ * The low-level primitives that the rest of this library is built on. All inputs and outputs are
+ * byte arrays. The default implementation uses libsodium; an alternative can be registered using
+ * `setCryptoProvider`, but it must produce output that is compatible with libsodium's.
+ */
+export type CryptoProvider = {
+  /** (optional) Resolves once the provider is ready to use */
+  ready?: () => Promise<void>
+  /** (optional) Returns false if the provider needs to be initialized using `ready` first */
+  isReady?: () => boolean
+
+  /** Returns `length` unpredictable bytes */
+  randomBytes: (length: number) => Uint8Array
+
+  /** BLAKE2b hash with an optional key */
+  hash: (length: number, message: Uint8Array, key?: Uint8Array) => Uint8Array
+
+  /** Argon2id13 password hash */
+  pwhash: (
+    length: number,
+    password: Uint8Array,
+    salt: Uint8Array,
+    opsLimit: number,
+    memLimit: number
+  ) => Uint8Array
+
+  /** X25519 keypair, optionally derived from a 32-byte seed */
+  boxKeyPair: (seed?: Uint8Array) => ByteKeypair
+  /** Authenticated public-key encryption (X25519-XSalsa20-Poly1305) */
+  box: (
+    message: Uint8Array,
+    nonce: Uint8Array,
+    publicKey: Uint8Array,
+    secretKey: Uint8Array
+  ) => Uint8Array
+  /** Opens a box; throws if it can't be authenticated */
+  boxOpen: (
+    cipher: Uint8Array,
+    nonce: Uint8Array,
+    publicKey: Uint8Array,
+    secretKey: Uint8Array
+  ) => Uint8Array
+  /** Anonymous public-key encryption using an ephemeral sender keypair */
+  seal: (message: Uint8Array, publicKey: Uint8Array) => Uint8Array
+  /** Opens a sealed box; throws if it can't be authenticated */
+  sealOpen: (cipher: Uint8Array, publicKey: Uint8Array, secretKey: Uint8Array) => Uint8Array
+
+  /** X25519 keypair for key exchange, optionally derived from a 32-byte seed */
+  kxKeyPair: (seed?: Uint8Array) => ByteKeypair
+  /** Session keys for the client side of a key exchange */
+  kxClientSessionKeys: (
+    clientPublicKey: Uint8Array,
+    clientSecretKey: Uint8Array,
+    serverPublicKey: Uint8Array
+  ) => ByteSessionKeys
+  /** Session keys for the server side of a key exchange */
+  kxServerSessionKeys: (
+    serverPublicKey: Uint8Array,
+    serverSecretKey: Uint8Array,
+    clientPublicKey: Uint8Array
+  ) => ByteSessionKeys
+
+  /** Authenticated secret-key encryption (XSalsa20-Poly1305) */
+  secretbox: (message: Uint8Array, nonce: Uint8Array, key: Uint8Array) => Uint8Array
+  /** Opens a secretbox; throws if it can't be authenticated */
+  secretboxOpen: (cipher: Uint8Array, nonce: Uint8Array, key: Uint8Array) => Uint8Array
+
+  /** Ed25519 keypair, optionally derived from a 32-byte seed */
+  signKeyPair: (seed?: Uint8Array) => ByteKeypair
+  /** Detached Ed25519 signature */
+  sign: (message: Uint8Array, secretKey: Uint8Array) => Uint8Array
+  /** Verifies a detached Ed25519 signature */
+  verify: (signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array) => boolean
+
+  /** XChaCha20-Poly1305 secret stream. The state is opaque to callers. */
+  streamInitPush: (key: Uint8Array) => { state: unknown; header: Uint8Array }
+  streamPush: (state: unknown, message: Uint8Array, tag: number) => Uint8Array
+  streamInitPull: (header: Uint8Array, key: Uint8Array) => unknown
+  /** Returns `false` if the chunk can't be authenticated */
+  streamPull: (state: unknown, cipher: Uint8Array) => { message: Uint8Array; tag: number } | false
+}
@@ -1,11 +1,9 @@
+import { type Base58Keypair, type ByteKeypair, type KeyPair } from '../types.js'
 import { base58 } from './base58.js'
 
-export const keypairToBase58 = (keypair: KeyPair) => ({
+export const keypairToBase58 = (keypair: ByteKeypair | KeyPair): Base58Keypair => ({
   publicKey: base58.encode(keypair.publicKey),
-  secretKey: base58.encode(keypair.privateKey),
+  secretKey: base58.encode('secretKey' in keypair ? keypair.secretKey : keypair.privateKey),
 })
 
-export type KeyPair = {
-  privateKey: Uint8Array
-  publicKey: Uint8Array
-}
+export { type KeyPair } from '../types.js'
@@ -1,9 +1,9 @@
 import { defineConfig } from 'tsup'
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/core.ts'],
   format: 'esm',
-  splitting: false,
+  splitting: true,
   sourcemap: true,
   clean: true,
 })